@@ -1,5 +1,8 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
+import { AuthGuard } from '@core/guards/auth.guard';
+import { RoleGuard } from '@core/guards/role.guard';
+import { UserRole } from '@core/models/user.model';
 
 const routes: Routes = [
   {
@@ -7,16 +10,30 @@ const routes: Routes = [
     redirectTo: '/dashboard',
     pathMatch: 'full'
   },
+  {
+    path: 'login',
+    loadChildren: () => import('./features/auth/auth.module').then(m => m.AuthModule)
+  },
+  {
+    // Opened by invited people before they have an account
+    path: 'accept-invite',
+    loadChildren: () => import('./features/invitations/invitations.module').then(m => m.InvitationsModule)
+  },
   {
     path: 'dashboard',
+    canActivate: [AuthGuard],
     loadChildren: () => import('./features/analytics/analytics.module').then(m => m.AnalyticsModule)
   },
   {
     path: 'users',
+    canActivate: [AuthGuard, RoleGuard],
+    data: { roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.USER, UserRole.VIEWER] },
     loadChildren: () => import('./features/users/users.module').then(m => m.UsersModule)
   },
   {
     path: 'settings',
+    canActivate: [AuthGuard, RoleGuard],
+    data: { roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.USER] },
     loadChildren: () => import('./features/settings/settings.module').then(m => m.SettingsModule)
   },
   {
@@ -1,4 +1,4 @@
-import { Component, OnInit } from '@angular/core';
+import { Component } from '@angular/core';
 import { AuthService } from '@core/services/auth.service';
 
 @Component({
@@ -6,18 +6,11 @@ import { AuthService } from '@core/services/auth.service';
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
-export class AppComponent implements OnInit {
+export class AppComponent {
   title = 'Enterprise Admin Workspace';
 
-  constructor(private authService: AuthService) {}
+  // Layout chrome is only shown once the user has signed in
+  isAuthenticated$ = this.authService.isAuthenticated$;
 
-  ngOnInit(): void {
-    // Auto-login for demo purposes
-    if (!this.authService.isAuthenticated) {
-      this.authService.login({ 
-        email: 'admin@enterprise.com', 
-        password: 'demo' 
-      }).subscribe();
-    }
-  }
+  constructor(private authService: AuthService) {}
 }
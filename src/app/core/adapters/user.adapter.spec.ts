@@ -0,0 +1,58 @@
+import { InvalidResponseError } from '../errors/app-error';
+import { UserRole } from '../models/user.model';
+import { toAuthResponse, toDirectoryUser, toDirectoryUserDto } from './user.adapter';
+
+describe('user adapters', () => {
+  const directoryUser = {
+    id: '4',
+    name: 'Alice Williams',
+    email: 'alice.williams@example.com',
+    role: 'Manager',
+    status: 'active',
+    joinedDate: '2023-02-01T00:00:00.000Z',
+    lastActive: null
+  };
+
+  it('should map a users API payload to a DirectoryUser', () => {
+    expect(toDirectoryUser(directoryUser)).toEqual({
+      id: '4',
+      name: 'Alice Williams',
+      email: 'alice.williams@example.com',
+      role: UserRole.MANAGER,
+      avatar: undefined,
+      status: 'active',
+      joinedDate: new Date('2023-02-01T00:00:00.000Z'),
+      lastActive: undefined
+    });
+  });
+
+  it('should accept roles by id as the auth API sends them', () => {
+    const session = toAuthResponse({
+      user: { id: '1', name: 'Admin User', email: 'admin@enterprise.com', role: 'admin' },
+      token: 'access',
+      refreshToken: 'refresh'
+    });
+
+    expect(session.user.role).toBe(UserRole.ADMIN);
+  });
+
+  it('should name the path of an invalid value', () => {
+    let error: unknown;
+    try {
+      toDirectoryUser({ ...directoryUser, role: 'Owner' }, 'users[3]');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect((error as InvalidResponseError).cause).toBe('users[3].role: expected one of admin, manager, user, viewer');
+  });
+
+  it('should reject dates that are not ISO 8601 strings', () => {
+    expect(() => toDirectoryUser({ ...directoryUser, joinedDate: 'yesterday' })).toThrowError(InvalidResponseError);
+  });
+
+  it('should send roles by label and only the given fields', () => {
+    expect(toDirectoryUserDto({ role: UserRole.VIEWER, status: 'inactive' })).toEqual({ role: 'Viewer', status: 'inactive' });
+  });
+});
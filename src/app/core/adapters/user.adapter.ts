@@ -0,0 +1,88 @@
+import { AuthResponse, DirectoryUser, USER_STATUSES, User, UserRole } from '../models/user.model';
+import { USER_ROLES, getRoleLabel, parseRole } from '../models/role.model';
+import {
+  PayloadObject,
+  invalidPayload,
+  readDate,
+  readObject,
+  readOneOf,
+  readOptionalDate,
+  readOptionalString,
+  readString
+} from '../utils/payload.util';
+
+/**
+ * A user as the users API sends and receives it: roles by label ("Admin")
+ * and dates as ISO 8601 strings
+ */
+export interface DirectoryUserDto {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  status: string;
+  avatar?: string;
+  joinedDate: string;
+  lastActive?: string;
+}
+
+/**
+ * A role sent by id ("admin", as the auth API does) or by label ("Admin", as the users API does)
+ */
+export function readRole(object: PayloadObject, key: string, path: string): UserRole {
+  const role = parseRole(readString(object, key, path));
+  if (!role) {
+    throw invalidPayload(`${path}.${key}`, `one of ${USER_ROLES.join(', ')}`);
+  }
+  return role;
+}
+
+export function toUser(payload: unknown, path = 'user'): User {
+  const user = readObject(payload, path);
+  return {
+    id: readString(user, 'id', path),
+    email: readString(user, 'email', path),
+    name: readString(user, 'name', path),
+    role: readRole(user, 'role', path),
+    avatar: readOptionalString(user, 'avatar', path)
+  };
+}
+
+export function toDirectoryUser(payload: unknown, path = 'user'): DirectoryUser {
+  const user = readObject(payload, path);
+  return {
+    ...toUser(user, path),
+    status: readOneOf(user, 'status', path, USER_STATUSES),
+    joinedDate: readDate(user, 'joinedDate', path),
+    lastActive: readOptionalDate(user, 'lastActive', path)
+  };
+}
+
+/**
+ * Fields of a user to send to the users API; only the given ones are included
+ */
+export function toDirectoryUserDto(user: Partial<DirectoryUser>): Partial<DirectoryUserDto> {
+  const { role, joinedDate, lastActive, ...rest } = user;
+  return {
+    ...rest,
+    ...(role && { role: toRoleDto(role) }),
+    ...(joinedDate && { joinedDate: joinedDate.toISOString() }),
+    ...(lastActive && { lastActive: lastActive.toISOString() })
+  };
+}
+
+/**
+ * The role as the users API names it, e.g. in filters
+ */
+export function toRoleDto(role: UserRole): string {
+  return getRoleLabel(role);
+}
+
+export function toAuthResponse(payload: unknown, path = 'session'): AuthResponse {
+  const response = readObject(payload, path);
+  return {
+    user: toUser(response['user'], `${path}.user`),
+    token: readString(response, 'token', path),
+    refreshToken: readString(response, 'refreshToken', path)
+  };
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AppConfig, DEFAULT_APP_CONFIG, validateAppConfig } from './app.config';
+
+/**
+ * AppConfigService - Loads the runtime config before the app starts
+ *
+ * The same build can be promoted across environments: only the JSON file at
+ * `environment.configUrl` changes per deployment. Values missing from the file
+ * fall back to the build-time defaults; invalid values stop the bootstrap.
+ * The file shipped with the app is empty so that every build keeps its own
+ * defaults - a deployment adds only the keys it overrides.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+  private http: HttpClient;
+  private loadedConfig: AppConfig = DEFAULT_APP_CONFIG;
+
+  constructor(httpBackend: HttpBackend) {
+    // Bypass interceptors - they depend on the config being loaded
+    this.http = new HttpClient(httpBackend);
+  }
+
+  get config(): AppConfig {
+    return this.loadedConfig;
+  }
+
+  load(): Promise<void> {
+    return firstValueFrom(this.http.get<Partial<AppConfig>>(environment.configUrl)).then(
+      fileConfig => {
+        this.loadedConfig = validateAppConfig({ ...DEFAULT_APP_CONFIG, ...fileConfig });
+      },
+      error => {
+        throw new Error(`Failed to load app config from ${environment.configUrl}: ${error.message ?? error}`);
+      }
+    );
+  }
+}
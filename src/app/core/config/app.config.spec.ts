@@ -0,0 +1,20 @@
+import { DEFAULT_APP_CONFIG, validateAppConfig } from './app.config';
+
+describe('validateAppConfig', () => {
+  it('should accept a complete config', () => {
+    expect(validateAppConfig({ ...DEFAULT_APP_CONFIG })).toEqual(DEFAULT_APP_CONFIG);
+  });
+
+  it('should reject non-object values', () => {
+    expect(() => validateAppConfig(null)).toThrowError(/expected a JSON object/);
+    expect(() => validateAppConfig([])).toThrowError(/expected a JSON object/);
+  });
+
+  it('should list every invalid field', () => {
+    const config = { ...DEFAULT_APP_CONFIG, apiUrl: 42, environment: 'staging', apiTimeout: -1 };
+
+    expect(() => validateAppConfig(config)).toThrowError(
+      /apiUrl must be a string; environment must be 'development' or 'production'; apiTimeout must be/
+    );
+  });
+});
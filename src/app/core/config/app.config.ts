@@ -1,13 +1,67 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '@environments/environment';
+
 export interface AppConfig {
   apiUrl: string;
   apiTimeout: number;
   enableLogging: boolean;
   environment: 'development' | 'production';
+  idleTimeout: number;
+  idleWarningDuration: number;
 }
 
-export const APP_CONFIG: AppConfig = {
-  apiUrl: '/api',
+// Build-time defaults; the runtime config file overrides any of these
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  apiUrl: environment.apiUrl,
   apiTimeout: 30000,
-  enableLogging: true,
-  environment: 'development'
+  enableLogging: environment.enableLogging,
+  environment: environment.production ? 'production' : 'development',
+  idleTimeout: 15 * 60 * 1000, // Sign out after 15 minutes without activity
+  idleWarningDuration: 60 * 1000 // Warn during the last minute
 };
+
+/**
+ * Runtime application config
+ *
+ * CoreModule provides the config loaded at bootstrap; outside of it (e.g. in
+ * unit tests) the defaults apply unless a test provides its own value.
+ */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_APP_CONFIG
+});
+
+/**
+ * Check that an untrusted value (e.g. a parsed JSON file) matches AppConfig.
+ * Throws an Error listing every invalid field.
+ */
+export function validateAppConfig(value: unknown): AppConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid app config: expected a JSON object');
+  }
+
+  const config = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (typeof config['apiUrl'] !== 'string') {
+    problems.push('apiUrl must be a string');
+  }
+  if (typeof config['enableLogging'] !== 'boolean') {
+    problems.push('enableLogging must be a boolean');
+  }
+  if (config['environment'] !== 'development' && config['environment'] !== 'production') {
+    problems.push(`environment must be 'development' or 'production'`);
+  }
+  for (const key of ['apiTimeout', 'idleTimeout', 'idleWarningDuration']) {
+    const duration = config[key];
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      problems.push(`${key} must be a non-negative number of milliseconds`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid app config: ${problems.join('; ')}`);
+  }
+
+  return config as unknown as AppConfig;
+}
@@ -1,8 +1,17 @@
-import { NgModule, Optional, SkipSelf } from '@angular/core';
+import { APP_INITIALIZER, ErrorHandler, Injector, NgModule, Optional, SkipSelf } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { HTTP_INTERCEPTORS, HttpClientModule } from '@angular/common/http';
 import { AuthInterceptor } from './interceptors/auth.interceptor';
 import { ErrorInterceptor } from './interceptors/error.interceptor';
+import { LoadingInterceptor } from './interceptors/loading.interceptor';
+import { MockAuthBackendInterceptor } from './interceptors/mock-auth-backend.interceptor';
+import { MockUsersBackendInterceptor } from './interceptors/mock-users-backend.interceptor';
+import { APP_CONFIG } from './config/app.config';
+import { AppConfigService } from './config/app-config.service';
+import { GlobalErrorHandler } from './errors/global-error-handler';
+import { StatePersistenceService } from './store/state-persistence.service';
+import { APP_PERSIST_CONFIG } from './store/app.state';
+import { environment } from '@environments/environment';
 
 @NgModule({
   declarations: [],
@@ -11,16 +20,50 @@ import { ErrorInterceptor } from './interceptors/error.interceptor';
     HttpClientModule
   ],
   providers: [
+    // Load the runtime config before anything else starts, then restore persisted preferences
     {
-      provide: HTTP_INTERCEPTORS,
-      useClass: AuthInterceptor,
+      provide: APP_INITIALIZER,
+      useFactory: (configService: AppConfigService, injector: Injector) => async () => {
+        await configService.load();
+        // Resolved only now: the store and its dependencies read the loaded config
+        await injector.get(StatePersistenceService).persist('app', APP_PERSIST_CONFIG);
+      },
+      deps: [AppConfigService, Injector],
       multi: true
     },
+    {
+      provide: APP_CONFIG,
+      useFactory: (configService: AppConfigService) => configService.config,
+      deps: [AppConfigService]
+    },
+    {
+      provide: ErrorHandler,
+      useClass: GlobalErrorHandler
+    },
+    // ErrorInterceptor runs outermost so 401s recovered by a token refresh are never reported
     {
       provide: HTTP_INTERCEPTORS,
       useClass: ErrorInterceptor,
       multi: true
-    }
+    },
+    // Outside AuthInterceptor, so a request replayed after a token refresh counts once
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: LoadingInterceptor,
+      multi: true
+    },
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: AuthInterceptor,
+      multi: true
+    },
+    // Mock backend stands in for the real API in development builds
+    ...(!environment.production
+      ? [
+          { provide: HTTP_INTERCEPTORS, useClass: MockAuthBackendInterceptor, multi: true },
+          { provide: HTTP_INTERCEPTORS, useClass: MockUsersBackendInterceptor, multi: true }
+        ]
+      : [])
   ]
 })
 export class CoreModule {
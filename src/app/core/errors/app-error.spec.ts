@@ -0,0 +1,55 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import {
+  AppError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  ValidationError,
+  fromHttpError,
+  toAppError
+} from './app-error';
+
+describe('AppError', () => {
+  const httpError = (status: number, error: unknown = null) =>
+    new HttpErrorResponse({ status, error, url: '/api/users' });
+
+  it('should tell a 404 from a 409', () => {
+    expect(fromHttpError(httpError(404))).toEqual(jasmine.any(NotFoundError));
+    expect(fromHttpError(httpError(409))).toEqual(jasmine.any(ConflictError));
+  });
+
+  it('should map status 0 to a NetworkError', () => {
+    expect(fromHttpError(httpError(0)).kind).toBe('network');
+  });
+
+  it('should carry field errors from the ApiResponse envelope', () => {
+    const error = fromHttpError(httpError(422, {
+      success: false,
+      message: 'Validation failed',
+      errors: { email: ['Email is already taken'] }
+    }));
+
+    expect(error).toEqual(jasmine.any(ValidationError));
+    expect(error.message).toBe('Validation failed');
+    expect((error as ValidationError).fieldErrors).toEqual({ email: ['Email is already taken'] });
+  });
+
+  it('should keep status and cause', () => {
+    const response = httpError(503);
+    const error = fromHttpError(response);
+
+    expect(error).toEqual(jasmine.any(ServerError));
+    expect(error.status).toBe(503);
+    expect(error.cause).toBe(response);
+  });
+
+  it('should wrap unknown errors without leaking their message', () => {
+    const original = new TypeError('x is undefined');
+    const error = toAppError(original);
+
+    expect(error).toEqual(jasmine.any(AppError));
+    expect(error.message).toBe('An unexpected error occurred.');
+    expect(error.cause).toBe(original);
+  });
+});
@@ -0,0 +1,157 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import { ApiResponse } from '../models/common.model';
+
+export type AppErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'server'
+  | 'queued-offline'
+  | 'invalid-response'
+  | 'unknown';
+
+interface AppErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error surfaced to application code
+ *
+ * `message` is safe to show to users; the original failure (usually an
+ * HttpErrorResponse) is kept as `cause` for logging. Use `instanceof` on the
+ * subclasses, or `kind`, to tell failures apart.
+ */
+export class AppError extends Error {
+  override readonly name: string = 'AppError';
+  readonly kind: AppErrorKind = 'unknown';
+  readonly status: number;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.status = options.status ?? 0;
+  }
+}
+
+export class NetworkError extends AppError {
+  override readonly name = 'NetworkError';
+  override readonly kind = 'network';
+}
+
+export class RequestTimeoutError extends AppError {
+  override readonly name = 'RequestTimeoutError';
+  override readonly kind = 'timeout';
+}
+
+export class UnauthorizedError extends AppError {
+  override readonly name = 'UnauthorizedError';
+  override readonly kind = 'unauthorized';
+}
+
+export class ForbiddenError extends AppError {
+  override readonly name = 'ForbiddenError';
+  override readonly kind = 'forbidden';
+}
+
+export class NotFoundError extends AppError {
+  override readonly name = 'NotFoundError';
+  override readonly kind = 'not-found';
+}
+
+export class ConflictError extends AppError {
+  override readonly name = 'ConflictError';
+  override readonly kind = 'conflict';
+}
+
+export class ValidationError extends AppError {
+  override readonly name = 'ValidationError';
+  override readonly kind = 'validation';
+
+  constructor(
+    message: string,
+    public readonly fieldErrors: Record<string, string[]> = {},
+    options: AppErrorOptions = {}
+  ) {
+    super(message, options);
+  }
+}
+
+export class ServerError extends AppError {
+  override readonly name = 'ServerError';
+  override readonly kind = 'server';
+}
+
+/**
+ * A mutating request couldn't reach the server and was queued; it is sent
+ * automatically once the connection returns (see OfflineQueueService)
+ */
+export class QueuedOfflineError extends AppError {
+  override readonly name = 'QueuedOfflineError';
+  override readonly kind = 'queued-offline';
+}
+
+/**
+ * A response that doesn't have the expected shape, e.g. a user without an
+ * email. `cause` says what was wrong, for logging.
+ */
+export class InvalidResponseError extends AppError {
+  override readonly name = 'InvalidResponseError';
+  override readonly kind = 'invalid-response';
+}
+
+/**
+ * Map an HTTP failure to its AppError, using the ApiResponse envelope when present
+ */
+export function fromHttpError(response: HttpErrorResponse): AppError {
+  const body = response.error as Partial<ApiResponse<unknown>> | null;
+  const serverMessage = typeof body?.message === 'string' ? body.message : undefined;
+  const options: AppErrorOptions = { status: response.status, cause: response };
+
+  // Status 0 means the request never got a response (offline, DNS, CORS...)
+  if (response.status === 0) {
+    return new NetworkError('Unable to reach the server. Check your connection and try again.', options);
+  }
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(serverMessage ?? 'Some fields are invalid.', body?.errors ?? {}, options);
+    case 401:
+      return new UnauthorizedError(serverMessage ?? 'Your session has expired. Please sign in again.', options);
+    case 403:
+      return new ForbiddenError(serverMessage ?? 'You do not have permission to do that.', options);
+    case 404:
+      return new NotFoundError(serverMessage ?? 'The requested item could not be found.', options);
+    case 408:
+      return new RequestTimeoutError(serverMessage ?? 'The server took too long to respond.', options);
+    case 409:
+      return new ConflictError(serverMessage ?? 'This item was changed by someone else. Reload and try again.', options);
+  }
+
+  if (response.status >= 500) {
+    return new ServerError('Something went wrong on our side. Please try again.', options);
+  }
+
+  return new AppError(serverMessage ?? `Request failed (${response.status}).`, options);
+}
+
+/**
+ * Normalize anything thrown into an AppError
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof HttpErrorResponse) {
+    return fromHttpError(error);
+  }
+  if (error instanceof TimeoutError) {
+    return new RequestTimeoutError('The server took too long to respond.', { cause: error });
+  }
+  return new AppError('An unexpected error occurred.', { cause: error });
+}
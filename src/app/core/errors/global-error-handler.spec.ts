@@ -0,0 +1,55 @@
+import { ErrorHandler } from '@angular/core';
+import { TestBed, fakeAsync, flushMicrotasks } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { environment } from '@environments/environment';
+import { GlobalErrorHandler } from './global-error-handler';
+import { APP_CONFIG } from '../config/app.config';
+import { AppConfigService } from '../config/app-config.service';
+import { EventBusService, EventTypes } from '../services/event-bus.service';
+import { QueuedOfflineError } from './app-error';
+
+describe('GlobalErrorHandler', () => {
+  let handler: ErrorHandler;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        { provide: ErrorHandler, useClass: GlobalErrorHandler },
+        // As in CoreModule
+        { provide: APP_CONFIG, useFactory: (configService: AppConfigService) => configService.config, deps: [AppConfigService] }
+      ]
+    });
+    // Created at bootstrap, before the runtime config is loaded
+    handler = TestBed.inject(ErrorHandler);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  const loadConfig = (fileConfig: object) => {
+    TestBed.inject(AppConfigService).load();
+    httpMock.expectOne(environment.configUrl).flush(fileConfig);
+    flushMicrotasks();
+  };
+
+  it('should log with the runtime config', fakeAsync(() => {
+    spyOn(console, 'error');
+    loadConfig({ enableLogging: false });
+
+    handler.handleError(new Error('Boom'));
+
+    expect(console.error).not.toHaveBeenCalled();
+  }));
+
+  it('should notify the user', fakeAsync(() => {
+    spyOn(console, 'error');
+    loadConfig({ enableLogging: true });
+    const notifications: unknown[] = [];
+    TestBed.inject(EventBusService).on(EventTypes.NOTIFICATION).subscribe(event => notifications.push(event.payload));
+
+    handler.handleError({ rejection: new QueuedOfflineError('Queued') });
+
+    expect(console.error).toHaveBeenCalled();
+    expect(notifications).toEqual([{ type: 'warning', message: 'Queued' }]);
+  }));
+});
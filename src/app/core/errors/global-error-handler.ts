@@ -0,0 +1,45 @@
+import { ErrorHandler, Injectable, Injector, NgZone } from '@angular/core';
+import { LoggerService } from '../services/logger.service';
+import { EventBusService, EventTypes } from '../services/event-bus.service';
+import { QueuedOfflineError, UnauthorizedError, toAppError } from './app-error';
+
+/**
+ * GlobalErrorHandler - Last stop for errors nobody caught
+ *
+ * Logs the original error and tells the user something went wrong through an
+ * EventTypes.NOTIFICATION event. Expired sessions are skipped: the auth flow
+ * already redirects to the login page.
+ *
+ * Angular creates the handler before the APP_INITIALIZERs run, so its
+ * dependencies are resolved on first use: created any earlier they would keep
+ * the default config instead of the runtime one.
+ */
+@Injectable()
+export class GlobalErrorHandler implements ErrorHandler {
+
+  constructor(
+    private injector: Injector,
+    private zone: NgZone
+  ) {}
+
+  handleError(error: unknown): void {
+    // Unhandled promise rejections arrive wrapped by zone.js
+    const original = (error as { rejection?: unknown } | null)?.rejection ?? error;
+    const appError = toAppError(original);
+
+    this.injector.get(LoggerService).error(`Unhandled ${appError.name}: ${appError.message}`, original);
+
+    if (appError instanceof UnauthorizedError) {
+      return;
+    }
+
+    // Errors may be reported outside the Angular zone; notify inside it so the UI updates
+    this.zone.run(() => {
+      this.injector.get(EventBusService).emit(EventTypes.NOTIFICATION, {
+        // Queued changes aren't lost, so this is only a heads-up
+        type: appError instanceof QueuedOfflineError ? 'warning' : 'error',
+        message: appError.message
+      });
+    });
+  }
+}
@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
 import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { map, take } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
 
 @Injectable({
@@ -19,13 +19,16 @@ export class AuthGuard implements CanActivate {
     state: RouterStateSnapshot
   ): Observable<boolean | UrlTree> | Promise<boolean | UrlTree> | boolean | UrlTree {
     return this.authService.isAuthenticated$.pipe(
+      take(1),
       map(isAuthenticated => {
         if (isAuthenticated) {
           return true;
         }
 
-        // Redirect to login (for now, just allow access since we auto-login)
-        return true; // In a real app, return this.router.createUrlTree(['/login'])
+        // Redirect to login, remembering where the user was headed
+        return this.router.createUrlTree(['/login'], {
+          queryParams: { returnUrl: state.url }
+        });
       })
     );
   }
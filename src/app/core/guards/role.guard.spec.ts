@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { Observable } from 'rxjs';
+import { RoleGuard } from './role.guard';
+import { AuthService } from '../services/auth.service';
+import { User, UserRole } from '../models/user.model';
+
+describe('RoleGuard', () => {
+  let guard: RoleGuard;
+  let authService: AuthService;
+  let router: Router;
+
+  const state = { url: '/settings' } as RouterStateSnapshot;
+
+  const routeWithRoles = (roles?: UserRole[]) =>
+    ({ data: roles ? { roles } : {} } as unknown as ActivatedRouteSnapshot);
+
+  const userWithRole = (role: UserRole): User => ({
+    id: '1',
+    email: 'someone@enterprise.com',
+    name: 'Someone',
+    role
+  });
+
+  const run = (route: ActivatedRouteSnapshot): boolean | UrlTree => {
+    let result: boolean | UrlTree = false;
+    (guard.canActivate(route, state) as Observable<boolean | UrlTree>).subscribe(r => result = r);
+    return result;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+
+    TestBed.configureTestingModule({
+      imports: [RouterTestingModule, HttpClientTestingModule]
+    });
+    guard = TestBed.inject(RoleGuard);
+    authService = TestBed.inject(AuthService);
+    router = TestBed.inject(Router);
+  });
+
+  it('should redirect anonymous users to login with a returnUrl', () => {
+    const result = run(routeWithRoles([UserRole.ADMIN]));
+    expect(router.serializeUrl(result as UrlTree)).toBe('/login?returnUrl=%2Fsettings');
+  });
+
+  it('should allow users with a listed role', () => {
+    authService.setCurrentUser(userWithRole(UserRole.ADMIN));
+    expect(run(routeWithRoles([UserRole.ADMIN, UserRole.USER]))).toBeTrue();
+  });
+
+  it('should allow any signed-in user when no roles are declared', () => {
+    authService.setCurrentUser(userWithRole(UserRole.VIEWER));
+    expect(run(routeWithRoles())).toBeTrue();
+  });
+
+  it('should send users without a listed role to the dashboard', () => {
+    authService.setCurrentUser(userWithRole(UserRole.VIEWER));
+    const result = run(routeWithRoles([UserRole.ADMIN, UserRole.USER]));
+    expect(router.serializeUrl(result as UrlTree)).toBe('/dashboard');
+  });
+});
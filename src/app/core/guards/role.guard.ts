@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { Observable } from 'rxjs';
+import { map, take } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { UserRole } from '../models/user.model';
+
+/**
+ * RoleGuard - Restricts a route to the roles listed in its data
+ *
+ * Usage: { path: 'settings', canActivate: [AuthGuard, RoleGuard], data: { roles: [UserRole.ADMIN] } }
+ * Routes without `data.roles` are open to every signed-in user.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RoleGuard implements CanActivate {
+
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) {}
+
+  canActivate(
+    route: ActivatedRouteSnapshot,
+    state: RouterStateSnapshot
+  ): Observable<boolean | UrlTree> | Promise<boolean | UrlTree> | boolean | UrlTree {
+    const roles = route.data['roles'] as UserRole[] | undefined;
+
+    return this.authService.currentUser$.pipe(
+      take(1),
+      map(user => {
+        if (!user) {
+          return this.router.createUrlTree(['/login'], {
+            queryParams: { returnUrl: state.url }
+          });
+        }
+
+        if (!roles || roles.length === 0 || this.authService.hasRole(roles)) {
+          return true;
+        }
+
+        // Signed in but not allowed here - fall back to the dashboard
+        return this.router.createUrlTree(['/dashboard']);
+      })
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+import { HasUnsavedChanges, UnsavedChangesGuard } from './unsaved-changes.guard';
+import { ConfirmDialog, ConfirmDialogService } from '../services/confirm-dialog.service';
+
+describe('UnsavedChangesGuard', () => {
+  let guard: UnsavedChangesGuard;
+  let confirmDialog: ConfirmDialogService;
+  let dialog: ConfirmDialog | null;
+
+  const page = (unsaved: boolean): HasUnsavedChanges => ({ hasUnsavedChanges: () => unsaved });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    guard = TestBed.inject(UnsavedChangesGuard);
+    confirmDialog = TestBed.inject(ConfirmDialogService);
+    confirmDialog.dialog$.subscribe(open => dialog = open);
+  });
+
+  it('should leave without asking when nothing is unsaved', () => {
+    let result: boolean | undefined;
+    guard.canDeactivate(page(false)).subscribe(leave => result = leave);
+
+    expect(result).toBeTrue();
+    expect(dialog).toBeNull();
+  });
+
+  it('should stay on the page when leaving is not confirmed', () => {
+    let result: boolean | undefined;
+    guard.canDeactivate(page(true)).subscribe(leave => result = leave);
+
+    expect(dialog?.message).toContain('unsaved changes');
+    expect(result).toBeUndefined();
+
+    confirmDialog.respond(false);
+
+    expect(result).toBeFalse();
+    expect(dialog).toBeNull();
+  });
+
+  it('should leave when discarding is confirmed', () => {
+    let result: boolean | undefined;
+    guard.canDeactivate(page(true)).subscribe(leave => result = leave);
+    confirmDialog.respond(true);
+
+    expect(result).toBeTrue();
+  });
+
+  it('should close the dialog when the navigation is abandoned', () => {
+    guard.canDeactivate(page(true)).subscribe().unsubscribe();
+
+    expect(dialog).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { Injectable } from '@angular/core';
+import { CanDeactivate } from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { ConfirmDialogService } from '../services/confirm-dialog.service';
+
+/**
+ * Implemented by routed components that can hold unsaved edits
+ */
+export interface HasUnsavedChanges {
+  hasUnsavedChanges(): boolean;
+}
+
+/**
+ * UnsavedChangesGuard - Asks before leaving a page with unsaved changes
+ *
+ * Usage: { path: '', component: UsersListComponent, canDeactivate: [UnsavedChangesGuard] }
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UnsavedChangesGuard implements CanDeactivate<HasUnsavedChanges> {
+
+  constructor(private confirmDialog: ConfirmDialogService) {}
+
+  canDeactivate(component: HasUnsavedChanges | null): Observable<boolean> {
+    if (!component?.hasUnsavedChanges()) {
+      return of(true);
+    }
+    return this.confirmDialog.confirm({
+      title: 'Unsaved changes',
+      message: 'You have unsaved changes. Leave this page and discard them?',
+      confirmLabel: 'Discard changes',
+      cancelLabel: 'Stay on this page'
+    });
+  }
+}
@@ -1,6 +1,11 @@
 // Models
 export * from './models/user.model';
+export * from './models/role.model';
 export * from './models/common.model';
+export * from './models/permission.model';
+export * from './models/notification.model';
+export * from './models/activity.model';
+export * from './models/export.model';
 
 // Services
 export * from './services/auth.service';
@@ -8,12 +13,56 @@ export * from './services/api.service';
 export * from './services/state.service';
 export * from './services/event-bus.service';
 export * from './services/logger.service';
+export * from './services/storage-sync.service';
+export * from './services/idle.service';
+export * from './services/http-cache.service';
+export * from './services/notification.service';
+export * from './services/confirm-dialog.service';
+export * from './services/connectivity.service';
+export * from './services/offline-queue.service';
+export * from './services/scroll-position.service';
+export * from './services/export.service';
+
+// Store
+export * from './store/action';
+export * from './store/reducer';
+export * from './store/selector';
+export * from './store/effect';
+export * from './store/store';
+export * from './store/store.module';
+export * from './store/app.state';
+export * from './store/persistence';
+export * from './store/storage-backend';
+export * from './store/state-persistence.service';
+
+// Interceptors
+export * from './interceptors/loading.interceptor';
+export * from './interceptors/mock-auth-backend.interceptor';
+export * from './interceptors/mock-users-backend.interceptor';
+
+// Adapters
+export * from './adapters/user.adapter';
+
+// Errors
+export * from './errors/app-error';
+export * from './errors/global-error-handler';
 
 // Guards
 export * from './guards/auth.guard';
+export * from './guards/role.guard';
+export * from './guards/unsaved-changes.guard';
+
+// Utils
+export * from './utils/jwt.util';
+export * from './utils/page-query.util';
+export * from './utils/payload.util';
+export * from './utils/csv.util';
+export * from './utils/xlsx.util';
+export * from './utils/download.util';
 
 // Config
 export * from './config/app.config';
+export * from './config/app-config.service';
 
 // Module
 export * from './core.module';
@@ -3,29 +3,69 @@ import {
   HttpRequest,
   HttpHandler,
   HttpEvent,
-  HttpInterceptor
+  HttpInterceptor,
+  HttpErrorResponse
 } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Observable, throwError } from 'rxjs';
+import { catchError, switchMap, take } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
 
+/**
+ * AuthInterceptor - Attaches the access token and recovers from expiry
+ *
+ * On a 401 the request is replayed once a (single, shared) token refresh
+ * completes. Requests issued while a refresh is running wait for it instead
+ * of going out with the stale token.
+ */
 @Injectable()
 export class AuthInterceptor implements HttpInterceptor {
 
   constructor(private authService: AuthService) {}
 
   intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
-    // Get authentication token
-    const token = this.authService.getAuthToken();
+    // Auth endpoints manage tokens themselves
+    if (this.isAuthEndpoint(request)) {
+      return next.handle(this.addToken(request, this.authService.getAuthToken()));
+    }
 
-    // Clone request and add authorization header if token exists
-    if (token) {
-      request = request.clone({
-        setHeaders: {
-          Authorization: `Bearer ${token}`
+    // Queue behind a refresh that is already in progress
+    const pendingRefresh = this.authService.pendingRefresh();
+    if (pendingRefresh) {
+      return pendingRefresh.pipe(
+        take(1),
+        switchMap(token => next.handle(this.addToken(request, token)))
+      );
+    }
+
+    return next.handle(this.addToken(request, this.authService.getAuthToken())).pipe(
+      catchError(error => {
+        if (error instanceof HttpErrorResponse && error.status === 401 && this.authService.isAuthenticated) {
+          return this.authService.refreshToken().pipe(
+            // Surface the original 401 if the refresh fails
+            catchError(() => throwError(() => error)),
+            switchMap(token => next.handle(this.addToken(request, token)))
+          );
         }
-      });
+
+        return throwError(() => error);
+      })
+    );
+  }
+
+  private addToken(request: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+    // Clone request and add authorization header if token exists
+    if (!token) {
+      return request;
     }
 
-    return next.handle(request);
+    return request.clone({
+      setHeaders: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+  }
+
+  private isAuthEndpoint(request: HttpRequest<unknown>): boolean {
+    return request.url.endsWith('/auth/login') || request.url.endsWith('/auth/refresh');
   }
 }
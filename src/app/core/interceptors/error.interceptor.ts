@@ -9,6 +9,7 @@ import {
 import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 import { LoggerService } from '../services/logger.service';
+import { fromHttpError } from '../errors/app-error';
 
 @Injectable()
 export class ErrorInterceptor implements HttpInterceptor {
@@ -18,21 +19,14 @@ export class ErrorInterceptor implements HttpInterceptor {
   intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
     return next.handle(request).pipe(
       catchError((error: HttpErrorResponse) => {
-        let errorMessage = 'An error occurred';
-
-        if (error.error instanceof ErrorEvent) {
-          // Client-side error
-          errorMessage = `Client Error: ${error.error.message}`;
-        } else {
-          // Server-side error
-          errorMessage = `Server Error (${error.status}): ${error.message}`;
-        }
+        // Map to a typed AppError (NotFoundError, ValidationError, ...)
+        const appError = fromHttpError(error);
 
         // Log error
-        this.logger.error(errorMessage, error);
+        this.logger.error(`${appError.name} (${error.status}) ${request.method} ${request.url}: ${appError.message}`, error);
 
-        // Re-throw error for handling by calling code
-        return throwError(() => new Error(errorMessage));
+        // Re-throw for handling by calling code; the response stays available as `cause`
+        return throwError(() => appError);
       })
     );
   }
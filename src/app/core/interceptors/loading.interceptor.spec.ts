@@ -0,0 +1,51 @@
+import { TestBed } from '@angular/core/testing';
+import { HTTP_INTERCEPTORS, HttpClient, HttpContext } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { LoadingInterceptor, SKIP_LOADING } from './loading.interceptor';
+import { StateService } from '../services/state.service';
+
+describe('LoadingInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let loading: boolean[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [{ provide: HTTP_INTERCEPTORS, useClass: LoadingInterceptor, multi: true }]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+
+    loading = [];
+    TestBed.inject(StateService).loading$.subscribe(value => loading.push(value));
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should stay loading until every request has finished', () => {
+    http.get('/a').subscribe();
+    http.get('/b').subscribe({ error: () => undefined });
+
+    httpMock.expectOne('/a').flush({});
+    expect(loading).toEqual([false, true]);
+
+    httpMock.expectOne('/b').flush(null, { status: 500, statusText: 'Server Error' });
+    expect(loading).toEqual([false, true, false]);
+  });
+
+  it('should stop loading when a request is cancelled', () => {
+    const subscription = http.get('/a').subscribe();
+    subscription.unsubscribe();
+
+    httpMock.expectOne('/a');
+    expect(loading).toEqual([false, true, false]);
+  });
+
+  it('should ignore requests opted out with SKIP_LOADING', () => {
+    http.get('/poll', { context: new HttpContext().set(SKIP_LOADING, true) }).subscribe();
+    httpMock.expectOne('/poll').flush({});
+
+    expect(loading).toEqual([false]);
+  });
+});
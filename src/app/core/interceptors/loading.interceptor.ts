@@ -0,0 +1,49 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpContextToken,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpInterceptor
+} from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+import { StateService } from '../services/state.service';
+
+/**
+ * Set to true on background requests (polling, prefetching...) that
+ * shouldn't show the global loading indicator
+ */
+export const SKIP_LOADING = new HttpContextToken<boolean>(() => false);
+
+@Injectable()
+export class LoadingInterceptor implements HttpInterceptor {
+  private inFlight = 0;
+
+  constructor(private stateService: StateService) {}
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (request.context.get(SKIP_LOADING)) {
+      return next.handle(request);
+    }
+
+    this.started();
+
+    // finalize covers success, errors and cancelled (unsubscribed) requests alike
+    return next.handle(request).pipe(
+      finalize(() => this.finished())
+    );
+  }
+
+  private started(): void {
+    if (this.inFlight++ === 0) {
+      this.stateService.setLoading(true);
+    }
+  }
+
+  private finished(): void {
+    if (--this.inFlight === 0) {
+      this.stateService.setLoading(false);
+    }
+  }
+}
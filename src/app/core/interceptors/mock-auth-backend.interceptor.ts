@@ -0,0 +1,186 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpInterceptor,
+  HttpResponse,
+  HttpErrorResponse
+} from '@angular/common/http';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { delay, mergeMap } from 'rxjs/operators';
+import { ApiResponse } from '../models/common.model';
+import { AuthResponse, Credentials, EMAIL_PATTERN, User, UserRole } from '../models/user.model';
+import { base64UrlEncode } from '../utils/jwt.util';
+
+interface MockAccount {
+  password: string;
+  user: User;
+}
+
+// Demo accounts accepted by the mock backend
+const MOCK_ACCOUNTS: MockAccount[] = [
+  {
+    password: 'demo',
+    user: {
+      id: '1',
+      email: 'admin@enterprise.com',
+      name: 'Admin User',
+      role: UserRole.ADMIN,
+      avatar: 'https://ui-avatars.com/api/?name=Admin+User&background=4F46E5&color=fff'
+    }
+  },
+  {
+    password: 'demo',
+    user: {
+      id: '4',
+      email: 'manager@enterprise.com',
+      name: 'Manager User',
+      role: UserRole.MANAGER,
+      avatar: 'https://ui-avatars.com/api/?name=Manager+User&background=8B5CF6&color=fff'
+    }
+  },
+  {
+    password: 'demo',
+    user: {
+      id: '2',
+      email: 'user@enterprise.com',
+      name: 'Standard User',
+      role: UserRole.USER,
+      avatar: 'https://ui-avatars.com/api/?name=Standard+User&background=10B981&color=fff'
+    }
+  },
+  {
+    password: 'demo',
+    user: {
+      id: '3',
+      email: 'viewer@enterprise.com',
+      name: 'Viewer User',
+      role: UserRole.VIEWER,
+      avatar: 'https://ui-avatars.com/api/?name=Viewer+User&background=F59E0B&color=fff'
+    }
+  }
+];
+
+const RESPONSE_DELAY = 800;
+const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // seconds
+
+/**
+ * MockAuthBackendInterceptor - Local stand-in for the authentication API
+ *
+ * Answers POST /auth/login and POST /auth/refresh against a fixed set of demo
+ * accounts so the session flow works in development and in tests without a
+ * real backend. Access tokens are unsigned JWTs with a short expiry.
+ * All other requests pass through untouched.
+ */
+@Injectable()
+export class MockAuthBackendInterceptor implements HttpInterceptor {
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (request.method === 'POST' && request.url.endsWith('/auth/login')) {
+      return this.handleLogin(request as HttpRequest<Partial<Credentials> | null>);
+    }
+
+    if (request.method === 'POST' && request.url.endsWith('/auth/refresh')) {
+      return this.handleRefresh(request as HttpRequest<{ refreshToken?: string } | null>);
+    }
+
+    return next.handle(request);
+  }
+
+  private handleLogin(request: HttpRequest<Partial<Credentials> | null>): Observable<HttpEvent<unknown>> {
+    const email = request.body?.email?.trim() ?? '';
+    const password = request.body?.password ?? '';
+
+    const errors: Record<string, string[]> = {};
+    if (!email) {
+      errors['email'] = ['Email is required'];
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors['email'] = ['Email must be a valid email address'];
+    }
+    if (!password) {
+      errors['password'] = ['Password is required'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return this.error(request, 422, 'Unprocessable Entity', {
+        success: false,
+        message: 'Validation failed',
+        errors
+      });
+    }
+
+    const account = MOCK_ACCOUNTS.find(
+      a => a.user.email.toLowerCase() === email.toLowerCase() && a.password === password
+    );
+
+    if (!account) {
+      return this.error(request, 401, 'Unauthorized', {
+        success: false,
+        message: 'Invalid email or password'
+      });
+    }
+
+    return this.issueTokens(request, account.user);
+  }
+
+  private handleRefresh(request: HttpRequest<{ refreshToken?: string } | null>): Observable<HttpEvent<unknown>> {
+    // Refresh tokens look like `mock-refresh.<userId>.<issuedAtSeconds>`
+    const [prefix, userId, issuedAt] = (request.body?.refreshToken ?? '').split('.');
+    const account = MOCK_ACCOUNTS.find(a => a.user.id === userId);
+    const expired = Number(issuedAt) + REFRESH_TOKEN_TTL < this.nowInSeconds();
+
+    if (prefix !== 'mock-refresh' || !account || isNaN(Number(issuedAt)) || expired) {
+      return this.error(request, 401, 'Unauthorized', {
+        success: false,
+        message: 'Refresh token is invalid or expired'
+      });
+    }
+
+    return this.issueTokens(request, account.user);
+  }
+
+  private issueTokens(request: HttpRequest<unknown>, user: User): Observable<HttpEvent<unknown>> {
+    const issuedAt = this.nowInSeconds();
+    const body: ApiResponse<AuthResponse> = {
+      success: true,
+      data: {
+        user,
+        token: this.createAccessToken(user, issuedAt),
+        refreshToken: `mock-refresh.${user.id}.${issuedAt}`
+      }
+    };
+
+    return of(new HttpResponse({ status: 200, url: request.url, body })).pipe(
+      delay(RESPONSE_DELAY)
+    );
+  }
+
+  private createAccessToken(user: User, issuedAt: number): string {
+    const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+    const payload = base64UrlEncode(JSON.stringify({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      iat: issuedAt,
+      exp: issuedAt + ACCESS_TOKEN_TTL
+    }));
+    return `${header}.${payload}.mock-signature`;
+  }
+
+  private nowInSeconds(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private error(request: HttpRequest<unknown>, status: number, statusText: string, body: unknown): Observable<never> {
+    return timer(RESPONSE_DELAY).pipe(
+      mergeMap(() => throwError(() => new HttpErrorResponse({
+        status,
+        statusText,
+        url: request.url,
+        error: body
+      })))
+    );
+  }
+}
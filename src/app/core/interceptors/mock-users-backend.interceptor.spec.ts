@@ -0,0 +1,215 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HTTP_INTERCEPTORS, HttpClient, HttpClientModule, HttpErrorResponse } from '@angular/common/http';
+import { MockUsersBackendInterceptor } from './mock-users-backend.interceptor';
+import { ApiResponse, BatchResult, PaginatedResponse } from '../models/common.model';
+import { base64UrlEncode } from '../utils/jwt.util';
+
+interface UserRecord {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+describe('MockUsersBackendInterceptor', () => {
+  let http: HttpClient;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule],
+      providers: [{ provide: HTTP_INTERCEPTORS, useClass: MockUsersBackendInterceptor, multi: true }]
+    });
+    http = TestBed.inject(HttpClient);
+  });
+
+  it('should page, sort and filter the user list', fakeAsync(() => {
+    let page: PaginatedResponse<UserRecord> | undefined;
+    http.get<ApiResponse<PaginatedResponse<UserRecord>>>('/api/users', {
+      params: { page: '2', pageSize: '2', sort: 'name:desc', role: 'Admin' }
+    }).subscribe(response => page = response.data);
+    tick(1000);
+
+    expect(page!.page).toBe(2);
+    expect(page!.items.length).toBe(2);
+    expect(page!.items.every(user => user.role === 'Admin')).toBeTrue();
+    expect(page!.items[0].name.localeCompare(page!.items[1].name)).toBeGreaterThan(0);
+  }));
+
+  it('should reject a duplicate email with field errors', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.post('/api/users', { name: 'Copy', email: 'john.doe@example.com' })
+      .subscribe({ error: e => error = e });
+    tick(1000);
+
+    expect(error!.status).toBe(422);
+    expect(error!.error.errors.email).toEqual(['Email is already in use']);
+  }));
+
+  it('should restore a deleted user', fakeAsync(() => {
+    const statuses: number[] = [];
+    const record = (observable: ReturnType<HttpClient['get']>) =>
+      observable.subscribe({ next: () => statuses.push(200), error: e => statuses.push(e.status) });
+
+    record(http.delete('/api/users/2'));
+    tick(1000);
+    record(http.get('/api/users/2'));
+    tick(1000);
+    record(http.post('/api/users/2/restore', null));
+    tick(1000);
+    record(http.get('/api/users/2'));
+    tick(1000);
+
+    expect(statuses).toEqual([200, 404, 200, 200]);
+  }));
+
+  it('should report per-user failures of a bulk update', fakeAsync(() => {
+    let result: BatchResult<UserRecord> | undefined;
+    http.post<ApiResponse<BatchResult<UserRecord>>>('/api/users/bulk-update', { ids: ['2', '999'], changes: { role: 'Viewer' } })
+      .subscribe(response => result = response.data);
+    tick(1000);
+
+    expect(result!.succeeded.map(user => [user.id, user.role])).toEqual([['2', 'Viewer']]);
+    expect(result!.failed).toEqual([{ id: '999', message: 'User not found' }]);
+  }));
+
+  it('should create users in bulk and report the invalid ones by index', fakeAsync(() => {
+    let result: BatchResult<UserRecord> | undefined;
+    http.post<ApiResponse<BatchResult<UserRecord>>>('/api/users/bulk-create', {
+      users: [
+        { name: 'New Person', email: 'new.person@example.com', role: 'Viewer' },
+        { name: 'Copy', email: 'JOHN.DOE@example.com' },
+        { name: 'Twice', email: 'new.person@example.com' }
+      ]
+    }).subscribe(response => result = response.data);
+    tick(1000);
+
+    expect(result!.succeeded.map(user => user.email)).toEqual(['new.person@example.com']);
+    expect(result!.failed).toEqual([
+      { id: '1', message: 'Email is already in use' },
+      { id: '2', message: 'Email is already in use' }
+    ]);
+  }));
+
+  it('should record role changes in the role history', fakeAsync(() => {
+    let history: Array<{ role: string; previousRole: string | null }> | undefined;
+    http.put('/api/users/2', { role: 'Manager' }).subscribe();
+    tick(1000);
+    http.get<ApiResponse<typeof history>>('/api/users/2/role-history').subscribe(response => history = response.data);
+    tick(1000);
+
+    expect(history!.map(change => [change.role, change.previousRole])).toEqual([['Manager', 'User'], ['User', null]]);
+  }));
+
+  it('should refuse writes on a user changed since If-Unmodified-Since', fakeAsync(() => {
+    let status: number | undefined;
+    http.put('/api/users/1', { name: 'John D.' }, {
+      headers: { 'If-Unmodified-Since': new Date(Date.now() - 60 * 60 * 1000).toUTCString() }
+    }).subscribe({ error: e => status = e.status });
+    tick(1000);
+
+    expect(status).toBe(412);
+  }));
+
+  describe('invitations', () => {
+    // An unsigned access token, like the mock auth backend issues
+    const signedInAs = (role: string) => ({
+      Authorization: `Bearer ${base64UrlEncode('{"alg":"none"}')}.${base64UrlEncode(JSON.stringify({ email: `${role}@example.com`, role }))}.mock`
+    });
+
+    const invite = (email: string) => {
+      let id: string | undefined;
+      let token: string | undefined;
+      http.post<ApiResponse<BatchResult<UserRecord>>>('/api/users/invitations', { emails: [email], role: 'Viewer' })
+        .subscribe(response => id = response.data.succeeded[0].id);
+      tick(1000);
+      http.get<ApiResponse<{ token: string }>>(`/api/users/${id}/invitation`, { headers: signedInAs('admin') })
+        .subscribe(response => token = response.data.token);
+      tick(1000);
+      return { id: id!, token: token! };
+    };
+
+    it('should create pending users and skip emails in use', fakeAsync(() => {
+      let result: BatchResult<UserRecord & { status: string }> | undefined;
+      http.post<ApiResponse<BatchResult<UserRecord & { status: string }>>>('/api/users/invitations', {
+        emails: ['new.person@example.com', 'john.doe@example.com'],
+        role: 'Manager'
+      }).subscribe(response => result = response.data);
+      tick(1000);
+
+      expect(result!.succeeded.map(user => [user.name, user.role, user.status]))
+        .toEqual([['New Person', 'Manager', 'pending']]);
+      expect(result!.failed).toEqual([{ id: 'john.doe@example.com', message: 'Email is already in use' }]);
+    }));
+
+    it('should only send the token to roles that can invite users', fakeAsync(() => {
+      const { id, token } = invite('secret@example.com');
+      const tokens: Array<string | null> = [];
+      const getToken = (headers: Record<string, string>) =>
+        http.get<ApiResponse<{ token: string | null }>>(`/api/users/${id}/invitation`, { headers })
+          .subscribe(response => tokens.push(response.data.token));
+
+      getToken(signedInAs('manager'));
+      tick(1000);
+      getToken(signedInAs('viewer'));
+      tick(1000);
+      getToken({});
+      tick(1000);
+
+      expect(tokens).toEqual([token, null, null]);
+    }));
+
+    it('should activate the user once and then reject the token', fakeAsync(() => {
+      const { id, token } = invite('invitee@example.com');
+      const statuses: number[] = [];
+      const accept = () => http.post(`/api/invitations/${token}/accept`, { name: 'In Vitee', password: 'secret-password' })
+        .subscribe({ next: () => statuses.push(200), error: e => statuses.push(e.status) });
+
+      accept();
+      tick(1000);
+      accept();
+      tick(1000);
+
+      let user: (UserRecord & { status: string }) | undefined;
+      http.get<ApiResponse<UserRecord & { status: string }>>(`/api/users/${id}`).subscribe(response => user = response.data);
+      tick(1000);
+      expect(statuses).toEqual([200, 404]);
+      expect(user!.name).toBe('In Vitee');
+      expect(user!.status).toBe('active');
+    }));
+
+    it('should replace the token on resend and record each step', fakeAsync(() => {
+      const { id, token } = invite('resent@example.com');
+      let invitation: { status: string; token: string | null; events: Array<{ type: string }> } | undefined;
+      let oldTokenStatus: number | undefined;
+
+      http.post<ApiResponse<typeof invitation>>(`/api/users/${id}/invitation/resend`, null).subscribe();
+      tick(1000);
+      http.get(`/api/invitations/${token}`).subscribe({ error: e => oldTokenStatus = e.status });
+      tick(1000);
+      http.post<ApiResponse<typeof invitation>>(`/api/users/${id}/invitation/revoke`, null)
+        .subscribe(response => invitation = response.data);
+      tick(1000);
+
+      expect(oldTokenStatus).toBe(404);
+      expect(invitation!.status).toBe('revoked');
+      expect(invitation!.token).toBeNull();
+      expect(invitation!.events.map(event => event.type)).toEqual(['revoked', 'resent', 'invited']);
+    }));
+
+    it('should refuse expired tokens', fakeAsync(() => {
+      const { id, token } = invite('late@example.com');
+      let tokenStatus: number | undefined;
+      let invitationStatus: string | undefined;
+
+      tick(8 * 24 * 60 * 60 * 1000);
+      http.get(`/api/invitations/${token}`).subscribe({ error: e => tokenStatus = e.status });
+      tick(1000);
+      http.get<ApiResponse<{ status: string }>>(`/api/users/${id}/invitation`)
+        .subscribe(response => invitationStatus = response.data.status);
+      tick(1000);
+
+      expect(tokenStatus).toBe(410);
+      expect(invitationStatus).toBe('expired');
+    }));
+  });
+});
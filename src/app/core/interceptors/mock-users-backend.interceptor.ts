@@ -0,0 +1,881 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpInterceptor,
+  HttpResponse,
+  HttpErrorResponse
+} from '@angular/common/http';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { delay, mergeMap } from 'rxjs/operators';
+import { ApiResponse, BatchFailure, BatchResult, PaginatedResponse, PageQuery } from '../models/common.model';
+import { EMAIL_PATTERN } from '../models/user.model';
+import { Permission, ROLE_PERMISSIONS } from '../models/permission.model';
+import { isUserRole } from '../models/role.model';
+import { fromPageQueryParams } from '../utils/page-query.util';
+import { decodeJwt } from '../utils/jwt.util';
+
+type MockUserStatus = 'active' | 'inactive' | 'pending';
+
+// Shape of a user as the users API sends it (dates as ISO strings)
+interface MockUserRecord {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  status: MockUserStatus;
+  avatar: string;
+  joinedDate: string;
+  lastActive?: string;
+}
+
+interface StoredUser extends MockUserRecord {
+  // Last modification, checked against If-Unmodified-Since
+  updatedAt: number;
+}
+
+interface MockRoleChange {
+  role: string;
+  // null for the role a user was created with
+  previousRole: string | null;
+  changedAt: string;
+}
+
+interface MockActivityRecord {
+  id: string;
+  type: string;
+  description: string;
+  timestamp: string;
+  user?: string;
+}
+
+type MockInvitationState = 'pending' | 'accepted' | 'revoked';
+
+interface MockInvitationEvent {
+  type: 'invited' | 'resent' | 'revoked' | 'accepted';
+  at: string;
+  // Email of whoever did it; null when unknown
+  by: string | null;
+}
+
+// An invitation as the API sends it to administrators
+interface MockInvitation {
+  status: MockInvitationState | 'expired';
+  expiresAt: string;
+  // Stands in for the invitation email; null once the invitation is accepted or revoked,
+  // and for callers who may not invite users (whoever holds it can take over the account)
+  token: string | null;
+  // Newest first
+  events: MockInvitationEvent[];
+}
+
+interface StoredInvitation {
+  token: string | null;
+  state: MockInvitationState;
+  expiresAt: number;
+  events: MockInvitationEvent[];
+}
+
+const ROLES = ['Admin', 'Manager', 'User', 'Viewer'];
+const STATUSES: MockUserStatus[] = ['active', 'inactive', 'pending'];
+const FILTER_KEYS = ['search', 'email', 'role', 'status', 'joined'];
+const SORTABLE_FIELDS: Array<keyof MockUserRecord> = ['name', 'email', 'role', 'status', 'joinedDate', 'lastActive'];
+const DEFAULT_QUERY: PageQuery = { page: 1, pageSize: 10, sort: [], filter: {} };
+const MAX_PAGE_SIZE = 100;
+
+const RESPONSE_DELAY = 400;
+const USERS_PATH = /\/users(?:\/([^/]+))?(?:\/(restore|role-history|activity|invitation(?:\/resend|\/revoke)?))?$/;
+const BULK_PATH = /\/users\/bulk-(create|update|delete|restore)$/;
+const EMAILS_IN_USE_PATH = /\/users\/emails-in-use$/;
+const INVITE_PATH = /\/users\/invitations$/;
+const INVITATION_TOKEN_PATH = /\/invitations\/([^/]+)(?:\/(accept))?$/;
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_BATCH_SIZE = 500;
+const DEFAULT_ACTIVITY_PAGE_SIZE = 20;
+
+const USER_ACTIVITY_TEMPLATES: Array<Pick<MockActivityRecord, 'type' | 'description'>> = [
+  { type: 'login', description: 'Signed in' },
+  { type: 'profile_update', description: 'Updated their profile' },
+  { type: 'export', description: 'Exported the monthly usage report' },
+  { type: 'login', description: 'Signed in from a new device' },
+  { type: 'password_change', description: 'Changed their password' },
+  { type: 'purchase', description: 'Purchase completed' }
+];
+
+const FIRST_NAMES = ['Olivia', 'Liam', 'Emma', 'Noah', 'Ava', 'Elijah', 'Sophia', 'Lucas', 'Mia', 'Mason', 'Isabella'];
+const LAST_NAMES = ['Garcia', 'Miller', 'Davis', 'Martinez', 'Lopez'];
+
+function avatarUrl(name: string, background = 'random'): string {
+  return `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=${background}&color=fff`;
+}
+
+function createSeedUsers(): StoredUser[] {
+  const day = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+
+  const users: StoredUser[] = [
+    { id: '1', name: 'John Doe', email: 'john.doe@example.com', role: 'Admin', status: 'active', avatar: avatarUrl('John Doe', '4F46E5'), joinedDate: '2023-01-15T00:00:00.000Z', lastActive: new Date(now).toISOString(), updatedAt: now },
+    { id: '2', name: 'Jane Smith', email: 'jane.smith@example.com', role: 'User', status: 'active', avatar: avatarUrl('Jane Smith', '10B981'), joinedDate: '2023-03-22T00:00:00.000Z', lastActive: new Date(now - 30 * 60 * 1000).toISOString(), updatedAt: now },
+    { id: '3', name: 'Bob Johnson', email: 'bob.johnson@example.com', role: 'User', status: 'inactive', avatar: avatarUrl('Bob Johnson', 'EF4444'), joinedDate: '2023-05-10T00:00:00.000Z', lastActive: new Date(now - 7 * day).toISOString(), updatedAt: now },
+    { id: '4', name: 'Alice Williams', email: 'alice.williams@example.com', role: 'Manager', status: 'active', avatar: avatarUrl('Alice Williams', 'F59E0B'), joinedDate: '2023-02-01T00:00:00.000Z', lastActive: new Date(now - 5 * 60 * 1000).toISOString(), updatedAt: now }
+  ];
+
+  // Deterministic filler so pagination, sorting and filtering have something to work on
+  LAST_NAMES.forEach((lastName, i) => FIRST_NAMES.forEach((firstName, j) => {
+    const n = i * FIRST_NAMES.length + j;
+    const name = `${firstName} ${lastName}`;
+    users.push({
+      id: String(users.length + 1),
+      name,
+      email: `${firstName}.${lastName}`.toLowerCase() + '@example.com',
+      role: ROLES[(n * 7) % ROLES.length],
+      status: STATUSES[n % 5 === 0 ? 1 : n % 7 === 0 ? 2 : 0],
+      avatar: avatarUrl(name),
+      joinedDate: new Date(Date.UTC(2022, 0, 1) + n * 11 * day).toISOString(),
+      lastActive: n % 7 === 0 ? undefined : new Date(now - n * 3 * 60 * 60 * 1000).toISOString(),
+      updatedAt: now
+    });
+  }));
+
+  return users;
+}
+
+function createSeedRoleHistory(users: StoredUser[]): Map<string, MockRoleChange[]> {
+  const history = new Map<string, MockRoleChange[]>(
+    users.map(user => [user.id, [{ role: user.role, previousRole: null, changedAt: user.joinedDate }]])
+  );
+
+  // Alice started as a User and was promoted later
+  history.set('4', [
+    { role: 'Manager', previousRole: 'User', changedAt: '2023-06-01T09:30:00.000Z' },
+    { role: 'User', previousRole: null, changedAt: '2023-02-01T00:00:00.000Z' }
+  ]);
+
+  return history;
+}
+
+/**
+ * Display name until the invitee chooses one, e.g. "jane.doe@example.com" -> "Jane Doe"
+ */
+function nameFromEmail(email: string): string {
+  return email.split('@')[0]
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ') || email;
+}
+
+function createInvitationToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A user's activity, newest first. Deterministic per user so pages stay consistent.
+ */
+function createUserActivity(user: StoredUser): MockActivityRecord[] {
+  const hour = 60 * 60 * 1000;
+  const start = Date.parse(user.joinedDate);
+  const end = user.lastActive ? Date.parse(user.lastActive) : start + 30 * 24 * hour;
+  const count = 5 + (Number(user.id) * 13) % 40;
+  const step = Math.max(Math.floor((end - start) / count), hour);
+
+  return Array.from({ length: count }, (_, i) => {
+    const template = USER_ACTIVITY_TEMPLATES[(Number(user.id) + i * 5) % USER_ACTIVITY_TEMPLATES.length];
+    return {
+      id: `${user.id}-${i + 1}`,
+      ...template,
+      timestamp: new Date(Math.max(end - i * step, start)).toISOString(),
+      user: user.email
+    };
+  });
+}
+
+/**
+ * MockUsersBackendInterceptor - Local stand-in for the users API
+ *
+ * Implements the same contract as the real API so UsersService works in
+ * development and in tests without a backend:
+ *
+ * - GET    /users?page&pageSize&sort&search&email&role&status&joined  -> PaginatedResponse
+ *   (`email` is an exact, case-insensitive match; `joined` is a date range:
+ *   `yyyy-mm-dd..yyyy-mm-dd`, either side optional)
+ * - GET    /users/:id
+ * - POST   /users
+ * - PUT    /users/:id
+ * - DELETE /users/:id
+ * - POST   /users/:id/restore  (undo a delete)
+ * - GET    /users/:id/role-history           -> role changes, newest first
+ * - GET    /users/:id/activity?page&pageSize -> PaginatedResponse of activity
+ * - POST   /users/bulk-create  { users }         -> BatchResult of users (failure ids are indexes into `users`)
+ * - POST   /users/bulk-update  { ids, changes }  -> BatchResult of users
+ * - POST   /users/bulk-delete  { ids }           -> BatchResult of ids
+ * - POST   /users/bulk-restore { ids }           -> BatchResult of users
+ * - POST   /users/emails-in-use { emails }       -> the given emails that already belong to a user
+ * - POST   /users/invitations { emails, role }   -> BatchResult of pending users (failure ids are the emails)
+ * - GET    /users/:id/invitation                 -> the invitation with its audit trail; null if not invited
+ * - POST   /users/:id/invitation/resend          -> new token and expiry
+ * - POST   /users/:id/invitation/revoke          -> invalidates the token; the user becomes inactive
+ * - GET    /invitations/:token                   -> email, name and role of the invitee (public)
+ * - POST   /invitations/:token/accept { name, password } -> the activated user (public)
+ *
+ * Data lives in memory and resets on reload. Writes honour If-Unmodified-Since
+ * (412 when the user changed after that date) and reject invalid input or
+ * duplicate emails with 422. Batch requests apply to each user separately
+ * and report per-user failures, e.g. removing the last active Admin.
+ * Invitation tokens are only sent to roles that can create or edit users.
+ * They expire after 7 days (410); unknown, used and revoked tokens get a 404. Passwords set on accepting are not kept.
+ */
+@Injectable()
+export class MockUsersBackendInterceptor implements HttpInterceptor {
+  private users = createSeedUsers();
+  private deleted = new Map<string, StoredUser>();
+  private roleHistory = createSeedRoleHistory(this.users);
+  private activity = new Map<string, MockActivityRecord[]>();
+  // Keyed by user id
+  private invitations = new Map<string, StoredInvitation>();
+  private nextId = this.users.length + 1;
+
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const [path, queryString] = request.url.split('?');
+
+    const bulk = BULK_PATH.exec(path);
+    if (bulk && request.method === 'POST') {
+      return bulk[1] === 'create'
+        ? this.createUsers(request)
+        : this.handleBulk(request, bulk[1] as 'update' | 'delete' | 'restore');
+    }
+
+    if (EMAILS_IN_USE_PATH.test(path) && request.method === 'POST') {
+      return this.getEmailsInUse(request);
+    }
+
+    if (INVITE_PATH.test(path) && request.method === 'POST') {
+      return this.inviteUsers(request);
+    }
+
+    const invitation = INVITATION_TOKEN_PATH.exec(path);
+    if (invitation) {
+      const [, token, accept] = invitation;
+      if (request.method === 'GET' && !accept) {
+        return this.getInvitationByToken(request, decodeURIComponent(token));
+      }
+      if (request.method === 'POST' && accept) {
+        return this.acceptInvitation(request, decodeURIComponent(token));
+      }
+    }
+
+    const match = USERS_PATH.exec(path);
+    if (!match) {
+      return next.handle(request);
+    }
+
+    const [, id, subresource] = match;
+    if (subresource) {
+      return this.handleSubresource(request, next, id, subresource, queryString);
+    }
+
+    switch (request.method) {
+      case 'GET':
+        return id ? this.getUser(request, id) : this.listUsers(request, queryString);
+      case 'POST':
+        return id ? next.handle(request) : this.createUser(request);
+      case 'PUT':
+        return id ? this.updateUser(request, id) : next.handle(request);
+      case 'DELETE':
+        return id ? this.deleteUser(request, id) : next.handle(request);
+      default:
+        return next.handle(request);
+    }
+  }
+
+  private handleSubresource(
+    request: HttpRequest<unknown>,
+    next: HttpHandler,
+    id: string,
+    subresource: string,
+    queryString?: string
+  ): Observable<HttpEvent<unknown>> {
+    switch (`${request.method} ${subresource}`) {
+      case 'POST restore':
+        return this.restoreUser(request, id);
+      case 'GET role-history':
+        return this.getRoleHistory(request, id);
+      case 'GET activity':
+        return this.getUserActivity(request, id, queryString);
+      case 'GET invitation':
+        return this.getInvitation(request, id);
+      case 'POST invitation/resend':
+        return this.resendInvitation(request, id);
+      case 'POST invitation/revoke':
+        return this.revokeInvitation(request, id);
+      default:
+        return next.handle(request);
+    }
+  }
+
+  private listUsers(request: HttpRequest<unknown>, queryString?: string): Observable<HttpEvent<unknown>> {
+    const query = fromPageQueryParams(this.getParams(request, queryString), DEFAULT_QUERY, FILTER_KEYS);
+    const pageSize = Math.min(query.pageSize, MAX_PAGE_SIZE);
+    const search = query.filter['search']?.toLowerCase();
+    const email = query.filter['email']?.toLowerCase();
+    const [joinedFrom, joinedTo] = (query.filter['joined'] ?? '').split('..');
+
+    const matching = this.users
+      .filter(user => !search || user.name.toLowerCase().includes(search) || user.email.toLowerCase().includes(search))
+      .filter(user => !email || user.email.toLowerCase() === email)
+      .filter(user => !query.filter['role'] || user.role === query.filter['role'])
+      .filter(user => !query.filter['status'] || user.status === query.filter['status'])
+      // ISO strings compare chronologically; the end date includes the whole day
+      .filter(user => !joinedFrom || user.joinedDate >= joinedFrom)
+      .filter(user => !joinedTo || user.joinedDate.slice(0, 10) <= joinedTo)
+      .sort((a, b) => this.compare(a, b, query));
+
+    const start = (query.page - 1) * pageSize;
+    return this.ok<PaginatedResponse<MockUserRecord>>(request, {
+      items: matching.slice(start, start + pageSize).map(user => this.toRecord(user)),
+      total: matching.length,
+      page: query.page,
+      pageSize
+    });
+  }
+
+  private getUser(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const user = this.users.find(u => u.id === id);
+    return user ? this.ok(request, this.toRecord(user)) : this.notFound(request);
+  }
+
+  private getRoleHistory(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    if (!this.users.some(u => u.id === id)) {
+      return this.notFound(request);
+    }
+    return this.ok<MockRoleChange[]>(request, this.roleHistory.get(id) ?? []);
+  }
+
+  private getUserActivity(request: HttpRequest<unknown>, id: string, queryString?: string): Observable<HttpEvent<unknown>> {
+    const user = this.users.find(u => u.id === id);
+    if (!user) {
+      return this.notFound(request);
+    }
+
+    if (!this.activity.has(id)) {
+      this.activity.set(id, createUserActivity(user));
+    }
+    const items = this.activity.get(id)!;
+
+    const params = this.getParams(request, queryString);
+    const page = Math.max(Number(params['page']) || 1, 1);
+    const pageSize = Math.min(Math.max(Number(params['pageSize']) || DEFAULT_ACTIVITY_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const start = (page - 1) * pageSize;
+
+    return this.ok<PaginatedResponse<MockActivityRecord>>(request, {
+      items: items.slice(start, start + pageSize),
+      total: items.length,
+      page,
+      pageSize
+    });
+  }
+
+  private createUser(request: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const body = (request.body ?? {}) as Partial<MockUserRecord>;
+    const invalid = this.validate(request, body);
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.ok(request, this.toRecord(this.insertUser(body)), 201);
+  }
+
+  private createUsers(request: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const body = (request.body ?? {}) as { users?: unknown };
+    const users = Array.isArray(body.users) ? body.users as Array<Partial<MockUserRecord>> : [];
+    if (users.length === 0 || users.length > MAX_BATCH_SIZE) {
+      return this.error(request, 422, 'Unprocessable Entity', {
+        success: false,
+        message: `Send between 1 and ${MAX_BATCH_SIZE} users`,
+        errors: { users: [`Send between 1 and ${MAX_BATCH_SIZE} users`] }
+      });
+    }
+
+    const succeeded: MockUserRecord[] = [];
+    const failed: BatchFailure[] = [];
+    users.forEach((user, index) => {
+      const errors = Object.values(this.getValidationErrors(user ?? {}));
+      if (errors.length > 0) {
+        failed.push({ id: String(index), message: errors.map(messages => messages[0]).join('; ') });
+        return;
+      }
+      succeeded.push(this.toRecord(this.insertUser(user)));
+    });
+
+    return this.ok<BatchResult<MockUserRecord>>(request, { succeeded, failed });
+  }
+
+  private getEmailsInUse(request: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const body = (request.body ?? {}) as { emails?: unknown };
+    const emails = Array.isArray(body.emails) ? body.emails.map(String) : [];
+    const inUse = new Set(this.users.map(user => user.email.toLowerCase()));
+
+    return this.ok<string[]>(request, emails.filter(email => inUse.has(email.trim().toLowerCase())));
+  }
+
+  private inviteUsers(request: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const body = (request.body ?? {}) as { emails?: unknown; role?: unknown };
+    const emails = Array.isArray(body.emails) ? body.emails.map(email => String(email).trim()) : [];
+    const role = typeof body.role === 'string' ? body.role : 'User';
+    const errors: Record<string, string[]> = {};
+    if (emails.length === 0 || emails.length > MAX_BATCH_SIZE) {
+      errors['emails'] = [`Send between 1 and ${MAX_BATCH_SIZE} emails`];
+    }
+    if (!ROLES.includes(role)) {
+      errors['role'] = [`Role must be one of ${ROLES.join(', ')}`];
+    }
+    if (Object.keys(errors).length > 0) {
+      return this.error(request, 422, 'Unprocessable Entity', { success: false, message: 'Validation failed', errors });
+    }
+
+    const by = this.getActor(request);
+    const succeeded: MockUserRecord[] = [];
+    const failed: BatchFailure[] = [];
+    emails.forEach(email => {
+      const user: Partial<MockUserRecord> = { name: nameFromEmail(email), email, role, status: 'pending' };
+      const emailErrors = this.getValidationErrors(user)['email'];
+      if (emailErrors) {
+        failed.push({ id: email, message: emailErrors[0] });
+        return;
+      }
+
+      const invited = this.insertUser(user);
+      // Invitees haven't signed in yet
+      invited.lastActive = undefined;
+      this.invitations.set(invited.id, {
+        token: createInvitationToken(),
+        state: 'pending',
+        expiresAt: invited.updatedAt + INVITATION_TTL,
+        events: [{ type: 'invited', at: invited.joinedDate, by }]
+      });
+      succeeded.push(this.toRecord(invited));
+    });
+
+    return this.ok<BatchResult<MockUserRecord>>(request, { succeeded, failed }, 201);
+  }
+
+  private getInvitation(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    if (!this.users.some(u => u.id === id)) {
+      return this.notFound(request);
+    }
+    const invitation = this.invitations.get(id);
+    return this.ok(request, invitation ? this.toInvitation(request, invitation) : null);
+  }
+
+  private resendInvitation(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const user = this.users.find(u => u.id === id);
+    const invitation = user ? this.invitations.get(id) : undefined;
+    if (!user || !invitation) {
+      return this.error(request, 404, 'Not Found', { success: false, message: 'This user was not invited' });
+    }
+    if (invitation.state === 'accepted') {
+      return this.error(request, 409, 'Conflict', { success: false, message: 'The invitation was already accepted' });
+    }
+
+    // A new token replaces the old one, which stops working
+    const now = Date.now();
+    invitation.token = createInvitationToken();
+    invitation.state = 'pending';
+    invitation.expiresAt = now + INVITATION_TTL;
+    invitation.events = [{ type: 'resent', at: new Date(now).toISOString(), by: this.getActor(request) }, ...invitation.events];
+    Object.assign(user, { status: 'pending', updatedAt: now });
+    return this.ok(request, this.toInvitation(request, invitation));
+  }
+
+  private revokeInvitation(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const user = this.users.find(u => u.id === id);
+    const invitation = user ? this.invitations.get(id) : undefined;
+    if (!user || !invitation) {
+      return this.error(request, 404, 'Not Found', { success: false, message: 'This user was not invited' });
+    }
+    if (invitation.state === 'accepted') {
+      return this.error(request, 409, 'Conflict', { success: false, message: 'The invitation was already accepted' });
+    }
+
+    if (invitation.state === 'pending') {
+      const now = Date.now();
+      invitation.token = null;
+      invitation.state = 'revoked';
+      invitation.events = [{ type: 'revoked', at: new Date(now).toISOString(), by: this.getActor(request) }, ...invitation.events];
+      Object.assign(user, { status: 'inactive', updatedAt: now });
+    }
+    return this.ok(request, this.toInvitation(request, invitation));
+  }
+
+  private getInvitationByToken(request: HttpRequest<unknown>, token: string): Observable<HttpEvent<unknown>> {
+    const found = this.findInvitation(request, token);
+    if (found instanceof Observable) {
+      return found;
+    }
+
+    const { user, invitation } = found;
+    return this.ok(request, {
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      expiresAt: new Date(invitation.expiresAt).toISOString()
+    });
+  }
+
+  private acceptInvitation(request: HttpRequest<unknown>, token: string): Observable<HttpEvent<unknown>> {
+    const found = this.findInvitation(request, token);
+    if (found instanceof Observable) {
+      return found;
+    }
+
+    const body = (request.body ?? {}) as { name?: unknown; password?: unknown };
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    const errors: Record<string, string[]> = {};
+    if (!name) {
+      errors['name'] = ['Name is required'];
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      errors['password'] = [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+    }
+    if (Object.keys(errors).length > 0) {
+      return this.error(request, 422, 'Unprocessable Entity', { success: false, message: 'Validation failed', errors });
+    }
+
+    const { user, invitation } = found;
+    const now = new Date();
+    Object.assign(user, {
+      name,
+      status: 'active',
+      avatar: avatarUrl(name),
+      lastActive: now.toISOString(),
+      updatedAt: now.getTime()
+    });
+    invitation.token = null;
+    invitation.state = 'accepted';
+    invitation.events = [{ type: 'accepted', at: now.toISOString(), by: user.email }, ...invitation.events];
+    return this.ok(request, this.toRecord(user));
+  }
+
+  /**
+   * The pending invitation with this token and its user, or the error response
+   */
+  private findInvitation(
+    request: HttpRequest<unknown>,
+    token: string
+  ): { user: StoredUser; invitation: StoredInvitation } | Observable<never> {
+    const entry = [...this.invitations.entries()].find(([, invitation]) => invitation.token === token);
+    const user = entry && this.users.find(u => u.id === entry[0]);
+    if (!entry || !user) {
+      return this.error(request, 404, 'Not Found', {
+        success: false,
+        message: 'This invitation link is not valid. It may have been revoked or already used.'
+      });
+    }
+    if (Date.now() > entry[1].expiresAt) {
+      return this.error(request, 410, 'Gone', {
+        success: false,
+        message: 'This invitation has expired. Ask an administrator to send a new one.'
+      });
+    }
+    return { user, invitation: entry[1] };
+  }
+
+  private toInvitation(request: HttpRequest<unknown>, { token, state, expiresAt, events }: StoredInvitation): MockInvitation {
+    return {
+      status: state === 'pending' && Date.now() > expiresAt ? 'expired' : state,
+      expiresAt: new Date(expiresAt).toISOString(),
+      token: this.canInvite(request) ? token : null,
+      events
+    };
+  }
+
+  /**
+   * Whether the signed-in user's role may create or edit users, from the access token
+   */
+  private canInvite(request: HttpRequest<unknown>): boolean {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+    const role = token ? decodeJwt(token)?.['role'] : undefined;
+    return isUserRole(role) && ROLE_PERMISSIONS[role].some(
+      permission => permission === Permission.USERS_CREATE || permission === Permission.USERS_EDIT
+    );
+  }
+
+  /**
+   * Email of the signed-in user making the request, from the access token
+   */
+  private getActor(request: HttpRequest<unknown>): string | null {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+    const email = token ? decodeJwt(token)?.['email'] : undefined;
+    return typeof email === 'string' ? email : null;
+  }
+
+  /**
+   * Store a validated new user
+   */
+  private insertUser(body: Partial<MockUserRecord>): StoredUser {
+    const name = body.name!.trim();
+    const now = Date.now();
+    const user: StoredUser = {
+      id: String(this.nextId++),
+      name,
+      email: body.email!.trim(),
+      role: body.role ?? 'User',
+      status: body.status ?? 'active',
+      avatar: avatarUrl(name),
+      joinedDate: new Date(now).toISOString(),
+      lastActive: new Date(now).toISOString(),
+      updatedAt: now
+    };
+    this.users.push(user);
+    this.roleHistory.set(user.id, [{ role: user.role, previousRole: null, changedAt: user.joinedDate }]);
+    return user;
+  }
+
+  private updateUser(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const index = this.users.findIndex(u => u.id === id);
+    if (index === -1) {
+      return this.notFound(request);
+    }
+    if (this.modifiedSince(request, this.users[index])) {
+      return this.preconditionFailed(request);
+    }
+
+    const body = (request.body ?? {}) as Partial<MockUserRecord>;
+    const updated = { ...this.users[index], ...body, id, updatedAt: Date.now() };
+    const invalid = this.validate(request, updated, id);
+    if (invalid) {
+      return invalid;
+    }
+
+    this.recordRoleChange(this.users[index], updated);
+    this.users[index] = updated;
+    return this.ok(request, this.toRecord(updated));
+  }
+
+  private deleteUser(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const user = this.users.find(u => u.id === id);
+    if (!user) {
+      return this.notFound(request);
+    }
+    if (this.modifiedSince(request, user)) {
+      return this.preconditionFailed(request);
+    }
+
+    this.users = this.users.filter(u => u.id !== id);
+    this.deleted.set(id, user);
+    return this.ok(request, null);
+  }
+
+  private restoreUser(request: HttpRequest<unknown>, id: string): Observable<HttpEvent<unknown>> {
+    const user = this.deleted.get(id);
+    if (!user) {
+      return this.notFound(request);
+    }
+
+    this.deleted.delete(id);
+    this.users.push({ ...user, updatedAt: Date.now() });
+    return this.ok(request, this.toRecord(user));
+  }
+
+  private handleBulk(request: HttpRequest<unknown>, action: 'update' | 'delete' | 'restore'): Observable<HttpEvent<unknown>> {
+    const body = (request.body ?? {}) as { ids?: unknown; changes?: Partial<MockUserRecord> };
+    const ids = Array.isArray(body.ids) ? body.ids.map(String) : [];
+    if (ids.length === 0 || ids.length > MAX_BATCH_SIZE) {
+      return this.error(request, 422, 'Unprocessable Entity', {
+        success: false,
+        message: `Select between 1 and ${MAX_BATCH_SIZE} users`,
+        errors: { ids: [`Select between 1 and ${MAX_BATCH_SIZE} users`] }
+      });
+    }
+
+    const failed: BatchFailure[] = [];
+    const fail = (id: string, message: string) => failed.push({ id, message });
+
+    switch (action) {
+      case 'update': {
+        // Only role and status can be changed in bulk
+        const changes: Partial<MockUserRecord> = {};
+        if (body.changes?.role !== undefined) {
+          changes.role = body.changes.role;
+        }
+        if (body.changes?.status !== undefined) {
+          changes.status = body.changes.status;
+        }
+
+        const succeeded: MockUserRecord[] = [];
+        ids.forEach(id => {
+          const index = this.users.findIndex(u => u.id === id);
+          const updated = index === -1 ? null : { ...this.users[index], ...changes, updatedAt: Date.now() };
+          const problem = !updated ? 'User not found' : this.getBulkProblem(updated, changes);
+          if (problem) {
+            fail(id, problem);
+            return;
+          }
+          this.recordRoleChange(this.users[index], updated!);
+          this.users[index] = updated!;
+          succeeded.push(this.toRecord(updated!));
+        });
+        return this.ok<BatchResult<MockUserRecord>>(request, { succeeded, failed });
+      }
+
+      case 'delete': {
+        const succeeded: string[] = [];
+        ids.forEach(id => {
+          const user = this.users.find(u => u.id === id);
+          const problem = !user ? 'User not found' : this.removesLastAdmin(user) ? 'At least one active Admin is required' : null;
+          if (problem) {
+            fail(id, problem);
+            return;
+          }
+          this.users = this.users.filter(u => u.id !== id);
+          this.deleted.set(id, user!);
+          succeeded.push(id);
+        });
+        return this.ok<BatchResult<string>>(request, { succeeded, failed });
+      }
+
+      case 'restore': {
+        const succeeded: MockUserRecord[] = [];
+        ids.forEach(id => {
+          const user = this.deleted.get(id);
+          if (!user) {
+            fail(id, 'User not found');
+            return;
+          }
+          this.deleted.delete(id);
+          this.users.push({ ...user, updatedAt: Date.now() });
+          succeeded.push(this.toRecord(user));
+        });
+        return this.ok<BatchResult<MockUserRecord>>(request, { succeeded, failed });
+      }
+    }
+  }
+
+  private recordRoleChange(before: StoredUser, after: StoredUser): void {
+    if (before.role === after.role) {
+      return;
+    }
+    const change: MockRoleChange = {
+      role: after.role,
+      previousRole: before.role,
+      changedAt: new Date(after.updatedAt).toISOString()
+    };
+    this.roleHistory.set(after.id, [change, ...(this.roleHistory.get(after.id) ?? [])]);
+  }
+
+  private getBulkProblem(updated: StoredUser, changes: Partial<MockUserRecord>): string | null {
+    if (changes.role !== undefined && !ROLES.includes(changes.role)) {
+      return `Role must be one of ${ROLES.join(', ')}`;
+    }
+    if (changes.status !== undefined && !STATUSES.includes(changes.status)) {
+      return `Status must be one of ${STATUSES.join(', ')}`;
+    }
+    if ((updated.role !== 'Admin' || updated.status !== 'active') && this.removesLastAdmin(updated)) {
+      return 'At least one active Admin is required';
+    }
+    return null;
+  }
+
+  /**
+   * Whether `user` is the only active Admin, so changing or removing it leaves none
+   */
+  private removesLastAdmin(user: Pick<StoredUser, 'id'>): boolean {
+    const admins = this.users.filter(u => u.role === 'Admin' && u.status === 'active');
+    return admins.length === 1 && admins[0].id === user.id;
+  }
+
+  private validate(request: HttpRequest<unknown>, user: Partial<MockUserRecord>, id?: string): Observable<never> | null {
+    const errors = this.getValidationErrors(user, id);
+    if (Object.keys(errors).length === 0) {
+      return null;
+    }
+    return this.error(request, 422, 'Unprocessable Entity', { success: false, message: 'Validation failed', errors });
+  }
+
+  private getValidationErrors(user: Partial<MockUserRecord>, id?: string): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    const email = user.email?.trim() ?? '';
+
+    if (!user.name?.trim()) {
+      errors['name'] = ['Name is required'];
+    }
+    if (!email) {
+      errors['email'] = ['Email is required'];
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors['email'] = ['Email must be a valid email address'];
+    } else if (this.users.some(u => u.id !== id && u.email.toLowerCase() === email.toLowerCase())) {
+      errors['email'] = ['Email is already in use'];
+    }
+    if (user.role !== undefined && !ROLES.includes(user.role)) {
+      errors['role'] = [`Role must be one of ${ROLES.join(', ')}`];
+    }
+    if (user.status !== undefined && !STATUSES.includes(user.status)) {
+      errors['status'] = [`Status must be one of ${STATUSES.join(', ')}`];
+    }
+    return errors;
+  }
+
+  private compare(a: StoredUser, b: StoredUser, query: PageQuery): number {
+    for (const { field, direction } of query.sort) {
+      if (!SORTABLE_FIELDS.includes(field as keyof MockUserRecord)) {
+        continue;
+      }
+      const left = String(a[field as keyof MockUserRecord] ?? '');
+      const right = String(b[field as keyof MockUserRecord] ?? '');
+      const result = left.localeCompare(right, undefined, { sensitivity: 'base' });
+      if (result !== 0) {
+        return direction === 'asc' ? result : -result;
+      }
+    }
+    return Number(a.id) - Number(b.id);
+  }
+
+  private getParams(request: HttpRequest<unknown>, queryString?: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    request.params.keys().forEach(key => params[key] = request.params.get(key)!);
+    new URLSearchParams(queryString).forEach((value, key) => params[key] = value);
+    return params;
+  }
+
+  private modifiedSince(request: HttpRequest<unknown>, user: StoredUser): boolean {
+    const header = request.headers.get('If-Unmodified-Since');
+    // HTTP dates have second precision
+    return header !== null && Math.floor(user.updatedAt / 1000) * 1000 > Date.parse(header);
+  }
+
+  private toRecord({ updatedAt, ...record }: StoredUser): MockUserRecord {
+    return record;
+  }
+
+  private ok<T>(request: HttpRequest<unknown>, data: T, status = 200): Observable<HttpEvent<unknown>> {
+    const body: ApiResponse<T> = { success: true, data };
+    return of(new HttpResponse({ status, url: request.url, body })).pipe(
+      delay(RESPONSE_DELAY)
+    );
+  }
+
+  private notFound(request: HttpRequest<unknown>): Observable<never> {
+    return this.error(request, 404, 'Not Found', { success: false, message: 'User not found' });
+  }
+
+  private preconditionFailed(request: HttpRequest<unknown>): Observable<never> {
+    return this.error(request, 412, 'Precondition Failed', {
+      success: false,
+      message: 'This user was changed by someone else'
+    });
+  }
+
+  private error(request: HttpRequest<unknown>, status: number, statusText: string, body: unknown): Observable<never> {
+    return timer(RESPONSE_DELAY).pipe(
+      mergeMap(() => throwError(() => new HttpErrorResponse({
+        status,
+        statusText,
+        url: request.url,
+        error: body
+      })))
+    );
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * An entry in an activity log - the analytics feed or a single user's history
+ */
+export interface Activity {
+  id: string;
+  type: string;
+  description: string;
+  timestamp: Date;
+  user?: string;
+}
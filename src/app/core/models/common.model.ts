@@ -1,6 +1,6 @@
-export interface AppEvent<T = any> {
-  type: string;
-  payload?: T;
+export interface AppEvent<T = unknown, K extends string = string> {
+  type: K;
+  payload: T;
   timestamp: number;
 }
 
@@ -8,6 +8,8 @@ export interface ApiResponse<T> {
   data: T;
   message?: string;
   success: boolean;
+  // Per-field validation messages on failed requests
+  errors?: Record<string, string[]>;
 }
 
 export interface PaginatedResponse<T> {
@@ -16,3 +18,33 @@ export interface PaginatedResponse<T> {
   page: number;
   pageSize: number;
 }
+
+/**
+ * Outcome of a batch request, which succeeds or fails per item
+ */
+export interface BatchResult<T> {
+  succeeded: T[];
+  failed: BatchFailure[];
+}
+
+export interface BatchFailure {
+  id: string;
+  message: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortSpec {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * Request side of PaginatedResponse. Pages start at 1; sort specs apply in order.
+ */
+export interface PageQuery {
+  page: number;
+  pageSize: number;
+  sort: SortSpec[];
+  filter: Record<string, string>;
+}
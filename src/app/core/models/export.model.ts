@@ -0,0 +1,36 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF (print)' }
+];
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * How a column's values are written:
+ * - number: kept numeric in CSV, XLSX and JSON; grouped by locale in PDF
+ * - date / datetime: formatted in the user's timezone and language (ISO 8601 in JSON)
+ */
+export type ExportColumnType = 'text' | 'number' | 'date' | 'datetime' | 'boolean';
+
+export interface ExportColumn<T> {
+  // Property name in JSON exports
+  key: string;
+  header: string;
+  // Defaults to 'text'
+  type?: ExportColumnType;
+  value: (row: T) => ExportValue;
+}
+
+export interface ExportRequest<T> {
+  format: ExportFormat;
+  // Without extension
+  fileName: string;
+  // Heading of the PDF and name of the XLSX sheet
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
@@ -0,0 +1,26 @@
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+  label: string;
+  handler: () => void;
+}
+
+/**
+ * Payload of an EventTypes.NOTIFICATION event
+ */
+export interface NotificationOptions {
+  type: NotificationType;
+  message: string;
+  title?: string;
+  /** Auto-dismiss delay in ms; 0 keeps the toast until it is closed. Defaults per type. */
+  duration?: number;
+  /** Button shown on the toast, e.g. "Undo". Clicking it also dismisses the toast. */
+  action?: NotificationAction;
+  /** A toast with the same key replaces the previous one instead of stacking */
+  key?: string;
+}
+
+export interface Notification extends NotificationOptions {
+  id: string;
+  createdAt: number;
+}
@@ -0,0 +1,36 @@
+import { UserRole } from './user.model';
+
+export enum Permission {
+  USERS_VIEW = 'users:view',
+  USERS_CREATE = 'users:create',
+  USERS_EDIT = 'users:edit',
+  USERS_DELETE = 'users:delete',
+  SETTINGS_MANAGE = 'settings:manage'
+}
+
+// Permissions granted to each role
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: [
+    Permission.USERS_VIEW,
+    Permission.USERS_CREATE,
+    Permission.USERS_EDIT,
+    Permission.USERS_DELETE,
+    Permission.SETTINGS_MANAGE
+  ],
+  [UserRole.MANAGER]: [
+    Permission.USERS_VIEW,
+    Permission.USERS_CREATE,
+    Permission.USERS_EDIT,
+    Permission.USERS_DELETE,
+    Permission.SETTINGS_MANAGE
+  ],
+  [UserRole.USER]: [
+    Permission.USERS_VIEW,
+    Permission.USERS_CREATE,
+    Permission.USERS_EDIT,
+    Permission.SETTINGS_MANAGE
+  ],
+  [UserRole.VIEWER]: [
+    Permission.USERS_VIEW
+  ]
+};
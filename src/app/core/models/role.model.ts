@@ -0,0 +1,34 @@
+import { UserRole } from './user.model';
+
+export interface RoleDefinition {
+  role: UserRole;
+  label: string;
+  description: string;
+}
+
+// Every role, from the most to the least privileged
+export const ROLE_REGISTRY: readonly RoleDefinition[] = [
+  { role: UserRole.ADMIN, label: 'Admin', description: 'Full access' },
+  { role: UserRole.MANAGER, label: 'Manager', description: 'Manages users, including deleting them' },
+  { role: UserRole.USER, label: 'User', description: 'Adds and edits users' },
+  { role: UserRole.VIEWER, label: 'Viewer', description: 'Read-only access' }
+];
+
+export const USER_ROLES: readonly UserRole[] = ROLE_REGISTRY.map(definition => definition.role);
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export function getRoleLabel(role: UserRole): string {
+  return ROLE_REGISTRY.find(definition => definition.role === role)?.label ?? role;
+}
+
+/**
+ * The role named by its id or label, in any case, e.g. "Admin" or "ADMIN" -> UserRole.ADMIN
+ */
+export function parseRole(name: string): UserRole | undefined {
+  const normalized = name.trim().toLowerCase();
+  return ROLE_REGISTRY.find(definition =>
+    definition.role === normalized || definition.label.toLowerCase() === normalized)?.role;
+}
@@ -1,3 +1,23 @@
+/**
+ * Roles by id. Labels, order and descriptions are in the role registry
+ * (role.model.ts), permissions in ROLE_PERMISSIONS.
+ */
+export enum UserRole {
+  ADMIN = 'admin',
+  MANAGER = 'manager',
+  USER = 'user',
+  VIEWER = 'viewer'
+}
+
+// Email addresses the API accepts
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const USER_STATUSES = ['active', 'inactive', 'pending'] as const;
+export type UserStatus = typeof USER_STATUSES[number];
+
+/**
+ * A person who can sign in - the signed-in user, and the base of DirectoryUser
+ */
 export interface User {
   id: string;
   email: string;
@@ -6,10 +26,13 @@ export interface User {
   avatar?: string;
 }
 
-export enum UserRole {
-  ADMIN = 'admin',
-  USER = 'user',
-  VIEWER = 'viewer'
+/**
+ * A user as the users directory lists and manages them
+ */
+export interface DirectoryUser extends User {
+  status: UserStatus;
+  joinedDate: Date;
+  lastActive?: Date;
 }
 
 export interface Credentials {
@@ -20,4 +43,5 @@ export interface Credentials {
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
 }
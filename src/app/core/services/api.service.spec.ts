@@ -0,0 +1,155 @@
+import { TestBed, discardPeriodicTasks, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ApiService } from './api.service';
+import { APP_CONFIG, DEFAULT_APP_CONFIG } from '../config/app.config';
+import { NotFoundError, QueuedOfflineError, RequestTimeoutError } from '../errors/app-error';
+import { AuthService } from './auth.service';
+import { ConnectivityService } from './connectivity.service';
+import { OFFLINE_QUEUE_STORAGE, OfflineQueueService } from './offline-queue.service';
+import { MemoryStorageBackend } from '../store/testing/memory-storage-backend';
+
+describe('ApiService', () => {
+  let service: ApiService;
+  let httpMock: HttpTestingController;
+  let online: boolean;
+
+  beforeEach(() => {
+    online = true;
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        { provide: APP_CONFIG, useValue: { ...DEFAULT_APP_CONFIG, apiUrl: '/api', apiTimeout: 5000 } },
+        { provide: OFFLINE_QUEUE_STORAGE, useValue: new MemoryStorageBackend() },
+        { provide: ConnectivityService, useValue: { online$: of(true), get isOnline() { return online; } } },
+        // Queued requests are replayed for the user who made them
+        { provide: AuthService, useValue: { isAuthenticated: true, currentUser: { id: '1' } } }
+      ]
+    });
+    service = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should retry idempotent requests on 5xx with backoff', fakeAsync(() => {
+    let result: unknown;
+    service.get('/users').subscribe(r => result = r);
+
+    httpMock.expectOne('/api/users').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    tick(500);
+    httpMock.expectOne('/api/users').flush(null, { status: 502, statusText: 'Bad Gateway' });
+    tick(1000);
+    httpMock.expectOne('/api/users').flush({ ok: true });
+
+    expect(result).toEqual({ ok: true });
+  }));
+
+  it('should not retry client errors', fakeAsync(() => {
+    let error: unknown;
+    service.get('/users').subscribe({ error: e => error = e });
+
+    httpMock.expectOne('/api/users').flush(null, { status: 404, statusText: 'Not Found' });
+    tick(10000);
+
+    httpMock.expectNone('/api/users');
+    expect(error).toEqual(jasmine.any(NotFoundError));
+  }));
+
+  it('should not retry POST unless asked to', fakeAsync(() => {
+    service.post('/users', {}).subscribe({ error: () => undefined });
+
+    httpMock.expectOne('/api/users').flush(null, { status: 500, statusText: 'Server Error' });
+    tick(10000);
+
+    httpMock.expectNone('/api/users');
+  }));
+
+  it('should honor Retry-After', fakeAsync(() => {
+    service.get('/users').subscribe();
+
+    httpMock.expectOne('/api/users').flush(null, {
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: { 'Retry-After': '3' }
+    });
+    tick(2999);
+    httpMock.expectNone('/api/users');
+    tick(1);
+    httpMock.expectOne('/api/users').flush({});
+  }));
+
+  it('should time out using the configured apiTimeout', fakeAsync(() => {
+    let error: unknown;
+    service.get('/users', { retries: 0 }).subscribe({ error: e => error = e });
+
+    const request = httpMock.expectOne('/api/users');
+    tick(5000);
+
+    expect(error).toEqual(jasmine.any(RequestTimeoutError));
+    expect(request.cancelled).toBeTrue();
+  }));
+
+  it('should queue mutating requests made offline', fakeAsync(() => {
+    online = false;
+    let error: unknown;
+    service.post('/users', { name: 'Ann' }, { params: { notify: 'true' }, queueOffline: true }).subscribe({ error: e => error = e });
+    flushMicrotasks();
+
+    let queued: unknown[] = [];
+    TestBed.inject(OfflineQueueService).pending$.subscribe(pending => queued = pending);
+
+    httpMock.expectNone('/api/users');
+    expect(error).toEqual(jasmine.any(QueuedOfflineError));
+    expect(queued).toEqual([jasmine.objectContaining({ method: 'POST', url: '/api/users?notify=true', body: { name: 'Ann' } })]);
+    discardPeriodicTasks();
+  }));
+
+  it('should queue mutating requests that fail to reach the server', fakeAsync(() => {
+    let error: unknown;
+    service.delete('/users/1', { queueOffline: true }).subscribe({ error: e => error = e });
+
+    // DELETE is retried before giving up
+    httpMock.expectOne('/api/users/1').error(new ProgressEvent('error'));
+    tick(10000);
+    httpMock.expectOne('/api/users/1').error(new ProgressEvent('error'));
+    tick(10000);
+    httpMock.expectOne('/api/users/1').error(new ProgressEvent('error'));
+    flushMicrotasks();
+
+    expect(error).toEqual(jasmine.any(QueuedOfflineError));
+    discardPeriodicTasks();
+  }));
+
+  it('should send queued requests after a successful response', fakeAsync(() => {
+    online = false;
+    service.post('/users', { name: 'Ann' }, { queueOffline: true }).subscribe({ error: () => {} });
+    flushMicrotasks();
+
+    online = true;
+    service.get('/users/1').subscribe();
+    httpMock.expectOne('/api/users/1').flush({});
+    flushMicrotasks();
+
+    const replayed = httpMock.expectOne('/api/users');
+    expect(replayed.request.method).toBe('POST');
+    replayed.flush({});
+    flushMicrotasks();
+  }));
+
+  it('should not queue requests that did not opt in', fakeAsync(() => {
+    online = false;
+    let error: unknown;
+    service.post('/auth/login', { email: 'ann@example.com', password: 'secret' }).subscribe({ error: e => error = e });
+    flushMicrotasks();
+
+    let queued: unknown[] = [];
+    TestBed.inject(OfflineQueueService).pending$.subscribe(pending => queued = pending);
+
+    httpMock.expectOne('/api/auth/login').error(new ProgressEvent('error'));
+    expect(error).not.toEqual(jasmine.any(QueuedOfflineError));
+    expect(queued).toEqual([]);
+  }));
+});
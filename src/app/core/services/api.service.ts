@@ -1,39 +1,218 @@
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { APP_CONFIG } from '../config/app.config';
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, TimeoutError, defer, identity, throwError, timer } from 'rxjs';
+import { catchError, mergeMap, retry, tap, timeout } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app.config';
+import { CACHE_OPTIONS, CacheOptions, HttpCacheService } from './http-cache.service';
+import { ConnectivityService } from './connectivity.service';
+import { OfflineQueueService, QueueableMethod } from './offline-queue.service';
+import { NetworkError, QueuedOfflineError, toAppError } from '../errors/app-error';
 
 export interface RequestOptions {
   headers?: HttpHeaders | { [header: string]: string | string[] };
   params?: HttpParams | { [param: string]: string | string[] };
-  responseType?: 'json' | 'text' | 'blob' | 'arraybuffer';
+  responseType?: 'json';
+  context?: HttpContext;
+  /** Per-attempt timeout in ms. Defaults to `AppConfig.apiTimeout`; 0 disables it. */
+  timeout?: number;
+  /** Retry attempts on transient failures. Defaults to 2 for GET/PUT/DELETE, 0 otherwise. */
+  retries?: number;
+  /** Cache a GET response (also settable via the CACHE_OPTIONS HttpContext token) */
+  cache?: CacheOptions;
+  /**
+   * Queue a POST/PUT/PATCH/DELETE made without a connection and send it when it
+   * returns; the caller then gets a QueuedOfflineError. Opt-in: only requests
+   * that are safe to store and replay later should ask for it.
+   */
+  queueOffline?: boolean;
 }
 
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Safe to repeat without side effects, so retried by default
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+const DEFAULT_RETRIES = 2;
+
+// Exponential backoff: 500ms, 1s, 2s, ... capped at 10s
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 10000;
+
 @Injectable({
   providedIn: 'root'
 })
 export class ApiService {
-  private baseUrl = APP_CONFIG.apiUrl;
+  private baseUrl = this.config.apiUrl;
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private cache: HttpCacheService,
+    private connectivity: ConnectivityService,
+    private offlineQueue: OfflineQueueService,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {}
 
   get<T>(url: string, options?: RequestOptions): Observable<T> {
-    return this.http.get<T>(`${this.baseUrl}${url}`, options);
+    const request$ = this.withResilience(this.http.get<T>(`${this.baseUrl}${url}`, this.toHttpOptions(options)), 'GET', options);
+    const cacheOptions = options?.cache ?? options?.context?.get(CACHE_OPTIONS) ?? null;
+
+    if (!cacheOptions) {
+      return request$;
+    }
+
+    return this.cache.fetch(cacheOptions.key ?? this.getCacheKey(url, options), () => request$, cacheOptions);
   }
 
   post<T>(url: string, body: any, options?: RequestOptions): Observable<T> {
-    return this.http.post<T>(`${this.baseUrl}${url}`, body, options);
+    return this.mutate(this.http.post<T>(`${this.baseUrl}${url}`, body, this.toHttpOptions(options)), 'POST', url, body, options);
   }
 
   put<T>(url: string, body: any, options?: RequestOptions): Observable<T> {
-    return this.http.put<T>(`${this.baseUrl}${url}`, body, options);
+    return this.mutate(this.http.put<T>(`${this.baseUrl}${url}`, body, this.toHttpOptions(options)), 'PUT', url, body, options);
   }
 
   patch<T>(url: string, body: any, options?: RequestOptions): Observable<T> {
-    return this.http.patch<T>(`${this.baseUrl}${url}`, body, options);
+    return this.mutate(this.http.patch<T>(`${this.baseUrl}${url}`, body, this.toHttpOptions(options)), 'PATCH', url, body, options);
   }
 
   delete<T>(url: string, options?: RequestOptions): Observable<T> {
-    return this.http.delete<T>(`${this.baseUrl}${url}`, options);
+    return this.mutate(this.http.delete<T>(`${this.baseUrl}${url}`, this.toHttpOptions(options)), 'DELETE', url, null, options);
+  }
+
+  /**
+   * Strip the options HttpClient doesn't know about
+   */
+  private toHttpOptions(options?: RequestOptions): Omit<RequestOptions, 'timeout' | 'retries' | 'cache' | 'queueOffline'> {
+    const { timeout, retries, cache, queueOffline, ...httpOptions } = options ?? {};
+    return httpOptions;
+  }
+
+  private getCacheKey(url: string, options?: RequestOptions): string {
+    return `GET ${this.withQuery(url, options)}`;
+  }
+
+  private withQuery(url: string, options?: RequestOptions): string {
+    const params = options?.params instanceof HttpParams
+      ? options.params
+      : new HttpParams({ fromObject: options?.params ?? {} });
+    const query = params.toString();
+    return `${url}${query ? '?' + query : ''}`;
+  }
+
+  /**
+   * Send a mutating request, or queue it when there is no connection
+   */
+  private mutate<T>(
+    request$: Observable<T>,
+    method: QueueableMethod,
+    url: string,
+    body: unknown,
+    options?: RequestOptions
+  ): Observable<T> {
+    if (!options?.queueOffline) {
+      return this.withResilience(request$, method, options);
+    }
+
+    return defer(() => this.connectivity.isOnline
+      ? this.withResilience(request$, method, options)
+      : throwError(() => new NetworkError('No connection'))
+    ).pipe(
+      catchError(error => error instanceof NetworkError
+        ? this.enqueue<T>(method, url, body, options)
+        : throwError(() => error))
+    );
+  }
+
+  private enqueue<T>(method: QueueableMethod, url: string, body: unknown, options?: RequestOptions): Observable<T> {
+    return defer(() => this.offlineQueue.enqueue({
+      method,
+      url: `${this.baseUrl}${this.withQuery(url, options)}`,
+      body,
+      headers: this.toHeaderRecord(options?.headers)
+    })).pipe(
+      mergeMap(() => throwError(() => new QueuedOfflineError(
+        'You are offline. Your change will be sent when the connection returns.'
+      )))
+    );
+  }
+
+  private toHeaderRecord(headers: RequestOptions['headers']): Record<string, string> {
+    if (!headers) {
+      return {};
+    }
+    if (headers instanceof HttpHeaders) {
+      return Object.fromEntries(headers.keys().map(name => [name, headers.getAll(name)!.join(', ')]));
+    }
+    return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, [value].flat().join(', ')]));
+  }
+
+  /**
+   * Apply the per-attempt timeout and retry transient failures
+   * (network errors, timeouts, 429 and 5xx) with exponential backoff and jitter.
+   * Whatever still fails reaches the caller as an AppError. A success means the
+   * API is reachable, so requests queued while offline are sent.
+   */
+  private withResilience<T>(request$: Observable<T>, method: HttpMethod, options?: RequestOptions): Observable<T> {
+    const timeoutMs = options?.timeout ?? this.config.apiTimeout;
+    const retries = options?.retries ?? (IDEMPOTENT_METHODS.includes(method) ? DEFAULT_RETRIES : 0);
+
+    return request$.pipe(
+      timeoutMs > 0 ? timeout<T>(timeoutMs) : identity,
+      retry({
+        count: retries,
+        delay: (error, attempt) => this.isTransient(error)
+          ? timer(this.getRetryDelay(error, attempt))
+          : throwError(() => error)
+      }),
+      tap(() => this.offlineQueue.replay()),
+      catchError(error => throwError(() => toAppError(error)))
+    );
+  }
+
+  private isTransient(error: unknown): boolean {
+    if (error instanceof TimeoutError) {
+      return true;
+    }
+
+    const response = this.getHttpError(error);
+    if (!response) {
+      return false;
+    }
+
+    // Status 0 means the request never got a response (offline, DNS, CORS...)
+    return response.status === 0 || response.status === 429 || response.status >= 500;
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number {
+    const retryAfter = this.parseRetryAfter(this.getHttpError(error)?.headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    // "Equal jitter": half the backoff is fixed, the other half random
+    const backoff = Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(seconds * 1000, 0);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+  }
+
+  private getHttpError(error: unknown): HttpErrorResponse | null {
+    // ErrorInterceptor maps HTTP failures to AppErrors, keeping the response as the cause
+    const cause = error instanceof Error ? error.cause : error;
+    return cause instanceof HttpErrorResponse ? cause : null;
   }
 }
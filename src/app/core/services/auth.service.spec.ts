@@ -1,18 +1,36 @@
 import { TestBed } from '@angular/core/testing';
+import { HTTP_INTERCEPTORS, HttpClientModule } from '@angular/common/http';
+import { Router } from '@angular/router';
 import { AuthService } from './auth.service';
-import { of } from 'rxjs';
+import { UnauthorizedError, ValidationError } from '../errors/app-error';
+import { ErrorInterceptor } from '../interceptors/error.interceptor';
+import { MockAuthBackendInterceptor } from '../interceptors/mock-auth-backend.interceptor';
 
 describe('AuthService', () => {
   let service: AuthService;
+  let router: jasmine.SpyObj<Router>;
+
+  const credentials = {
+    email: 'admin@enterprise.com',
+    password: 'demo'
+  };
 
   beforeEach(() => {
+    // Clear localStorage before each test
+    localStorage.clear();
+
+    router = jasmine.createSpyObj('Router', ['navigate'], { url: '/users' });
+
     TestBed.configureTestingModule({
-      providers: [AuthService]
+      imports: [HttpClientModule],
+      providers: [
+        AuthService,
+        { provide: HTTP_INTERCEPTORS, useClass: ErrorInterceptor, multi: true },
+        { provide: HTTP_INTERCEPTORS, useClass: MockAuthBackendInterceptor, multi: true },
+        { provide: Router, useValue: router }
+      ]
     });
     service = TestBed.inject(AuthService);
-    
-    // Clear localStorage before each test
-    localStorage.clear();
   });
 
   afterEach(() => {
@@ -28,11 +46,6 @@ describe('AuthService', () => {
   });
 
   it('should authenticate user on login', (done) => {
-    const credentials = {
-      email: 'test@example.com',
-      password: 'password'
-    };
-
     service.login(credentials).subscribe(response => {
       expect(response.user).toBeDefined();
       expect(response.token).toBeDefined();
@@ -43,11 +56,6 @@ describe('AuthService', () => {
   });
 
   it('should set authentication token in localStorage', (done) => {
-    const credentials = {
-      email: 'test@example.com',
-      password: 'password'
-    };
-
     service.login(credentials).subscribe(() => {
       const token = localStorage.getItem('auth_token');
       expect(token).toBeTruthy();
@@ -55,12 +63,30 @@ describe('AuthService', () => {
     });
   });
 
-  it('should clear authentication on logout', (done) => {
-    const credentials = {
-      email: 'test@example.com',
-      password: 'password'
-    };
+  it('should surface a 401 for wrong credentials', (done) => {
+    service.login({ ...credentials, password: 'wrong' }).subscribe({
+      error: (error: UnauthorizedError) => {
+        expect(error).toEqual(jasmine.any(UnauthorizedError));
+        expect(error.status).toBe(401);
+        expect(service.isAuthenticated).toBeFalsy();
+        done();
+      }
+    });
+  });
 
+  it('should surface field validation errors', (done) => {
+    service.login({ email: 'not-an-email', password: '' }).subscribe({
+      error: (error: ValidationError) => {
+        expect(error).toEqual(jasmine.any(ValidationError));
+        expect(error.status).toBe(422);
+        expect(error.fieldErrors['email']).toBeDefined();
+        expect(error.fieldErrors['password']).toBeDefined();
+        done();
+      }
+    });
+  });
+
+  it('should clear authentication on logout', (done) => {
     service.login(credentials).subscribe(() => {
       service.logout().subscribe(() => {
         expect(service.isAuthenticated).toBeFalsy();
@@ -70,4 +96,55 @@ describe('AuthService', () => {
       });
     });
   });
+
+  it('should expose the token expiry after login', (done) => {
+    service.login(credentials).subscribe(() => {
+      service.tokenExpiresAt$.subscribe(expiresAt => {
+        expect(expiresAt).toEqual(jasmine.any(Date));
+        expect(expiresAt!.getTime()).toBeGreaterThan(Date.now());
+        done();
+      });
+    });
+  });
+
+  it('should share a single refresh between concurrent callers', (done) => {
+    service.login(credentials).subscribe(() => {
+      const first = service.refreshToken();
+      const second = service.refreshToken();
+      expect(second).toBe(first);
+
+      first.subscribe(token => {
+        expect(token).toBe(localStorage.getItem('auth_token')!);
+        expect(service.isAuthenticated).toBeTruthy();
+        done();
+      });
+    });
+  });
+
+  it('should log out and redirect to login when the refresh fails', (done) => {
+    service.login(credentials).subscribe(() => {
+      localStorage.setItem('refresh_token', 'invalid');
+
+      service.refreshToken().subscribe({
+        error: () => {
+          expect(service.isAuthenticated).toBeFalsy();
+          expect(localStorage.getItem('auth_token')).toBeNull();
+          expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/users' } });
+          done();
+        }
+      });
+    });
+  });
+
+  it('should follow a logout made in another tab', (done) => {
+    service.login(credentials).subscribe(() => {
+      // Simulate the other tab clearing the session
+      localStorage.clear();
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth_token', storageArea: localStorage }));
+
+      expect(service.isAuthenticated).toBeFalsy();
+      expect(router.navigate).toHaveBeenCalledWith(['/login']);
+      done();
+    });
+  });
 });
@@ -1,16 +1,23 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
-import { delay, tap } from 'rxjs/operators';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, Subscription, of, throwError, timer } from 'rxjs';
+import { catchError, delay, finalize, map, shareReplay, switchMap, tap } from 'rxjs/operators';
 import { User, Credentials, AuthResponse, UserRole } from '../models/user.model';
+import { Permission, ROLE_PERMISSIONS } from '../models/permission.model';
+import { ApiResponse } from '../models/common.model';
+import { ApiService } from './api.service';
+import { StorageSyncService } from './storage-sync.service';
+import { HttpCacheService } from './http-cache.service';
+import { getTokenExpiry } from '../utils/jwt.util';
+import { toAuthResponse, toUser } from '../adapters/user.adapter';
+import { UnauthorizedError, toAppError } from '../errors/app-error';
 
-// Mock user data
-const MOCK_USER: User = {
-  id: '1',
-  email: 'admin@enterprise.com',
-  name: 'Admin User',
-  role: UserRole.ADMIN,
-  avatar: 'https://ui-avatars.com/api/?name=Admin+User&background=4F46E5&color=fff'
-};
+const AUTH_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const CURRENT_USER_KEY = 'current_user';
+
+// Refresh the access token this long before it expires
+const REFRESH_LEAD_TIME = 60 * 1000;
 
 @Injectable({
   providedIn: 'root'
@@ -22,9 +29,24 @@ export class AuthService {
   private isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
   public isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
 
-  constructor() {
+  // Expiry of the current access token (null when signed out)
+  private tokenExpiresAtSubject = new BehaviorSubject<Date | null>(null);
+  public tokenExpiresAt$ = this.tokenExpiresAtSubject.asObservable();
+
+  private refreshTimer?: Subscription;
+  private refreshInFlight$: Observable<string> | null = null;
+
+  constructor(
+    private api: ApiService,
+    private router: Router,
+    private storageSync: StorageSyncService,
+    private cache: HttpCacheService
+  ) {
     // Check if user is already logged in (from localStorage)
     this.loadStoredUser();
+
+    // Follow logins, token refreshes and logouts made in other tabs
+    this.storageSync.changes(AUTH_TOKEN_KEY, CURRENT_USER_KEY).subscribe(() => this.onStorageChanged());
   }
 
   get currentUser(): User | null {
@@ -36,53 +58,165 @@ export class AuthService {
   }
 
   login(credentials: Credentials): Observable<AuthResponse> {
-    // Mock authentication - accept any credentials
-    return of({
-      user: MOCK_USER,
-      token: 'mock-jwt-token-' + Date.now()
-    }).pipe(
-      delay(800), // Simulate network delay
-      tap(response => {
-        this.setCurrentUser(response.user);
-        localStorage.setItem('auth_token', response.token);
-        localStorage.setItem('current_user', JSON.stringify(response.user));
-      })
+    return this.api.post<ApiResponse<unknown>>('/auth/login', credentials).pipe(
+      map(response => toAuthResponse(response.data)),
+      tap(response => this.startSession(response)),
+      // 401 (UnauthorizedError) for bad credentials, ValidationError with field errors for bad input
+      catchError(error => throwError(() => toAppError(error)))
     );
   }
 
   logout(): Observable<void> {
     return of(void 0).pipe(
       delay(300),
-      tap(() => {
-        this.currentUserSubject.next(null);
-        this.isAuthenticatedSubject.next(false);
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('current_user');
-      })
+      tap(() => this.clearSession())
     );
   }
 
+  /**
+   * Exchange the refresh token for a new access token.
+   * Concurrent callers share a single refresh request; if it fails the
+   * session is cleared and the user is sent back to the login page.
+   */
+  refreshToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      this.expireSession();
+      return throwError(() => new UnauthorizedError('Your session has expired'));
+    }
+
+    this.refreshInFlight$ = this.api.post<ApiResponse<unknown>>('/auth/refresh', { refreshToken }).pipe(
+      map(response => toAuthResponse(response.data)),
+      tap(response => this.startSession(response)),
+      map(response => response.token),
+      catchError(() => {
+        this.expireSession();
+        return throwError(() => new UnauthorizedError('Your session has expired'));
+      }),
+      finalize(() => this.refreshInFlight$ = null),
+      shareReplay(1)
+    );
+
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * The refresh currently in progress, if any.
+   * Lets callers wait for the new token instead of sending a stale one.
+   */
+  pendingRefresh(): Observable<string> | null {
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Whether the current user has one of the given roles
+   */
+  hasRole(roles: UserRole | UserRole[]): boolean {
+    const user = this.currentUser;
+    const allowed = Array.isArray(roles) ? roles : [roles];
+    return !!user && allowed.includes(user.role);
+  }
+
+  /**
+   * Whether the current user's role grants the given permission
+   */
+  hasPermission(permission: Permission): boolean {
+    const user = this.currentUser;
+    return !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+  }
+
   setCurrentUser(user: User | null): void {
     this.currentUserSubject.next(user);
     this.isAuthenticatedSubject.next(!!user);
   }
 
+  private startSession(response: AuthResponse): void {
+    localStorage.setItem(AUTH_TOKEN_KEY, response.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(response.user));
+    this.setCurrentUser(response.user);
+    this.trackExpiry(response.token);
+  }
+
+  private clearSession(): void {
+    this.resetSessionState();
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(CURRENT_USER_KEY);
+  }
+
+  private resetSessionState(): void {
+    // Cached responses belong to the user who requested them
+    this.cache.clear();
+    this.refreshTimer?.unsubscribe();
+    this.tokenExpiresAtSubject.next(null);
+    this.setCurrentUser(null);
+  }
+
+  private expireSession(): void {
+    const returnUrl = this.router.url;
+    this.clearSession();
+    this.router.navigate(['/login'], {
+      queryParams: returnUrl && !returnUrl.startsWith('/login') ? { returnUrl } : {}
+    });
+  }
+
+  private trackExpiry(token: string): void {
+    const expiresAt = getTokenExpiry(token);
+    this.tokenExpiresAtSubject.next(expiresAt);
+    this.refreshTimer?.unsubscribe();
+
+    if (!expiresAt) {
+      return;
+    }
+
+    // Proactively refresh shortly before the token expires
+    const refreshIn = Math.max(expiresAt.getTime() - Date.now() - REFRESH_LEAD_TIME, 0);
+    this.refreshTimer = timer(refreshIn).pipe(
+      switchMap(() => this.refreshToken())
+    ).subscribe({
+      // Failures are handled inside refreshToken()
+      error: () => undefined
+    });
+  }
+
   private loadStoredUser(): void {
-    const storedUser = localStorage.getItem('current_user');
-    const token = localStorage.getItem('auth_token');
+    const storedUser = localStorage.getItem(CURRENT_USER_KEY);
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
 
     if (storedUser && token) {
       try {
-        const user = JSON.parse(storedUser);
+        // Checked like a response, as it may have been stored by an older version
+        const user = toUser(JSON.parse(storedUser), 'stored user');
+        if (!getTokenExpiry(token)) {
+          throw new Error('Stored token is not a valid JWT');
+        }
         this.setCurrentUser(user);
+        // An already expired token is refreshed immediately
+        this.trackExpiry(token);
       } catch (e) {
-        console.error('Failed to parse stored user', e);
-        this.logout();
+        console.error('Failed to restore stored session', e);
+        this.clearSession();
       }
     }
   }
 
+  private onStorageChanged(): void {
+    if (localStorage.getItem(AUTH_TOKEN_KEY) && localStorage.getItem(CURRENT_USER_KEY)) {
+      // Signed in or refreshed elsewhere - adopt the new token and its expiry
+      this.loadStoredUser();
+    } else if (this.isAuthenticated) {
+      // Signed out elsewhere - storage is already cleared, only reset local state
+      this.resetSessionState();
+      this.router.navigate(['/login']);
+    }
+  }
+
   getAuthToken(): string | null {
-    return localStorage.getItem('auth_token');
+    return localStorage.getItem(AUTH_TOKEN_KEY);
   }
 }
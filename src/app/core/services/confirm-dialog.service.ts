@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+export interface ConfirmDialog {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  cancelLabel: string;
+}
+
+export type ConfirmDialogOptions = Pick<ConfirmDialog, 'message'> & Partial<ConfirmDialog>;
+
+/**
+ * ConfirmDialogService - Asks the user to confirm an action
+ *
+ * `confirm` opens a dialog and emits whether the user confirmed. The confirm
+ * dialog in the layout shell renders `dialog$`. One dialog is open at a time:
+ * opening another cancels the previous one, and unsubscribing closes it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConfirmDialogService {
+  private dialogSubject = new BehaviorSubject<ConfirmDialog | null>(null);
+  public dialog$ = this.dialogSubject.asObservable();
+
+  private answer: ((confirmed: boolean) => void) | null = null;
+
+  confirm(options: ConfirmDialogOptions): Observable<boolean> {
+    return new Observable<boolean>(subscriber => {
+      this.respond(false);
+
+      const answer = (confirmed: boolean) => {
+        subscriber.next(confirmed);
+        subscriber.complete();
+      };
+      this.answer = answer;
+      this.dialogSubject.next({ title: 'Are you sure?', confirmLabel: 'OK', cancelLabel: 'Cancel', ...options });
+
+      return () => {
+        if (this.answer === answer) {
+          this.answer = null;
+          this.dialogSubject.next(null);
+        }
+      };
+    });
+  }
+
+  /**
+   * Close the open dialog with the user's answer
+   */
+  respond(confirmed: boolean): void {
+    const answer = this.answer;
+    if (!answer) {
+      return;
+    }
+
+    this.answer = null;
+    this.dialogSubject.next(null);
+    answer(confirmed);
+  }
+}
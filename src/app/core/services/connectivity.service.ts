@@ -0,0 +1,28 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, fromEvent, merge } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+
+/**
+ * ConnectivityService - Whether the browser currently has a network connection
+ *
+ * Based on `navigator.onLine` and the window online/offline events. "Online"
+ * only means a network is available, not that the API is reachable.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private onlineSubject = new BehaviorSubject<boolean>(navigator.onLine);
+  public online$ = this.onlineSubject.pipe(distinctUntilChanged());
+
+  constructor() {
+    merge(
+      fromEvent(window, 'online').pipe(map(() => true)),
+      fromEvent(window, 'offline').pipe(map(() => false))
+    ).subscribe(online => this.onlineSubject.next(online));
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+}
@@ -0,0 +1,82 @@
+import { TestBed } from '@angular/core/testing';
+import { AppEventOf, EventBusService, matchesEventPattern } from './event-bus.service';
+import { LoggerService } from './logger.service';
+
+declare module './event-bus.service' {
+  interface AppEventMap {
+    'test:created': { id: string };
+    'test:removed': { id: string };
+    'other:ping': number;
+  }
+}
+
+describe('EventBusService', () => {
+  let service: EventBusService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(EventBusService);
+  });
+
+  it('should deliver events of the subscribed type only', () => {
+    const received: string[] = [];
+    service.on('test:created').subscribe(event => received.push(event.payload.id));
+
+    service.emit('test:created', { id: '1' });
+    service.emit('test:removed', { id: '2' });
+
+    expect(received).toEqual(['1']);
+  });
+
+  it('should deliver a whole namespace to wildcard subscribers', () => {
+    const received: string[] = [];
+    service.on('test:*').subscribe(event => received.push(event.type));
+
+    service.emit('test:created', { id: '1' });
+    service.emit('other:ping', 1);
+    service.emit('test:removed', { id: '1' });
+
+    expect(received).toEqual(['test:created', 'test:removed']);
+  });
+
+  it('should replay the latest event of each matching type', () => {
+    service.emit('test:created', { id: '1' });
+    service.emit('test:created', { id: '2' });
+    service.emit('other:ping', 1);
+    service.emit('test:removed', { id: '3' });
+
+    const received: AppEventOf[] = [];
+    service.on('test:*', { replay: true }).subscribe(event => received.push(event));
+    service.emit('test:created', { id: '4' });
+
+    expect(received.map(event => event.payload)).toEqual([{ id: '2' }, { id: '3' }, { id: '4' }]);
+  });
+
+  it('should not replay without the option', () => {
+    service.emit('test:created', { id: '1' });
+
+    const received: AppEventOf[] = [];
+    service.on('test:created').subscribe(event => received.push(event));
+
+    expect(received).toEqual([]);
+  });
+
+  it('should log events in development', () => {
+    const logger = TestBed.inject(LoggerService);
+    spyOn(logger, 'debug');
+
+    // A fresh instance picks up the spied logger
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [{ provide: LoggerService, useValue: logger }] });
+    TestBed.inject(EventBusService).emit('other:ping', 42);
+
+    expect(logger.debug).toHaveBeenCalledWith('[EventBus] other:ping', 42);
+  });
+
+  it('should match patterns', () => {
+    expect(matchesEventPattern('*', 'users:deleted')).toBeTrue();
+    expect(matchesEventPattern('users:*', 'users:deleted')).toBeTrue();
+    expect(matchesEventPattern('users:*', 'usersx:deleted')).toBeFalse();
+    expect(matchesEventPattern('users:deleted', 'users:updated')).toBeFalse();
+  });
+});
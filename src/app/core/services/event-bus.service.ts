@@ -1,50 +1,126 @@
-import { Injectable } from '@angular/core';
-import { Subject, Observable } from 'rxjs';
+import { Inject, Injectable } from '@angular/core';
+import { Subject, Observable, concat, defer, from } from 'rxjs';
 import { filter } from 'rxjs/operators';
 import { AppEvent } from '../models/common.model';
+import { NotificationOptions } from '../models/notification.model';
+import { APP_CONFIG, AppConfig } from '../config/app.config';
+import { LoggerService } from './logger.service';
+
+/**
+ * Event names and their payload types
+ *
+ * Features register their own events through declaration merging, so that
+ * emitting an event with the wrong payload is a compile error:
+ *
+ *   declare module '@core/services/event-bus.service' {
+ *     interface AppEventMap {
+ *       'users:deleted': { id: string };
+ *     }
+ *   }
+ *
+ * Names are `namespace:event`, which lets subscribers listen to a whole
+ * namespace with `on('users:*')`.
+ */
+export interface AppEventMap {
+  'app:notification': NotificationOptions;
+}
+
+export type AppEventType = keyof AppEventMap & string;
+
+/**
+ * An exact event name, a namespace wildcard (`users:*`) or every event (`*`)
+ */
+export type AppEventPattern = AppEventType | `${string}:*` | '*';
+
+/**
+ * Union of the events for the given names, discriminated by `type`
+ */
+export type AppEventOf<K extends AppEventType = AppEventType> = {
+  [P in K]: AppEvent<AppEventMap[P], P>;
+}[K];
+
+type NamespaceEvents<NS extends string> = Extract<AppEventType, `${NS}:${string}`>;
+
+export interface EventSubscribeOptions {
+  /** Start with the latest event of each matching type emitted before subscribing */
+  replay?: boolean;
+}
 
 /**
  * EventBusService - Decoupled cross-module communication
  * 
  * Enables features to communicate without direct dependencies.
  * Features emit events, other features subscribe to specific event types.
+ * In development builds every event is logged (the "event inspector").
  */
 @Injectable({
   providedIn: 'root'
 })
 export class EventBusService {
-  private eventSubject = new Subject<AppEvent>();
+  private eventSubject = new Subject<AppEventOf>();
   public events$ = this.eventSubject.asObservable();
 
-  constructor() {}
+  // Latest event per type, in emission order, for `replay`
+  private lastEvents = new Map<string, AppEventOf>();
+
+  constructor(
+    private logger: LoggerService,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {
+    if (this.config.environment === 'development') {
+      this.events$.subscribe(event => this.logger.debug(`[EventBus] ${event.type}`, event.payload));
+    }
+  }
 
   /**
    * Emit an event to all subscribers
    */
-  emit<T = any>(type: string, payload?: T): void {
-    const event: AppEvent<T> = {
+  emit<K extends AppEventType>(type: K, payload: AppEventMap[K]): void {
+    // TypeScript can't relate a generic K to the union; the signature already checked the payload
+    const event = {
       type,
       payload,
       timestamp: Date.now()
-    };
+    } as AppEventOf;
+
+    this.lastEvents.delete(type);
+    this.lastEvents.set(type, event);
     this.eventSubject.next(event);
   }
 
   /**
-   * Listen to specific event types
+   * Listen to one event type, a namespace (`users:*`) or everything (`*`)
    */
-  on<T = any>(eventType: string): Observable<AppEvent<T>> {
-    return this.events$.pipe(
-      filter(event => event.type === eventType)
+  on<K extends AppEventType>(eventType: K, options?: EventSubscribeOptions): Observable<AppEvent<AppEventMap[K], K>>;
+  on<NS extends string>(pattern: `${NS}:*`, options?: EventSubscribeOptions): Observable<AppEventOf<NamespaceEvents<NS>>>;
+  on(pattern: AppEventPattern, options?: EventSubscribeOptions): Observable<AppEventOf>;
+  on(pattern: AppEventPattern, options: EventSubscribeOptions = {}): Observable<AppEventOf> {
+    const live$ = this.events$.pipe(
+      filter(event => matchesEventPattern(pattern, event.type))
     );
+
+    if (!options.replay) {
+      return live$;
+    }
+
+    return defer(() => concat(
+      from([...this.lastEvents.values()].filter(event => matchesEventPattern(pattern, event.type))),
+      live$
+    ));
+  }
+}
+
+export function matchesEventPattern(pattern: string, type: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith(':*')) {
+    return type.startsWith(pattern.slice(0, -1));
   }
+  return pattern === type;
 }
 
-// Event type constants for type safety
+// Event type constants for type safety. Feature events are declared by their feature.
 export const EventTypes = {
-  USER_SELECTED: 'USER_SELECTED',
-  USER_UPDATED: 'USER_UPDATED',
-  USER_DELETED: 'USER_DELETED',
-  SETTINGS_CHANGED: 'SETTINGS_CHANGED',
-  NOTIFICATION: 'NOTIFICATION'
+  NOTIFICATION: 'app:notification'
 } as const;
@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+import { ExportService } from './export.service';
+import { StateService } from './state.service';
+import { ExportRequest } from '../models/export.model';
+import { readXlsx } from '../utils/xlsx.util';
+
+interface Row {
+  name: string;
+  visits: number;
+  joined: Date;
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let stateService: StateService;
+
+  const request: ExportRequest<Row> = {
+    format: 'csv',
+    fileName: 'users',
+    title: 'Users',
+    columns: [
+      { key: 'name', header: 'Name', value: row => row.name },
+      { key: 'visits', header: 'Visits', type: 'number', value: row => row.visits },
+      { key: 'joined', header: 'Joined', type: 'date', value: row => row.joined }
+    ],
+    rows: [
+      { name: 'Smith, "Jo"', visits: 1234, joined: new Date('2024-03-01T02:30:00Z') }
+    ]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ExportService);
+    stateService = TestBed.inject(StateService);
+    stateService.setLocale({ language: 'en', timezone: 'UTC' });
+  });
+
+  it('should escape CSV fields and keep numbers unformatted', () => {
+    expect(service.toCsv(request)).toBe(
+      'Name,Visits,Joined\r\n' +
+      '"Smith, ""Jo""",1234,"Mar 1, 2024"'
+    );
+  });
+
+  it('should escape formulas in CSV text but not negative numbers', () => {
+    const rows = [{ ...request.rows[0], name: '=cmd()', visits: -5 }];
+
+    expect(service.toCsv({ ...request, rows })).toContain(`'=cmd(),-5,`);
+  });
+
+  it('should format dates in the timezone and language of the settings', () => {
+    stateService.setLocale({ language: 'de', timezone: 'America/New_York' });
+    const columns = request.columns.map(column => column.key === 'joined' ? { ...column, type: 'datetime' as const } : column);
+
+    // 02:30 UTC is the evening before in New York
+    expect(service.toCsv({ ...request, columns })).toContain('"29.02.2024, 21:30"');
+  });
+
+  it('should fall back to UTC for an unknown timezone', () => {
+    stateService.setLocale({ language: 'en', timezone: 'Not/AZone' });
+
+    expect(service.toCsv(request)).toContain('"Mar 1, 2024"');
+  });
+
+  it('should write JSON objects keyed by column with ISO dates', () => {
+    expect(JSON.parse(service.toJson(request))).toEqual([
+      { name: 'Smith, "Jo"', visits: 1234, joined: '2024-03-01T02:30:00.000Z' }
+    ]);
+  });
+
+  it('should write XLSX with numeric cells', async () => {
+    const rows = await readXlsx(service.toXlsx(request).buffer);
+
+    expect(rows).toEqual([
+      ['Name', 'Visits', 'Joined'],
+      ['Smith, "Jo"', '1234', 'Mar 1, 2024']
+    ]);
+  });
+
+  it('should escape values in the printable document', () => {
+    const html = service.toPrintableHtml({ ...request, rows: [{ ...request.rows[0], name: '<b>Jo</b>' }] });
+
+    expect(html).toContain('<h1>Users</h1>');
+    expect(html).toContain('<td>&lt;b&gt;Jo&lt;/b&gt;</td>');
+    expect(html).toContain('<td class="number">1,234</td>');
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable } from '@angular/core';
+import { StateService } from './state.service';
+import { LoggerService } from './logger.service';
+import { LocaleSettings } from '../store/app.state';
+import { ExportColumn, ExportColumnType, ExportRequest, ExportValue } from '../models/export.model';
+import { toCsv } from '../utils/csv.util';
+import { XlsxCell, writeXlsx } from '../utils/xlsx.util';
+import { downloadFile } from '../utils/download.util';
+
+const MIME_TYPES = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+const PRINT_STYLES = `
+  body { font: 12px/1.4 system-ui, sans-serif; color: #111827; margin: 0; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  p { margin: 0 0 16px; color: #6B7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 8px; border-bottom: 1px solid #E5E7EB; text-align: left; vertical-align: top; }
+  th { background: #F9FAFB; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  .number { text-align: right; }
+`;
+
+/**
+ * ExportService - Downloads tabular data as CSV, XLSX, JSON or PDF
+ *
+ * Callers describe the data with typed columns. Dates are formatted in the
+ * timezone and language chosen in the settings, except in JSON where they
+ * stay ISO 8601 timestamps. "PDF" opens the browser's print dialog on a
+ * formatted table, from which it can be saved as a PDF.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+
+  constructor(
+    private stateService: StateService,
+    private logger: LoggerService
+  ) {}
+
+  export<T>(request: ExportRequest<T>): void {
+    switch (request.format) {
+      case 'csv':
+        // The BOM makes Excel read the file as UTF-8
+        downloadFile('\uFEFF' + this.toCsv(request), `${request.fileName}.csv`, MIME_TYPES.csv);
+        break;
+      case 'xlsx':
+        downloadFile(this.toXlsx(request), `${request.fileName}.xlsx`, MIME_TYPES.xlsx);
+        break;
+      case 'json':
+        downloadFile(this.toJson(request), `${request.fileName}.json`, MIME_TYPES.json);
+        break;
+      case 'pdf':
+        this.print(this.toPrintableHtml(request));
+        break;
+    }
+  }
+
+  /**
+   * RFC 4180 CSV with a header row
+   */
+  toCsv<T>({ columns, rows }: ExportRequest<T>): string {
+    const format = this.createFormatter();
+    return toCsv([
+      columns.map(column => column.header),
+      // Numbers are passed as is, so negative values aren't escaped as formulas
+      ...rows.map(row => columns.map(column => {
+        const value = column.value(row);
+        return typeof value === 'number' ? value : format(value, column.type, false);
+      }))
+    ]);
+  }
+
+  toXlsx<T>({ columns, rows, title }: ExportRequest<T>): Uint8Array {
+    const format = this.createFormatter();
+    const cells = (row: T): XlsxCell[] => columns.map(column => {
+      const value = column.value(row);
+      return typeof value === 'number' || typeof value === 'boolean' ? value : format(value, column.type, false);
+    });
+    return writeXlsx([columns.map(column => column.header), ...rows.map(cells)], title);
+  }
+
+  /**
+   * An array with one object per row, keyed by column key
+   */
+  toJson<T>({ columns, rows }: ExportRequest<T>): string {
+    const toJsonValue = (value: ExportValue) => value instanceof Date ? value.toISOString() : value ?? null;
+    return JSON.stringify(
+      rows.map(row => Object.fromEntries(columns.map(column => [column.key, toJsonValue(column.value(row))]))),
+      null,
+      2
+    );
+  }
+
+  toPrintableHtml<T>({ columns, rows, title, fileName }: ExportRequest<T>): string {
+    const format = this.createFormatter();
+    const { language } = this.stateService.getLocale();
+    const cellClass = (column: ExportColumn<T>) => column.type === 'number' ? ' class="number"' : '';
+
+    const header = columns.map(column => `<th${cellClass(column)}>${escapeHtml(column.header)}</th>`).join('');
+    const body = rows.map(row => '<tr>' + columns.map(column =>
+      `<td${cellClass(column)}>${escapeHtml(format(column.value(row), column.type, true))}</td>`
+    ).join('') + '</tr>').join('');
+
+    return `<!DOCTYPE html><html lang="${escapeHtml(language)}"><head><meta charset="utf-8">` +
+      `<title>${escapeHtml(fileName)}</title><style>${PRINT_STYLES}</style></head><body>` +
+      `<h1>${escapeHtml(title)}</h1>` +
+      `<p>${rows.length} rows, exported ${escapeHtml(format(new Date(), 'datetime', true))}</p>` +
+      `<table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>` +
+      '</body></html>';
+  }
+
+  /**
+   * Text of a value for its column type. Numbers are only grouped (e.g. 1,234) for display,
+   * so that spreadsheets still read them as numbers.
+   */
+  private createFormatter(): (value: ExportValue, type: ExportColumnType | undefined, forDisplay: boolean) => string {
+    const locale = this.stateService.getLocale();
+    const dateFormat = this.createDateFormat(locale, { dateStyle: 'medium' });
+    const dateTimeFormat = this.createDateFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+    const numberFormat = new Intl.NumberFormat(dateFormat.resolvedOptions().locale);
+
+    return (value, type, forDisplay) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) {
+          return '';
+        }
+        return (type === 'date' ? dateFormat : dateTimeFormat).format(value);
+      }
+      if (typeof value === 'number' && forDisplay) {
+        return numberFormat.format(value);
+      }
+      return String(value);
+    };
+  }
+
+  private createDateFormat(locale: LocaleSettings, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+    try {
+      return new Intl.DateTimeFormat(locale.language, { ...options, timeZone: locale.timezone });
+    } catch (error) {
+      // An unknown language or timezone (e.g. from an older browser) falls back to English in UTC
+      this.logger.warn('Unsupported locale settings for exports', locale, error);
+      return new Intl.DateTimeFormat('en', { ...options, timeZone: 'UTC' });
+    }
+  }
+
+  /**
+   * Print an HTML document from a hidden frame, so the page itself isn't printed
+   */
+  private print(html: string): void {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.srcdoc = html;
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        return;
+      }
+      frameWindow.onafterprint = () => frame.remove();
+      frameWindow.focus();
+      frameWindow.print();
+    };
+    document.body.appendChild(frame);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
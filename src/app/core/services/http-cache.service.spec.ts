@@ -0,0 +1,88 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Observable, defer, of } from 'rxjs';
+import { delay } from 'rxjs/operators';
+import { HttpCacheService } from './http-cache.service';
+import { EventBusService } from './event-bus.service';
+
+declare module './event-bus.service' {
+  interface AppEventMap {
+    'cache-test:changed': { id: string };
+  }
+}
+
+describe('HttpCacheService', () => {
+  let service: HttpCacheService;
+  let eventBus: EventBusService;
+  let calls: number;
+
+  // Each subscription counts as one trip to the "server"
+  const source = (): Observable<number> => defer(() => of(++calls).pipe(delay(100)));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(HttpCacheService);
+    eventBus = TestBed.inject(EventBusService);
+    calls = 0;
+  });
+
+  it('should serve fresh entries from memory', fakeAsync(() => {
+    const results: number[] = [];
+    service.fetch('k', source, { ttl: 1000 }).subscribe(v => results.push(v));
+    tick(100);
+    service.fetch('k', source, { ttl: 1000 }).subscribe(v => results.push(v));
+
+    expect(results).toEqual([1, 1]);
+    expect(calls).toBe(1);
+  }));
+
+  it('should share identical in-flight requests', fakeAsync(() => {
+    const results: number[] = [];
+    service.fetch('k', source, { ttl: 1000 }).subscribe(v => results.push(v));
+    service.fetch('k', source, { ttl: 1000 }).subscribe(v => results.push(v));
+    tick(100);
+
+    expect(results).toEqual([1, 1]);
+    expect(calls).toBe(1);
+  }));
+
+  it('should go back to the source once the ttl has passed', fakeAsync(() => {
+    service.fetch('k', source, { ttl: 1000 }).subscribe();
+    tick(1100);
+
+    let result: number | undefined;
+    service.fetch('k', source, { ttl: 1000 }).subscribe(v => result = v);
+    tick(100);
+
+    expect(result).toBe(2);
+  }));
+
+  it('should serve stale values while revalidating in the background', fakeAsync(() => {
+    const options = { ttl: 1000, staleWhileRevalidate: 5000 };
+    service.fetch('k', source, options).subscribe();
+    tick(1100);
+
+    let stale: number | undefined;
+    service.fetch('k', source, options).subscribe(v => stale = v);
+    expect(stale).toBe(1);
+
+    tick(100);
+    let fresh: number | undefined;
+    service.fetch('k', source, options).subscribe(v => fresh = v);
+    expect(fresh).toBe(2);
+  }));
+
+  it('should evict tagged entries when a mapped event is emitted', fakeAsync(() => {
+    service.invalidateTagsOn(['cache-test:*'], ['users']);
+    service.fetch('users', source, { ttl: 60000, tags: ['users'] }).subscribe();
+    service.fetch('other', source, { ttl: 60000, tags: ['analytics'] }).subscribe();
+    tick(100);
+
+    eventBus.emit('cache-test:changed', { id: '1' });
+
+    service.fetch('users', source, { ttl: 60000, tags: ['users'] }).subscribe();
+    service.fetch('other', source, { ttl: 60000, tags: ['analytics'] }).subscribe();
+    tick(100);
+
+    expect(calls).toBe(3);
+  }));
+});
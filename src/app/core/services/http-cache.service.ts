@@ -0,0 +1,147 @@
+import { Injectable } from '@angular/core';
+import { HttpContextToken } from '@angular/common/http';
+import { Observable, Subscription, merge, of } from 'rxjs';
+import { finalize, share, tap } from 'rxjs/operators';
+import { AppEventPattern, EventBusService } from './event-bus.service';
+
+export interface CacheOptions {
+  /** How long (ms) a response is served without going back to the source */
+  ttl: number;
+  /** Labels used to evict related entries together, e.g. ['users'] */
+  tags?: string[];
+  /** Extra time (ms) an expired response may still be served while it is refreshed in the background */
+  staleWhileRevalidate?: number;
+  /** Overrides the default key (method + URL + params) */
+  key?: string;
+}
+
+/**
+ * Opt a request into caching through its HttpContext instead of RequestOptions.cache
+ */
+export const CACHE_OPTIONS = new HttpContextToken<CacheOptions | null>(() => null);
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  tags: string[];
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * HttpCacheService - In-memory response cache with TTL and tag invalidation
+ *
+ * - Fresh entries are served straight from memory
+ * - Identical requests made while one is in flight share that request
+ * - Within the stale-while-revalidate window the old value is served and a
+ *   background refresh updates the cache for the next caller
+ * - Entries are evicted by tag, optionally in response to EventBus events
+ *
+ * Cached values are shared between callers and must be treated as immutable.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HttpCacheService {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Observable<unknown>>();
+
+  // Bumped on every invalidation so responses requested before it are not cached
+  private generation = 0;
+
+  constructor(private eventBus: EventBusService) {}
+
+  /**
+   * Serve `key` from the cache, or subscribe to `source` and cache its result
+   */
+  fetch<T>(key: string, source: () => Observable<T>, options: CacheOptions): Observable<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return of(entry.value);
+    }
+
+    if (entry && now < entry.staleUntil) {
+      if (!this.inFlight.has(key)) {
+        this.request(key, source, options).subscribe({
+          // A failed revalidation keeps serving the stale value until it expires
+          error: () => undefined
+        });
+      }
+      return of(entry.value);
+    }
+
+    return this.request(key, source, options);
+  }
+
+  invalidate(key: string): void {
+    this.startNewGeneration();
+    this.entries.delete(key);
+  }
+
+  /**
+   * Evict every entry carrying at least one of the given tags
+   */
+  invalidateTags(...tags: string[]): void {
+    this.startNewGeneration();
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Evict the given tags whenever an event matching one of the patterns is emitted on the EventBus
+   */
+  invalidateTagsOn(patterns: AppEventPattern[], tags: string[]): Subscription {
+    return merge(...patterns.map(pattern => this.eventBus.on(pattern)))
+      .subscribe(() => this.invalidateTags(...tags));
+  }
+
+  clear(): void {
+    this.startNewGeneration();
+    this.entries.clear();
+  }
+
+  private request<T>(key: string, source: () => Observable<T>, options: CacheOptions): Observable<T> {
+    const pending = this.inFlight.get(key) as Observable<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const generation = this.generation;
+    const request$: Observable<T> = source().pipe(
+      tap(value => {
+        if (generation === this.generation) {
+          this.set(key, value, options);
+        }
+      }),
+      finalize(() => {
+        if (this.inFlight.get(key) === request$) {
+          this.inFlight.delete(key);
+        }
+      }),
+      share()
+    );
+
+    this.inFlight.set(key, request$);
+    return request$;
+  }
+
+  private startNewGeneration(): void {
+    // Requests already in flight may return outdated data - later callers must not join them
+    this.generation++;
+    this.inFlight.clear();
+  }
+
+  private set<T>(key: string, value: T, options: CacheOptions): void {
+    const expiresAt = Date.now() + options.ttl;
+    this.entries.set(key, {
+      value,
+      tags: options.tags ?? [],
+      expiresAt,
+      staleUntil: expiresAt + (options.staleWhileRevalidate ?? 0)
+    });
+  }
+}
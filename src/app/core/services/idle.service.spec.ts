@@ -0,0 +1,125 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { BehaviorSubject, of } from 'rxjs';
+import { IdleService, IdleWarning } from './idle.service';
+import { AuthService } from './auth.service';
+import { APP_CONFIG, DEFAULT_APP_CONFIG } from '../config/app.config';
+
+describe('IdleService', () => {
+  let authenticated: BehaviorSubject<boolean>;
+  let authService: { isAuthenticated$: BehaviorSubject<boolean>; refreshToken: jasmine.Spy; logout: jasmine.Spy };
+  let router: jasmine.SpyObj<Router>;
+  let warning: IdleWarning | null;
+
+  beforeEach(() => {
+    authenticated = new BehaviorSubject(true);
+    authService = {
+      isAuthenticated$: authenticated,
+      refreshToken: jasmine.createSpy('refreshToken').and.returnValue(of('token')),
+      logout: jasmine.createSpy('logout').and.callFake(() => {
+        authenticated.next(false);
+        return of(undefined);
+      })
+    };
+    router = jasmine.createSpyObj('Router', ['navigate']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: authService },
+        { provide: Router, useValue: router },
+        // The warning starts after 7 seconds and counts down from 3
+        { provide: APP_CONFIG, useValue: { ...DEFAULT_APP_CONFIG, idleTimeout: 10000, idleWarningDuration: 3000 } }
+      ]
+    });
+  });
+
+  afterEach(() => localStorage.removeItem('last_activity'));
+
+  // Created inside fakeAsync, so that the timers it starts when signed in are fake
+  const createService = () => {
+    const service = TestBed.inject(IdleService);
+    service.warning$.subscribe(value => warning = value);
+    return service;
+  };
+
+  it('should warn once the user has been idle and count down', fakeAsync(() => {
+    createService();
+
+    tick(6999);
+    expect(warning).toBeNull();
+    tick(1);
+    expect(warning).toEqual({ secondsRemaining: 3 });
+    tick(2000);
+    expect(warning).toEqual({ secondsRemaining: 1 });
+
+    authenticated.next(false);
+  }));
+
+  it('should sign out when the countdown ends', fakeAsync(() => {
+    createService();
+
+    tick(10000);
+
+    expect(warning).toBeNull();
+    expect(authService.logout).toHaveBeenCalled();
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { reason: 'idle' } });
+  }));
+
+  it('should restart the idle timer on activity', fakeAsync(() => {
+    createService();
+
+    tick(6000);
+    document.dispatchEvent(new MouseEvent('mousedown'));
+    tick(6999);
+    expect(warning).toBeNull();
+    tick(1);
+    expect(warning).toEqual({ secondsRemaining: 3 });
+
+    authenticated.next(false);
+  }));
+
+  it('should count scrolling inside a container as activity', fakeAsync(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    createService();
+
+    tick(6000);
+    // Scroll events don't bubble
+    container.dispatchEvent(new Event('scroll'));
+    tick(6999);
+    expect(warning).toBeNull();
+
+    container.remove();
+    authenticated.next(false);
+  }));
+
+  it('should only dismiss the warning through stayActive', fakeAsync(() => {
+    const service = createService();
+
+    tick(7000);
+    document.dispatchEvent(new MouseEvent('mousedown'));
+    expect(warning).toEqual({ secondsRemaining: 3 });
+
+    service.stayActive();
+    expect(warning).toBeNull();
+    expect(authService.refreshToken).toHaveBeenCalled();
+
+    tick(6999);
+    expect(warning).toBeNull();
+    expect(authService.logout).not.toHaveBeenCalled();
+    tick(1);
+    expect(warning).toEqual({ secondsRemaining: 3 });
+
+    authenticated.next(false);
+  }));
+
+  it('should stop watching once signed out', fakeAsync(() => {
+    createService();
+
+    authenticated.next(false);
+    tick(20000);
+
+    expect(warning).toBeNull();
+    expect(authService.logout).not.toHaveBeenCalled();
+  }));
+});
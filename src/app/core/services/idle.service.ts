@@ -0,0 +1,127 @@
+import { Inject, Injectable, NgZone } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Subject, Subscription, fromEvent, merge, timer } from 'rxjs';
+import { filter, map, startWith, switchMap, take, tap, throttleTime } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app.config';
+import { AuthService } from './auth.service';
+import { StorageSyncService } from './storage-sync.service';
+
+export interface IdleWarning {
+  secondsRemaining: number;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+const LAST_ACTIVITY_KEY = 'last_activity';
+
+// How often activity is recorded - keeps event handling and storage writes cheap
+const ACTIVITY_THROTTLE = 5000;
+
+/**
+ * IdleService - Ends inactive sessions automatically
+ *
+ * While a user is signed in, activity (mouse, keyboard, touch, scroll) restarts
+ * the idle timer. Shortly before `AppConfig.idleTimeout` elapses a countdown is
+ * published on `warning$`; if nobody responds the user is logged out.
+ * Activity is shared through localStorage, so working in one tab keeps the
+ * other tabs signed in too.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService {
+  private warningSubject = new BehaviorSubject<IdleWarning | null>(null);
+  public warning$ = this.warningSubject.asObservable();
+
+  private resetSubject = new Subject<void>();
+  private watchSubscription?: Subscription;
+
+  constructor(
+    private authService: AuthService,
+    private storageSync: StorageSyncService,
+    private router: Router,
+    private zone: NgZone,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {
+    this.authService.isAuthenticated$.subscribe(isAuthenticated => {
+      if (isAuthenticated) {
+        this.start();
+      } else {
+        this.stop();
+      }
+    });
+  }
+
+  /**
+   * Dismiss the warning, restart the idle timer and refresh the session
+   */
+  stayActive(): void {
+    this.warningSubject.next(null);
+    this.recordActivity();
+    this.resetSubject.next();
+    this.authService.refreshToken().subscribe({
+      // A failed refresh already logs the user out
+      error: () => undefined
+    });
+  }
+
+  /**
+   * End the session now and go to the login page
+   */
+  signOut(reason?: 'idle'): void {
+    this.stop();
+    this.authService.logout().subscribe(() => {
+      this.router.navigate(['/login'], {
+        queryParams: reason ? { reason } : {}
+      });
+    });
+  }
+
+  private start(): void {
+    if (this.watchSubscription) {
+      return;
+    }
+
+    const idleBeforeWarning = Math.max(this.config.idleTimeout - this.config.idleWarningDuration, 0);
+    const warningSeconds = Math.ceil(this.config.idleWarningDuration / 1000);
+
+    // Activity listeners run outside Angular so mouse moves don't trigger change detection
+    this.zone.runOutsideAngular(() => {
+      // Captured, because scroll events don't bubble up from scrolling containers like tables
+      const localActivity$ = merge(...ACTIVITY_EVENTS.map(type => fromEvent(document, type, { capture: true, passive: true }))).pipe(
+        throttleTime(ACTIVITY_THROTTLE),
+        tap(() => this.recordActivity())
+      );
+      const otherTabActivity$ = this.storageSync.changes(LAST_ACTIVITY_KEY);
+
+      this.watchSubscription = merge(localActivity$, otherTabActivity$, this.resetSubject).pipe(
+        // Once the warning is up, only an explicit response keeps the session alive
+        filter(() => this.warningSubject.value === null),
+        startWith(null),
+        switchMap(() => timer(idleBeforeWarning).pipe(
+          switchMap(() => timer(0, 1000)),
+          map(tick => warningSeconds - tick),
+          take(warningSeconds + 1)
+        ))
+      ).subscribe(secondsRemaining => {
+        this.zone.run(() => {
+          if (secondsRemaining > 0) {
+            this.warningSubject.next({ secondsRemaining });
+          } else {
+            this.warningSubject.next(null);
+            this.signOut('idle');
+          }
+        });
+      });
+    });
+  }
+
+  private stop(): void {
+    this.watchSubscription?.unsubscribe();
+    this.watchSubscription = undefined;
+    this.warningSubject.next(null);
+  }
+
+  private recordActivity(): void {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+  }
+}
@@ -1,5 +1,5 @@
-import { Injectable } from '@angular/core';
-import { APP_CONFIG } from '../config/app.config';
+import { Inject, Injectable } from '@angular/core';
+import { APP_CONFIG, AppConfig } from '../config/app.config';
 
 export enum LogLevel {
   DEBUG = 'DEBUG',
@@ -12,9 +12,9 @@ export enum LogLevel {
   providedIn: 'root'
 })
 export class LoggerService {
-  private enableLogging = APP_CONFIG.enableLogging;
+  private enableLogging = this.config.enableLogging;
 
-  constructor() {}
+  constructor(@Inject(APP_CONFIG) private config: AppConfig) {}
 
   debug(message: string, ...args: any[]): void {
     this.log(LogLevel.DEBUG, message, args);
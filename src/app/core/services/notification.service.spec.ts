@@ -0,0 +1,82 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { NotificationService, MAX_VISIBLE_NOTIFICATIONS } from './notification.service';
+import { EventBusService, EventTypes } from './event-bus.service';
+import { Notification } from '../models/notification.model';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let eventBus: EventBusService;
+  let current: Notification[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NotificationService);
+    eventBus = TestBed.inject(EventBusService);
+    service.notifications$.subscribe(notifications => current = notifications);
+  });
+
+  afterEach(() => service.clear());
+
+  it('should show toasts emitted on the event bus', () => {
+    eventBus.emit(EventTypes.NOTIFICATION, { type: 'success', message: 'Saved' });
+
+    expect(current.length).toBe(1);
+    expect(current[0].type).toBe('success');
+    expect(current[0].message).toBe('Saved');
+  });
+
+  it('should auto-dismiss after the duration', fakeAsync(() => {
+    service.info('Hello', { duration: 1000 });
+
+    tick(999);
+    expect(current.length).toBe(1);
+    tick(1);
+    expect(current.length).toBe(0);
+  }));
+
+  it('should keep toasts with a duration of 0', fakeAsync(() => {
+    service.error('Broken', { duration: 0 });
+
+    tick(60000);
+    expect(current.length).toBe(1);
+  }));
+
+  it('should hold the countdown while paused', fakeAsync(() => {
+    const id = service.info('Hello', { duration: 1000 });
+
+    tick(600);
+    service.pause(id);
+    tick(5000);
+    expect(current.length).toBe(1);
+
+    service.resume(id);
+    tick(400);
+    expect(current.length).toBe(0);
+  }));
+
+  it('should drop the oldest toasts beyond the stacking limit', () => {
+    for (let i = 1; i <= MAX_VISIBLE_NOTIFICATIONS + 2; i++) {
+      service.info(`Toast ${i}`);
+    }
+
+    expect(current.length).toBe(MAX_VISIBLE_NOTIFICATIONS);
+    expect(current[0].message).toBe('Toast 3');
+  });
+
+  it('should replace toasts that share a key', () => {
+    service.success('Settings saved', { key: 'settings' });
+    service.success('Settings saved again', { key: 'settings' });
+
+    expect(current.map(n => n.message)).toEqual(['Settings saved again']);
+  });
+
+  it('should run the action and dismiss the toast', () => {
+    const handler = jasmine.createSpy('undo');
+    const id = service.info('User deleted', { action: { label: 'Undo', handler } });
+
+    service.runAction(id);
+
+    expect(handler).toHaveBeenCalled();
+    expect(current.length).toBe(0);
+  });
+});
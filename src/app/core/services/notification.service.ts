@@ -0,0 +1,150 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { EventBusService, EventTypes } from './event-bus.service';
+import { Notification, NotificationOptions, NotificationType } from '../models/notification.model';
+
+// Older toasts are dropped once more than this are on screen
+export const MAX_VISIBLE_NOTIFICATIONS = 4;
+
+// Errors stay up longer - they usually need reading
+const DEFAULT_DURATIONS: Record<NotificationType, number> = {
+  success: 4000,
+  info: 5000,
+  warning: 7000,
+  error: 10000
+};
+
+interface DismissTimer {
+  handle?: ReturnType<typeof setTimeout>;
+  remaining: number;
+  startedAt: number;
+}
+
+/**
+ * NotificationService - Toast notifications
+ *
+ * Features don't need to inject this service: anything emitted as
+ * EventTypes.NOTIFICATION with a NotificationOptions payload becomes a toast.
+ * The toast container in the layout shell renders `notifications$`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService implements OnDestroy {
+  private notificationsSubject = new BehaviorSubject<Notification[]>([]);
+  public notifications$ = this.notificationsSubject.asObservable();
+
+  private timers = new Map<string, DismissTimer>();
+  private nextId = 0;
+  private eventSubscription: Subscription;
+
+  constructor(private eventBus: EventBusService) {
+    this.eventSubscription = this.eventBus.on(EventTypes.NOTIFICATION)
+      .subscribe(event => this.show(event.payload));
+  }
+
+  ngOnDestroy(): void {
+    this.eventSubscription.unsubscribe();
+    this.clear();
+  }
+
+  /**
+   * Show a toast and return its id
+   */
+  show(options: NotificationOptions): string {
+    const notification: Notification = {
+      ...options,
+      id: `notification-${++this.nextId}`,
+      createdAt: Date.now()
+    };
+
+    let notifications = this.notificationsSubject.value;
+    if (options.key) {
+      notifications.filter(n => n.key === options.key).forEach(n => this.stopTimer(n.id));
+      notifications = notifications.filter(n => n.key !== options.key);
+    }
+
+    notifications = [...notifications, notification];
+    notifications.slice(0, -MAX_VISIBLE_NOTIFICATIONS).forEach(n => this.stopTimer(n.id));
+    this.notificationsSubject.next(notifications.slice(-MAX_VISIBLE_NOTIFICATIONS));
+
+    const duration = options.duration ?? DEFAULT_DURATIONS[options.type];
+    if (duration > 0) {
+      this.timers.set(notification.id, { remaining: duration, startedAt: 0 });
+      this.resume(notification.id);
+    }
+
+    return notification.id;
+  }
+
+  success(message: string, options?: Partial<NotificationOptions>): string {
+    return this.show({ ...options, type: 'success', message });
+  }
+
+  info(message: string, options?: Partial<NotificationOptions>): string {
+    return this.show({ ...options, type: 'info', message });
+  }
+
+  warning(message: string, options?: Partial<NotificationOptions>): string {
+    return this.show({ ...options, type: 'warning', message });
+  }
+
+  error(message: string, options?: Partial<NotificationOptions>): string {
+    return this.show({ ...options, type: 'error', message });
+  }
+
+  dismiss(id: string): void {
+    this.stopTimer(id);
+    this.notificationsSubject.next(this.notificationsSubject.value.filter(n => n.id !== id));
+  }
+
+  /**
+   * Run the toast's action, then dismiss it
+   */
+  runAction(id: string): void {
+    const notification = this.notificationsSubject.value.find(n => n.id === id);
+    if (!notification?.action) {
+      return;
+    }
+
+    this.dismiss(id);
+    notification.action.handler();
+  }
+
+  /**
+   * Hold the auto-dismiss countdown, e.g. while the toast is hovered or focused
+   */
+  pause(id: string): void {
+    const timer = this.timers.get(id);
+    if (!timer?.handle) {
+      return;
+    }
+
+    clearTimeout(timer.handle);
+    timer.handle = undefined;
+    timer.remaining -= Date.now() - timer.startedAt;
+  }
+
+  resume(id: string): void {
+    const timer = this.timers.get(id);
+    if (!timer || timer.handle) {
+      return;
+    }
+
+    timer.startedAt = Date.now();
+    timer.handle = setTimeout(() => this.dismiss(id), Math.max(timer.remaining, 0));
+  }
+
+  clear(): void {
+    this.timers.forEach((_, id) => this.stopTimer(id));
+    this.notificationsSubject.next([]);
+  }
+
+  private stopTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer?.handle) {
+      clearTimeout(timer.handle);
+    }
+    this.timers.delete(id);
+  }
+}
@@ -0,0 +1,186 @@
+import { TestBed, discardPeriodicTasks, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { BehaviorSubject } from 'rxjs';
+import { OFFLINE_QUEUE_STORAGE, OfflineQueueService, ReplayConflict } from './offline-queue.service';
+import { AuthService } from './auth.service';
+import { ConnectivityService } from './connectivity.service';
+import { MemoryStorageBackend } from '../store/testing/memory-storage-backend';
+
+describe('OfflineQueueService', () => {
+  let service: OfflineQueueService;
+  let httpMock: HttpTestingController;
+  let storage: MemoryStorageBackend;
+  let online: BehaviorSubject<boolean>;
+  let signedIn: boolean;
+  let userId: string;
+
+  beforeEach(() => {
+    storage = new MemoryStorageBackend();
+    online = new BehaviorSubject(false);
+    signedIn = true;
+    userId = '1';
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        { provide: OFFLINE_QUEUE_STORAGE, useValue: storage },
+        { provide: ConnectivityService, useValue: { online$: online, get isOnline() { return online.value; } } },
+        {
+          provide: AuthService,
+          useValue: {
+            get isAuthenticated() { return signedIn; },
+            get currentUser() { return signedIn ? { id: userId } : null; }
+          }
+        }
+      ]
+    });
+    service = TestBed.inject(OfflineQueueService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  const queueTwo = () => {
+    service.enqueue({ method: 'POST', url: '/api/users', body: { name: 'Ann' }, headers: {} });
+    service.enqueue({ method: 'DELETE', url: '/api/users/2', body: null, headers: {} });
+    flushMicrotasks();
+  };
+
+  it('should persist queued requests', fakeAsync(() => {
+    queueTwo();
+
+    expect(JSON.parse(storage.items.get('queue')!).length).toBe(2);
+  }));
+
+  it('should replay in order when the connection returns', fakeAsync(() => {
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    const first = httpMock.expectOne('/api/users');
+    expect(first.request.method).toBe('POST');
+    expect(first.request.headers.has('If-Unmodified-Since')).toBeTrue();
+    httpMock.expectNone('/api/users/2');
+    first.flush({});
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users/2').flush({});
+    flushMicrotasks();
+
+    let pending: number | undefined;
+    service.pendingCount$.subscribe(count => pending = count);
+    expect(pending).toBe(0);
+  }));
+
+  it('should keep requests that fail for a temporary reason', fakeAsync(() => {
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    flushMicrotasks();
+
+    httpMock.expectNone('/api/users/2');
+    expect(JSON.parse(storage.items.get('queue')!).length).toBe(2);
+    discardPeriodicTasks();
+  }));
+
+  it('should retry postponed replays with backoff', fakeAsync(() => {
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    flushMicrotasks();
+
+    tick(5000);
+    httpMock.expectOne('/api/users').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    flushMicrotasks();
+
+    // The next attempt waits twice as long
+    tick(5000);
+    httpMock.expectNone('/api/users');
+    tick(5000);
+    httpMock.expectOne('/api/users').flush({});
+    flushMicrotasks();
+    httpMock.expectOne('/api/users/2').flush({});
+    flushMicrotasks();
+
+    expect(JSON.parse(storage.items.get('queue')!).length).toBe(0);
+  }));
+
+  it('should keep requests rejected with 401 while signed in', fakeAsync(() => {
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users').flush(null, { status: 401, statusText: 'Unauthorized' });
+    flushMicrotasks();
+
+    httpMock.expectNone('/api/users/2');
+    expect(JSON.parse(storage.items.get('queue')!).length).toBe(2);
+    discardPeriodicTasks();
+  }));
+
+  it('should drop requests rejected with 401 once signed out', fakeAsync(() => {
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    const first = httpMock.expectOne('/api/users');
+    signedIn = false;
+    first.flush(null, { status: 401, statusText: 'Unauthorized' });
+    flushMicrotasks();
+
+    // The rest waits for the user to sign in again
+    httpMock.expectNone('/api/users/2');
+    expect(JSON.parse(storage.items.get('queue')!).length).toBe(1);
+    discardPeriodicTasks();
+  }));
+
+  it('should replay for the user who queued the requests once they sign in again', fakeAsync(() => {
+    queueTwo();
+    signedIn = false;
+    online.next(true);
+    flushMicrotasks();
+    httpMock.expectNone('/api/users');
+
+    signedIn = true;
+    service.replay();
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users').flush({});
+    flushMicrotasks();
+    httpMock.expectOne('/api/users/2').flush({});
+    flushMicrotasks();
+  }));
+
+  it('should drop requests queued by another user', fakeAsync(() => {
+    queueTwo();
+    userId = '2';
+    online.next(true);
+    flushMicrotasks();
+
+    httpMock.expectNone('/api/users');
+    httpMock.expectNone('/api/users/2');
+    expect(JSON.parse(storage.items.get('queue')!)).toEqual([]);
+  }));
+
+  it('should report conflicts and move on', fakeAsync(() => {
+    const conflicts: ReplayConflict[] = [];
+    service.conflicts$.subscribe(conflict => conflicts.push(conflict));
+
+    queueTwo();
+    online.next(true);
+    flushMicrotasks();
+
+    httpMock.expectOne('/api/users').flush(null, { status: 409, statusText: 'Conflict' });
+    flushMicrotasks();
+    httpMock.expectOne('/api/users/2').flush({});
+    flushMicrotasks();
+
+    expect(conflicts.length).toBe(1);
+    expect(conflicts[0].request.method).toBe('POST');
+    expect(conflicts[0].error.status).toBe(409);
+  }));
+});
@@ -0,0 +1,246 @@
+import { Inject, Injectable, InjectionToken, Injector } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Subject, combineLatest, firstValueFrom, interval } from 'rxjs';
+import { distinctUntilChanged, filter, map, switchMap } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { ConnectivityService } from './connectivity.service';
+import { EventBusService, EventTypes } from './event-bus.service';
+import { LoggerService } from './logger.service';
+import { IndexedDbBackend, StorageBackend } from '../store/storage-backend';
+import {
+  AppError,
+  ConflictError,
+  NetworkError,
+  RequestTimeoutError,
+  ServerError,
+  UnauthorizedError,
+  toAppError
+} from '../errors/app-error';
+
+export type QueueableMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface QueuedRequest {
+  id: string;
+  method: QueueableMethod;
+  /** Absolute URL, query string included */
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+  queuedAt: number;
+  /** Signed-in user who made the change; it is only sent with their session */
+  userId: string | null;
+}
+
+export interface ReplayConflict {
+  request: QueuedRequest;
+  error: AppError;
+}
+
+/**
+ * Where the queue is kept - IndexedDB so it survives reloads and closed tabs
+ */
+export const OFFLINE_QUEUE_STORAGE = new InjectionToken<StorageBackend>('OFFLINE_QUEUE_STORAGE', {
+  providedIn: 'root',
+  factory: () => new IndexedDbBackend('app_offline', 'requests')
+});
+
+const QUEUE_KEY = 'queue';
+
+// 412 Precondition Failed: the If-Unmodified-Since check failed
+const PRECONDITION_FAILED = 412;
+
+// How often to look for a chance to replay while requests are pending
+const REPLAY_CHECK_INTERVAL = 5000;
+
+// Backoff after a postponed replay: 5s, 10s, 20s, ... capped at 5 minutes
+const BASE_REPLAY_DELAY = 5000;
+const MAX_REPLAY_DELAY = 5 * 60 * 1000;
+
+/**
+ * OfflineQueueService - Mutating requests made without a connection
+ *
+ * Requests are replayed one at a time, in the order they were queued, when
+ * the connection returns, at startup, after any successful API response and
+ * periodically while requests are pending. Each replay carries
+ * `If-Unmodified-Since` with the time it was queued, so the server can refuse
+ * changes to data modified in the meantime: 409/412 responses are reported on
+ * `conflicts$` and as a notification, and the request is dropped. Failures
+ * that may succeed later (network, timeout, 5xx, or a 401 while the user is
+ * still signed in) stop the replay and keep the request; the periodic replays
+ * then back off exponentially until a request gets through. Requests are
+ * only replayed for the user who queued them: they wait while nobody is
+ * signed in and are dropped when someone else signs in.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineQueueService {
+  private queueSubject = new BehaviorSubject<QueuedRequest[]>([]);
+  public pending$ = this.queueSubject.asObservable();
+  public pendingCount$ = this.pending$.pipe(
+    map(queue => queue.length),
+    distinctUntilChanged()
+  );
+
+  private conflictsSubject = new Subject<ReplayConflict>();
+  public conflicts$ = this.conflictsSubject.asObservable();
+
+  private loaded: Promise<void>;
+  private replaying = false;
+  private postponedReplays = 0;
+  private nextReplayAt = 0;
+
+  constructor(
+    private http: HttpClient,
+    private connectivity: ConnectivityService,
+    private eventBus: EventBusService,
+    private logger: LoggerService,
+    private injector: Injector,
+    @Inject(OFFLINE_QUEUE_STORAGE) private storage: StorageBackend
+  ) {
+    this.loaded = this.load();
+    this.connectivity.online$.pipe(filter(online => online)).subscribe(() => this.replay());
+
+    combineLatest([this.pendingCount$, this.connectivity.online$]).pipe(
+      switchMap(([pending, online]) => pending > 0 && online ? interval(REPLAY_CHECK_INTERVAL) : EMPTY),
+      filter(() => Date.now() >= this.nextReplayAt)
+    ).subscribe(() => this.replay());
+  }
+
+  async enqueue(request: Omit<QueuedRequest, 'id' | 'queuedAt' | 'userId'>): Promise<QueuedRequest> {
+    await this.loaded;
+
+    const queued: QueuedRequest = {
+      ...request,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: Date.now(),
+      userId: this.getCurrentUserId()
+    };
+    await this.save([...this.queueSubject.value, queued]);
+    this.logger.info(`Queued ${queued.method} ${queued.url} until the connection returns`);
+
+    return queued;
+  }
+
+  /**
+   * Send queued requests in order until the queue is empty or one must wait
+   */
+  async replay(): Promise<void> {
+    await this.loaded;
+    if (this.replaying) {
+      return;
+    }
+
+    this.replaying = true;
+    try {
+      while (this.queueSubject.value.length > 0 && this.connectivity.isOnline) {
+        const [next] = this.queueSubject.value;
+        const userId = this.getCurrentUserId();
+        if (userId === null) {
+          // Kept until the user signs in again
+          break;
+        }
+        if (next.userId !== userId) {
+          // The API would apply it as the user who is signed in now
+          this.logger.warn(`Dropped ${next.method} ${next.url}, queued by another user`);
+          await this.save(this.queueSubject.value.filter(request => request.id !== next.id));
+          continue;
+        }
+        if (!await this.send(next)) {
+          this.postpone();
+          break;
+        }
+        this.postponedReplays = 0;
+        this.nextReplayAt = 0;
+        await this.save(this.queueSubject.value.filter(request => request.id !== next.id));
+      }
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Hold off the periodic replays, for longer after each failed attempt
+   */
+  private postpone(): void {
+    const delay = Math.min(BASE_REPLAY_DELAY * 2 ** this.postponedReplays, MAX_REPLAY_DELAY);
+    this.postponedReplays++;
+    this.nextReplayAt = Date.now() + delay;
+  }
+
+  /**
+   * Returns false when the request should stay queued for a later attempt
+   */
+  private async send(request: QueuedRequest): Promise<boolean> {
+    try {
+      await firstValueFrom(this.http.request(request.method, request.url, {
+        body: request.body,
+        headers: {
+          ...request.headers,
+          'If-Unmodified-Since': new Date(request.queuedAt).toUTCString()
+        }
+      }));
+      return true;
+    } catch (error) {
+      const appError = toAppError(error);
+
+      if (this.isTemporary(appError)) {
+        this.logger.warn(`Replay of ${request.method} ${request.url} postponed: ${appError.message}`);
+        return false;
+      }
+
+      if (appError instanceof ConflictError || appError.status === PRECONDITION_FAILED) {
+        this.conflictsSubject.next({ request, error: appError });
+        this.eventBus.emit(EventTypes.NOTIFICATION, {
+          type: 'warning',
+          title: 'Offline change not applied',
+          message: 'The data was changed by someone else while you were offline. Reload and try again.',
+          duration: 0
+        });
+      } else {
+        this.eventBus.emit(EventTypes.NOTIFICATION, {
+          type: 'error',
+          title: 'Offline change not applied',
+          message: appError.message
+        });
+      }
+      return true;
+    }
+  }
+
+  private isTemporary(error: AppError): boolean {
+    return error instanceof NetworkError
+      || error instanceof RequestTimeoutError
+      || error instanceof ServerError
+      // The session may be refreshed; once signed out the request can't be sent
+      || (error instanceof UnauthorizedError && this.isSignedIn());
+  }
+
+  private isSignedIn(): boolean {
+    // Looked up lazily: AuthService sends its requests through ApiService, which uses this queue
+    return this.injector.get(AuthService).isAuthenticated;
+  }
+
+  private getCurrentUserId(): string | null {
+    return this.injector.get(AuthService).currentUser?.id ?? null;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(QUEUE_KEY);
+      this.queueSubject.next(stored ? JSON.parse(stored) : []);
+    } catch (error) {
+      this.logger.warn('Could not read the offline queue', error);
+    }
+  }
+
+  private async save(queue: QueuedRequest[]): Promise<void> {
+    this.queueSubject.next(queue);
+    try {
+      await this.storage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      // Still queued in memory - only lost if the tab is closed before replay
+      this.logger.warn('Could not save the offline queue', error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Where a scrolled list was left, anchored to an item rather than a pixel
+ * offset so it survives items being re-measured after the list is rebuilt
+ */
+export interface ScrollPosition {
+  // Key of the first visible item and how far (px) the list was scrolled into it
+  anchorKey: string | null;
+  anchorOffset: number;
+  // Number of items that were loaded, so infinite lists can load them again
+  itemCount: number;
+  // Identifies what was listed (e.g. serialized filters); a different context is not restored
+  context?: string;
+}
+
+/**
+ * ScrollPositionService - Remembers scroll positions of lists for the session
+ *
+ * Lists save their position when they are destroyed and restore it when they
+ * are shown again, e.g. when navigating back from a detail page.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ScrollPositionService {
+  private positions = new Map<string, ScrollPosition>();
+
+  save(key: string, position: ScrollPosition): void {
+    this.positions.set(key, position);
+  }
+
+  /**
+   * The saved position, if it was saved for the same context
+   */
+  get(key: string, context?: string): ScrollPosition | null {
+    const position = this.positions.get(key);
+    return position && position.context === context ? position : null;
+  }
+
+  clear(key: string): void {
+    this.positions.delete(key);
+  }
+}
@@ -1,47 +1,84 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { Observable } from 'rxjs';
+import { Store } from '../store/store';
+import {
+  AppActions,
+  LocaleSettings,
+  TablePreferences,
+  selectLoading,
+  selectLocale,
+  selectSelectedUserId,
+  selectSidebarCollapsed,
+  selectTablePreferences
+} from '../store/app.state';
 
 /**
  * StateService - Shared state management across features
  * 
- * This service demonstrates how features communicate without direct dependencies.
- * Features can set and observe shared state through this centralized service.
+ * Facade over the `app` slice of the Store, so features can set and observe
+ * shared state without knowing about actions and selectors.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class StateService {
   // Selected user state (shared between Users and Analytics modules)
-  private selectedUserIdSubject = new BehaviorSubject<string | null>(null);
-  public selectedUserId$ = this.selectedUserIdSubject.asObservable();
+  public selectedUserId$ = this.store.select(selectSelectedUserId);
 
   // Application-wide loading state
-  private loadingSubject = new BehaviorSubject<boolean>(false);
-  public loading$ = this.loadingSubject.asObservable();
+  public loading$ = this.store.select(selectLoading);
 
   // Sidebar collapsed state
-  private sidebarCollapsedSubject = new BehaviorSubject<boolean>(false);
-  public sidebarCollapsed$ = this.sidebarCollapsedSubject.asObservable();
+  public sidebarCollapsed$ = this.store.select(selectSidebarCollapsed);
 
-  constructor() {}
+  // Language and timezone chosen in the settings
+  public locale$ = this.store.select(selectLocale);
+
+  constructor(private store: Store) {}
 
   setSelectedUserId(userId: string | null): void {
-    this.selectedUserIdSubject.next(userId);
+    this.store.dispatch(AppActions.selectUser({ userId }));
   }
 
   getSelectedUserId(): string | null {
-    return this.selectedUserIdSubject.value;
+    return this.store.selectSnapshot(selectSelectedUserId);
   }
 
   setLoading(loading: boolean): void {
-    this.loadingSubject.next(loading);
+    this.store.dispatch(AppActions.setLoading({ loading }));
   }
 
   toggleSidebar(): void {
-    this.sidebarCollapsedSubject.next(!this.sidebarCollapsedSubject.value);
+    this.store.dispatch(AppActions.toggleSidebar());
   }
 
   setSidebarCollapsed(collapsed: boolean): void {
-    this.sidebarCollapsedSubject.next(collapsed);
+    this.store.dispatch(AppActions.setSidebarCollapsed({ collapsed }));
+  }
+
+  getLocale(): LocaleSettings {
+    return this.store.selectSnapshot(selectLocale);
+  }
+
+  setLocale(locale: LocaleSettings): void {
+    this.store.dispatch(AppActions.setLocale({ locale }));
+  }
+
+  /**
+   * Saved view preferences of a table (persisted across sessions)
+   */
+  tablePreferences$(tableId: string): Observable<TablePreferences> {
+    return this.store.select(selectTablePreferences(tableId));
+  }
+
+  getTablePreferences(tableId: string): TablePreferences {
+    return this.store.selectSnapshot(selectTablePreferences(tableId));
+  }
+
+  /**
+   * Merge `preferences` into the saved preferences of a table
+   */
+  setTablePreferences(tableId: string, preferences: TablePreferences): void {
+    this.store.dispatch(AppActions.setTablePreferences({ tableId, preferences }));
   }
 }
@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Observable, fromEvent } from 'rxjs';
+import { filter, map, share } from 'rxjs/operators';
+
+/**
+ * StorageSyncService - Cross-tab notifications for localStorage changes
+ *
+ * Browsers fire a `storage` event in every *other* tab of the same origin when
+ * localStorage is written. Services that persist there subscribe to the keys
+ * they own and refresh their in-memory state, so all tabs stay consistent.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StorageSyncService {
+  private storageEvents$ = fromEvent<StorageEvent>(window, 'storage').pipe(
+    filter(event => event.storageArea === localStorage),
+    share()
+  );
+
+  constructor() {}
+
+  /**
+   * Changes made to any of the given keys in another tab.
+   * Emits the changed key, or null when another tab cleared localStorage.
+   */
+  changes(...keys: string[]): Observable<string | null> {
+    return this.storageEvents$.pipe(
+      filter(event => event.key === null || keys.includes(event.key)),
+      map(event => event.key)
+    );
+  }
+}
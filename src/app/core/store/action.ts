@@ -0,0 +1,38 @@
+export interface Action {
+  type: string;
+}
+
+export interface TypedAction<T extends string> extends Action {
+  readonly type: T;
+}
+
+export type ActionCreator<
+  T extends string = string,
+  // never[] accepts creators with any arguments
+  Args extends unknown[] = never[],
+  A extends TypedAction<T> = TypedAction<T>
+> = ((...args: Args) => A) & { readonly type: T };
+
+export interface ActionProps<P extends object> {
+  readonly _props?: P;
+}
+
+/**
+ * Declare the payload of an action: createAction('[Users] Select', props<{ id: string }>())
+ */
+export function props<P extends object>(): ActionProps<P> {
+  return {};
+}
+
+/**
+ * Create a typed action creator. The returned function also carries `type`,
+ * for reducers (`on`) and effects (`ofType`).
+ */
+export function createAction<T extends string>(type: T): ActionCreator<T, [], TypedAction<T>>;
+export function createAction<T extends string, P extends object>(
+  type: T,
+  config: ActionProps<P>
+): ActionCreator<T, [props: P], P & TypedAction<T>>;
+export function createAction(type: string, _config?: ActionProps<object>): ActionCreator {
+  return Object.assign((props?: object) => ({ ...props, type }), { type });
+}
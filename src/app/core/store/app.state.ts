@@ -0,0 +1,138 @@
+import { createAction, props } from './action';
+import { createReducer, on } from './reducer';
+import { createFeatureSelector, createSelector } from './selector';
+import { PersistConfig } from './persistence';
+import { SortSpec } from '../models/common.model';
+
+/**
+ * View preferences of a table, e.g. the users list
+ */
+export interface TablePreferences {
+  pageSize?: number;
+  sort?: SortSpec[];
+  hiddenColumns?: string[];
+  columnOrder?: string[];
+  // Load more rows while scrolling instead of showing pages
+  infiniteScroll?: boolean;
+}
+
+/**
+ * Language and timezone used to format dates, e.g. in exports
+ */
+export interface LocaleSettings {
+  language: string;
+  timezone: string;
+}
+
+/**
+ * Application-wide state shared between features
+ */
+export interface CoreState {
+  // Selected user (shared between Users and Analytics modules)
+  selectedUserId: string | null;
+  loading: boolean;
+  sidebarCollapsed: boolean;
+  // Keyed by table id
+  tablePreferences: Record<string, TablePreferences>;
+  // Set on the settings page, but kept here so it is restored at startup, before that lazily loaded feature
+  locale: LocaleSettings;
+}
+
+declare module './store' {
+  interface AppState {
+    app: CoreState;
+  }
+}
+
+export const initialCoreState: CoreState = {
+  selectedUserId: null,
+  loading: false,
+  sidebarCollapsed: false,
+  tablePreferences: {},
+  locale: { language: 'en', timezone: 'UTC' }
+};
+
+// Only user preferences survive a reload - selection and loading state start fresh
+export const APP_PERSIST_CONFIG: PersistConfig<CoreState> = {
+  key: 'app_state',
+  version: 2,
+  pick: ({ sidebarCollapsed, tablePreferences, locale }) => ({ sidebarCollapsed, tablePreferences, locale }),
+  migrations: {
+    // Language and timezone used to be stored with the settings
+    2: state => {
+      const legacyLocale = readLegacyLocale(localStorage);
+      return legacyLocale ? { ...state, locale: { ...initialCoreState.locale, ...legacyLocale } } : state;
+    }
+  }
+};
+
+/**
+ * Language and timezone from settings stored before version 2 of `app_settings`,
+ * which no longer has them. Null when there are none, or they were already moved.
+ */
+function readLegacyLocale(storage: Storage): Partial<LocaleSettings> | null {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(storage.getItem('app_settings') ?? 'null');
+  } catch {
+    return null;
+  }
+  if (!isObject(stored)) {
+    return null;
+  }
+
+  // Version 0 stored the bare settings object
+  const settings = typeof stored['version'] === 'number' ? (stored['version'] < 2 ? stored['state'] : null) : stored;
+  if (!isObject(settings)) {
+    return null;
+  }
+
+  const locale: Partial<LocaleSettings> = {};
+  if (typeof settings['language'] === 'string') {
+    locale.language = settings['language'];
+  }
+  if (typeof settings['timezone'] === 'string') {
+    locale.timezone = settings['timezone'];
+  }
+  return Object.keys(locale).length > 0 ? locale : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const AppActions = {
+  selectUser: createAction('[App] Select User', props<{ userId: string | null }>()),
+  setLoading: createAction('[App] Set Loading', props<{ loading: boolean }>()),
+  toggleSidebar: createAction('[App] Toggle Sidebar'),
+  setSidebarCollapsed: createAction('[App] Set Sidebar Collapsed', props<{ collapsed: boolean }>()),
+  setTablePreferences: createAction('[App] Set Table Preferences', props<{ tableId: string; preferences: TablePreferences }>()),
+  setLocale: createAction('[App] Set Locale', props<{ locale: LocaleSettings }>())
+};
+
+export const appReducer = createReducer(
+  initialCoreState,
+  on(AppActions.selectUser, (state, { userId }) => ({ ...state, selectedUserId: userId })),
+  on(AppActions.setLoading, (state, { loading }) => ({ ...state, loading })),
+  on(AppActions.toggleSidebar, state => ({ ...state, sidebarCollapsed: !state.sidebarCollapsed })),
+  on(AppActions.setSidebarCollapsed, (state, { collapsed }) => ({ ...state, sidebarCollapsed: collapsed })),
+  on(AppActions.setTablePreferences, (state, { tableId, preferences }) => ({
+    ...state,
+    tablePreferences: {
+      ...state.tablePreferences,
+      [tableId]: { ...state.tablePreferences[tableId], ...preferences }
+    }
+  })),
+  on(AppActions.setLocale, (state, { locale }) => ({ ...state, locale }))
+);
+
+export const selectCoreState = createFeatureSelector('app');
+export const selectSelectedUserId = createSelector(selectCoreState, state => state.selectedUserId);
+export const selectLoading = createSelector(selectCoreState, state => state.loading);
+export const selectSidebarCollapsed = createSelector(selectCoreState, state => state.sidebarCollapsed);
+export const selectLocale = createSelector(selectCoreState, state => state.locale);
+export const selectAllTablePreferences = createSelector(selectCoreState, state => state.tablePreferences);
+
+// Selector factory - create the selector once per table so it stays memoized
+export const selectTablePreferences = (tableId: string) =>
+  createSelector(selectAllTablePreferences, preferences => preferences[tableId] ?? {});
@@ -0,0 +1,30 @@
+import { Action } from './action';
+
+// The subset of the Redux DevTools extension API the store uses
+// (https://github.com/reduxjs/redux-devtools/blob/main/extension/docs/API/Methods.md)
+export interface DevtoolsMessage {
+  type: string;
+  payload?: { type: string; [key: string]: unknown } | string;
+  state?: string;
+}
+
+export interface DevtoolsConnection {
+  init(state: unknown): void;
+  send(action: Action, state: unknown): void;
+  subscribe(listener: (message: DevtoolsMessage) => void): (() => void) | void;
+}
+
+interface DevtoolsExtension {
+  connect(options: { name: string; maxAge?: number }): DevtoolsConnection;
+}
+
+declare global {
+  interface Window {
+    __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+  }
+}
+
+export function connectToDevtools(name: string): DevtoolsConnection | null {
+  const extension = window.__REDUX_DEVTOOLS_EXTENSION__;
+  return extension ? extension.connect({ name, maxAge: 50 }) : null;
+}
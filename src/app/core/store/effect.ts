@@ -0,0 +1,36 @@
+import { Observable, OperatorFunction } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { Action, ActionCreator } from './action';
+
+export interface EffectConfig {
+  /** Dispatch the actions the effect emits. Defaults to true. */
+  dispatch?: boolean;
+}
+
+const effectConfigs = new WeakMap<Observable<unknown>, EffectConfig>();
+
+/**
+ * Mark an observable as an effect. Store.addEffects subscribes to every
+ * effect property of the instance and dispatches what they emit.
+ */
+export function createEffect(source: () => Observable<Action>, config?: EffectConfig & { dispatch?: true }): Observable<Action>;
+export function createEffect<T>(source: () => Observable<T>, config: EffectConfig & { dispatch: false }): Observable<T>;
+export function createEffect(source: () => Observable<unknown>, config: EffectConfig = {}): Observable<unknown> {
+  const effect$ = source();
+  effectConfigs.set(effect$, { dispatch: true, ...config });
+  return effect$;
+}
+
+export function getEffects(instance: object): Array<{ name: string; effect$: Observable<unknown>; config: EffectConfig }> {
+  return Object.entries(instance)
+    .filter(([, value]) => value instanceof Observable && effectConfigs.has(value))
+    .map(([name, effect$]) => ({ name, effect$, config: effectConfigs.get(effect$)! }));
+}
+
+/**
+ * Keep only the actions created by the given creators
+ */
+export function ofType<C extends ActionCreator[]>(...creators: C): OperatorFunction<Action, ReturnType<C[number]>> {
+  const types = creators.map(creator => creator.type);
+  return filter((action): action is ReturnType<C[number]> => types.includes(action.type));
+}
@@ -0,0 +1,83 @@
+import { deepMerge, restorePersistedState, serializePersistedState } from './persistence';
+
+describe('persistence', () => {
+  describe('restorePersistedState', () => {
+    const config = {
+      key: 'prefs',
+      version: 3,
+      migrations: {
+        1: (state: Record<string, unknown>) => ({ ...state }),
+        2: (state: Record<string, unknown>) => ({ ...state, theme: state['darkMode'] ? 'dark' : 'light' }),
+        3: ({ darkMode, ...state }: Record<string, unknown>) => state
+      }
+    };
+
+    it('should return undefined when nothing is stored', () => {
+      expect(restorePersistedState(null, config)).toBeUndefined();
+    });
+
+    it('should return current-version state as is', () => {
+      expect(restorePersistedState(serializePersistedState({ theme: 'dark' }, 3), config)).toEqual({ theme: 'dark' });
+    });
+
+    it('should run the migrations in order', () => {
+      expect(restorePersistedState(serializePersistedState({ darkMode: true }, 1), config)).toEqual({ theme: 'dark' });
+    });
+
+    it('should treat values stored without an envelope as version 0', () => {
+      expect(restorePersistedState(JSON.stringify({ darkMode: false }), config)).toEqual({ theme: 'light' });
+    });
+
+    it('should reject corrupted JSON', () => {
+      expect(() => restorePersistedState('{"darkMode": tru', config)).toThrowError(/not valid JSON/);
+    });
+
+    it('should reject state written by a newer version', () => {
+      expect(() => restorePersistedState(serializePersistedState({}, 4), config)).toThrowError(/newer version/);
+    });
+
+    it('should reject versions without a migration path', () => {
+      expect(() => restorePersistedState(serializePersistedState({}, 0), { key: 'prefs', version: 1 }))
+        .toThrowError(/no migration to version 1/);
+    });
+
+    it('should reject migrating a stored value that is not an object', () => {
+      expect(() => restorePersistedState(JSON.stringify('dark'), config)).toThrowError(/not an object/);
+    });
+  });
+
+  describe('deepMerge', () => {
+    const defaults = {
+      notifications: true,
+      language: 'en',
+      table: { pageSize: 20, hiddenColumns: [] as string[] },
+      selectedId: null as string | null
+    };
+
+    it('should fill in fields missing from the stored value', () => {
+      expect(deepMerge(defaults, { language: 'fr', table: { pageSize: 50 } })).toEqual({
+        notifications: true,
+        language: 'fr',
+        table: { pageSize: 50, hiddenColumns: [] },
+        selectedId: null
+      });
+    });
+
+    it('should ignore stored values of the wrong type', () => {
+      const merged = deepMerge(defaults, { notifications: 'yes', table: 'broken', selectedId: '7' });
+
+      expect(merged.notifications).toBeTrue();
+      expect(merged.table).toEqual(defaults.table);
+      expect(merged.selectedId).toBe('7');
+    });
+
+    it('should fall back to the defaults when the stored value is not an object', () => {
+      expect(deepMerge(defaults, 42)).toBe(defaults);
+    });
+
+    it('should keep entries of record-like slices', () => {
+      expect(deepMerge({} as Record<string, { pageSize: number }>, { users: { pageSize: 10 } }))
+        .toEqual({ users: { pageSize: 10 } });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { StorageBackend, StorageBackendType } from './storage-backend';
+
+export type Migration = (state: Record<string, unknown>) => unknown;
+
+export interface PersistConfig<S> {
+  /** Storage key */
+  key: string;
+  /** Schema version stored with the state. Bump it, and add a migration, when the persisted shape changes. */
+  version: number;
+  /**
+   * `migrations[n]` upgrades a stored state from version n - 1 to n. They run in
+   * order up to `version`. Version 0 is a value stored before versioning existed.
+   */
+  migrations?: Record<number, Migration>;
+  /** Persist only part of the slice; the rest always starts from the reducer's initial state */
+  pick?: (state: S) => Partial<S>;
+  /** Defaults to 'local' */
+  backend?: StorageBackendType | StorageBackend;
+}
+
+interface PersistedEnvelope {
+  version: number;
+  state: unknown;
+}
+
+/**
+ * Turn a raw stored value into state of the current schema version.
+ * Returns undefined when nothing is stored; throws when the value can't be used.
+ */
+export function restorePersistedState(
+  raw: string | null,
+  config: Pick<PersistConfig<unknown>, 'key' | 'version' | 'migrations'>
+): unknown {
+  if (raw === null) {
+    return undefined;
+  }
+
+  let envelope: PersistedEnvelope;
+  try {
+    envelope = toEnvelope(JSON.parse(raw));
+  } catch {
+    throw new Error(`"${config.key}" is not valid JSON`);
+  }
+
+  if (envelope.version > config.version) {
+    throw new Error(`"${config.key}" was written by a newer version (${envelope.version} > ${config.version})`);
+  }
+
+  let state = envelope.state;
+  for (let version = envelope.version + 1; version <= config.version; version++) {
+    const migration = config.migrations?.[version];
+    if (!migration) {
+      throw new Error(`"${config.key}" has no migration to version ${version}`);
+    }
+    if (!isPlainObject(state)) {
+      throw new Error(`"${config.key}" can't be migrated to version ${version}: the stored state is not an object`);
+    }
+    state = migration(state);
+  }
+
+  return state;
+}
+
+export function serializePersistedState(state: unknown, version: number): string {
+  const envelope: PersistedEnvelope = { version, state };
+  return JSON.stringify(envelope);
+}
+
+function toEnvelope(value: unknown): PersistedEnvelope {
+  if (isPlainObject(value) && typeof value['version'] === 'number' && 'state' in value) {
+    return { version: value['version'], state: value['state'] };
+  }
+  // Stored before versioning: the bare state
+  return { version: 0, state: value };
+}
+
+/**
+ * Merge a stored value into the defaults, recursively.
+ * Stored values whose type doesn't match the default are ignored, so a
+ * corrupted or outdated field falls back to its default, and fields added
+ * since the value was stored get their default.
+ */
+export function deepMerge<T>(defaults: T, stored: unknown): T {
+  if (isPlainObject(defaults) && isPlainObject(stored)) {
+    const result: Record<string, unknown> = { ...defaults };
+    Object.keys(stored).forEach(key => {
+      result[key] = key in defaults ? deepMerge(defaults[key], stored[key]) : stored[key];
+    });
+    return result as T;
+  }
+
+  return sameType(defaults, stored) ? stored as T : defaults;
+}
+
+function sameType(defaults: unknown, stored: unknown): boolean {
+  if (stored === undefined) {
+    return false;
+  }
+  if (defaults === null || defaults === undefined) {
+    return true;
+  }
+  if (Array.isArray(defaults)) {
+    return Array.isArray(stored);
+  }
+  return typeof defaults === typeof stored && isPlainObject(defaults) === isPlainObject(stored);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
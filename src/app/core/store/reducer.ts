@@ -0,0 +1,35 @@
+import { Action, ActionCreator } from './action';
+
+export type Reducer<S> = (state: S | undefined, action: Action) => S;
+
+export interface On<S> {
+  types: string[];
+  reducer: (state: S, action: Action) => S;
+}
+
+/**
+ * Handle one or more actions in a reducer built with createReducer
+ */
+export function on<S, C extends ActionCreator>(
+  creators: C | C[],
+  reducer: (state: S, action: ReturnType<C>) => S
+): On<S> {
+  return {
+    types: (Array.isArray(creators) ? creators : [creators]).map(creator => creator.type),
+    // Only called for the listed types, so the action is always a ReturnType<C>
+    reducer: reducer as On<S>['reducer']
+  };
+}
+
+/**
+ * Build a reducer from `on(...)` handlers. Unhandled actions return the state unchanged.
+ */
+export function createReducer<S>(initialState: S, ...ons: On<S>[]): Reducer<S> {
+  const handlers = new Map<string, On<S>['reducer']>();
+  ons.forEach(handler => handler.types.forEach(type => handlers.set(type, handler.reducer)));
+
+  return (state = initialState, action) => {
+    const handler = handlers.get(action.type);
+    return handler ? handler(state, action) : state;
+  };
+}
@@ -0,0 +1,87 @@
+import type { AppState } from './store';
+
+export type Selector<S, R> = (state: S) => R;
+
+export interface MemoizedSelector<S, R> extends Selector<S, R> {
+  /** Forget the memoized result, e.g. to free memory held by large results */
+  release(): void;
+  /** Always return `result` - used by MockStore.overrideSelector */
+  setResult(result: R): void;
+  clearResult(): void;
+}
+
+const NO_VALUE = Symbol('NO_VALUE');
+
+function memoize<S, R>(compute: (state: S) => R): MemoizedSelector<S, R> {
+  let lastState: S | typeof NO_VALUE = NO_VALUE;
+  let lastResult: R;
+  let override: R | typeof NO_VALUE = NO_VALUE;
+
+  const selector = (state: S): R => {
+    if (override !== NO_VALUE) {
+      return override;
+    }
+    if (state !== lastState) {
+      lastResult = compute(state);
+      lastState = state;
+    }
+    return lastResult;
+  };
+
+  return Object.assign(selector, {
+    release: () => lastState = NO_VALUE,
+    setResult: (result: R) => override = result,
+    clearResult: () => override = NO_VALUE
+  });
+}
+
+/**
+ * Select a top-level slice registered with Store.addFeature.
+ * Slices of lazily loaded features are undefined until their module loads.
+ */
+export function createFeatureSelector<K extends keyof AppState & string>(key: K): MemoizedSelector<AppState, AppState[K]> {
+  return memoize(state => state[key]);
+}
+
+/**
+ * Combine selectors. The projector only runs again when one of the inputs
+ * returns a different value (by reference).
+ */
+export function createSelector<S, R1, R>(
+  s1: Selector<S, R1>,
+  projector: (r1: R1) => R
+): MemoizedSelector<S, R>;
+export function createSelector<S, R1, R2, R>(
+  s1: Selector<S, R1>,
+  s2: Selector<S, R2>,
+  projector: (r1: R1, r2: R2) => R
+): MemoizedSelector<S, R>;
+export function createSelector<S, R1, R2, R3, R>(
+  s1: Selector<S, R1>,
+  s2: Selector<S, R2>,
+  s3: Selector<S, R3>,
+  projector: (r1: R1, r2: R2, r3: R3) => R
+): MemoizedSelector<S, R>;
+export function createSelector<S, R1, R2, R3, R4, R>(
+  s1: Selector<S, R1>,
+  s2: Selector<S, R2>,
+  s3: Selector<S, R3>,
+  s4: Selector<S, R4>,
+  projector: (r1: R1, r2: R2, r3: R3, r4: R4) => R
+): MemoizedSelector<S, R>;
+export function createSelector(...args: Function[]): MemoizedSelector<unknown, unknown> {
+  const inputs = args.slice(0, -1) as Selector<unknown, unknown>[];
+  const projector = args[args.length - 1];
+
+  let lastInputs: unknown[] | null = null;
+  let lastResult: unknown;
+
+  return memoize(state => {
+    const values = inputs.map(input => input(state));
+    if (!lastInputs || values.some((value, i) => value !== lastInputs![i])) {
+      lastResult = projector(...values);
+      lastInputs = values;
+    }
+    return lastResult;
+  });
+}
@@ -0,0 +1,83 @@
+import { TestBed, fakeAsync, flushMicrotasks } from '@angular/core/testing';
+import { StatePersistenceService } from './state-persistence.service';
+import { MemoryStorageBackend } from './testing/memory-storage-backend';
+import { Store } from './store';
+import { PersistConfig } from './persistence';
+import { APP_PERSIST_CONFIG, AppActions, CoreState, selectLocale, selectSidebarCollapsed, selectTablePreferences } from './app.state';
+
+describe('StatePersistenceService', () => {
+  let service: StatePersistenceService;
+  let store: Store;
+  let backend: MemoryStorageBackend;
+  let config: PersistConfig<CoreState>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatePersistenceService);
+    store = TestBed.inject(Store);
+    backend = new MemoryStorageBackend();
+    config = { ...APP_PERSIST_CONFIG, backend };
+  });
+
+  it('should restore the stored state into the slice', fakeAsync(() => {
+    backend.items.set('app_state', JSON.stringify({ version: 2, state: { sidebarCollapsed: true } }));
+
+    service.persist('app', config);
+    flushMicrotasks();
+
+    expect(store.selectSnapshot(selectSidebarCollapsed)).toBeTrue();
+    // Not stored, so still the default
+    expect(store.selectSnapshot(selectTablePreferences('users'))).toEqual({});
+  }));
+
+  it('should save picked fields when the slice changes', fakeAsync(() => {
+    service.persist('app', config);
+    flushMicrotasks();
+
+    store.dispatch(AppActions.setSidebarCollapsed({ collapsed: true }));
+    store.dispatch(AppActions.selectUser({ userId: '3' }));
+    flushMicrotasks();
+
+    expect(JSON.parse(backend.items.get('app_state')!)).toEqual({
+      version: 2,
+      state: { sidebarCollapsed: true, tablePreferences: {}, locale: { language: 'en', timezone: 'UTC' } }
+    });
+  }));
+
+  describe('upgrading from version 1', () => {
+    afterEach(() => localStorage.removeItem('app_settings'));
+
+    it('should move language and timezone from the stored settings into the locale', fakeAsync(() => {
+      backend.items.set('app_state', JSON.stringify({ version: 1, state: { sidebarCollapsed: true } }));
+      localStorage.setItem('app_settings', JSON.stringify({
+        version: 1,
+        state: { notifications: false, darkMode: true, autoSave: true, language: 'de', timezone: 'Europe/Berlin' }
+      }));
+
+      service.persist('app', config);
+      flushMicrotasks();
+
+      expect(store.selectSnapshot(selectLocale)).toEqual({ language: 'de', timezone: 'Europe/Berlin' });
+      expect(store.selectSnapshot(selectSidebarCollapsed)).toBeTrue();
+    }));
+
+    it('should keep the stored locale when the settings were already upgraded', fakeAsync(() => {
+      backend.items.set('app_state', JSON.stringify({ version: 1, state: { locale: { language: 'fr', timezone: 'Europe/Paris' } } }));
+      localStorage.setItem('app_settings', JSON.stringify({ version: 2, state: { language: 'de', timezone: 'Europe/Berlin' } }));
+
+      service.persist('app', config);
+      flushMicrotasks();
+
+      expect(store.selectSnapshot(selectLocale)).toEqual({ language: 'fr', timezone: 'Europe/Paris' });
+    }));
+  });
+
+  it('should start from the defaults when the stored value is corrupted', fakeAsync(() => {
+    backend.items.set('app_state', '{not json');
+
+    service.persist('app', config);
+    flushMicrotasks();
+
+    expect(store.selectSnapshot(selectSidebarCollapsed)).toBeFalse();
+  }));
+});
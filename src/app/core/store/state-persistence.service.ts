@@ -0,0 +1,98 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
+import { AppState, Store, hydrateSlice } from './store';
+import { PersistConfig, deepMerge, restorePersistedState, serializePersistedState } from './persistence';
+import { IndexedDbBackend, StorageBackend, WebStorageBackend } from './storage-backend';
+import { StorageSyncService } from '../services/storage-sync.service';
+import { LoggerService } from '../services/logger.service';
+
+/**
+ * StatePersistenceService - Saves store slices and restores them on startup
+ *
+ * A persisted slice is stored as `{ version, state }`. On hydration the
+ * stored state is migrated to the current version and deep-merged into the
+ * slice's initial state. Values that can't be read (corrupted JSON, unknown
+ * version, failed migration) are discarded with a warning instead of
+ * breaking startup. Slices in localStorage also follow changes from other tabs.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatePersistenceService implements OnDestroy {
+  private persistedKeys = new Set<string>();
+  private subscriptions = new Subscription();
+  private indexedDb?: IndexedDbBackend;
+
+  constructor(
+    private store: Store,
+    private storageSync: StorageSyncService,
+    private logger: LoggerService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * Restore a registered slice, then save it whenever it changes.
+   * Resolves once the stored state (if any) is in the store.
+   */
+  async persist<K extends keyof AppState & string>(sliceKey: K, config: PersistConfig<AppState[K]>): Promise<void> {
+    if (this.persistedKeys.has(sliceKey)) {
+      return;
+    }
+    this.persistedKeys.add(sliceKey);
+
+    const backend = this.getBackend(config.backend);
+    // Last value read or written, so that restoring doesn't write the same value back
+    let lastSerialized: string | null = null;
+
+    const hydrate = async (): Promise<void> => {
+      try {
+        lastSerialized = await backend.getItem(config.key);
+        const stored = restorePersistedState(lastSerialized, config);
+        if (stored !== undefined) {
+          const current = this.store.selectSnapshot(state => state[sliceKey]);
+          this.store.dispatch(hydrateSlice({ key: sliceKey, state: deepMerge(current, stored) }));
+        }
+      } catch (error) {
+        this.logger.warn(`Discarding persisted state for "${sliceKey}"`, error);
+      }
+    };
+
+    await hydrate();
+
+    this.subscriptions.add(
+      this.store.select(state => state[sliceKey]).pipe(skip(1)).subscribe(slice => {
+        const serialized = serializePersistedState(config.pick ? config.pick(slice) : slice, config.version);
+        if (serialized === lastSerialized) {
+          return;
+        }
+
+        lastSerialized = serialized;
+        backend.setItem(config.key, serialized).catch(error => {
+          this.logger.warn(`Failed to persist state for "${sliceKey}"`, error);
+        });
+      })
+    );
+
+    if ((config.backend ?? 'local') === 'local') {
+      this.subscriptions.add(this.storageSync.changes(config.key).subscribe(() => hydrate()));
+    }
+  }
+
+  private getBackend(backend: PersistConfig<unknown>['backend']): StorageBackend {
+    switch (backend ?? 'local') {
+      case 'local':
+        return new WebStorageBackend(localStorage);
+      case 'session':
+        return new WebStorageBackend(sessionStorage);
+      case 'indexedDb':
+        this.indexedDb = this.indexedDb ?? new IndexedDbBackend();
+        return this.indexedDb;
+      default:
+        return backend as StorageBackend;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Where persisted state slices are stored. Async so that IndexedDB fits the same API.
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export type StorageBackendType = 'local' | 'session' | 'indexedDb';
+
+/**
+ * localStorage / sessionStorage
+ */
+export class WebStorageBackend implements StorageBackend {
+  constructor(private storage: Storage) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Key/value object store in IndexedDB - for slices too large for localStorage
+ */
+export class IndexedDbBackend implements StorageBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'app_state',
+    private storeName = 'slices'
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,41 @@
+import { ENVIRONMENT_INITIALIZER, ModuleWithProviders, NgModule, Type, inject } from '@angular/core';
+import { AppState, Store } from './store';
+import { Reducer } from './reducer';
+import { PersistConfig } from './persistence';
+import { StatePersistenceService } from './state-persistence.service';
+
+@NgModule({})
+export class StoreModule {
+  /**
+   * Register a feature slice and its effects when the (lazily loaded) module is created:
+   *
+   *   imports: [StoreModule.forFeature('settings', settingsReducer, [SettingsEffects], SETTINGS_PERSIST_CONFIG)]
+   *
+   * With a persist config the slice is restored from storage and saved on every change.
+   */
+  static forFeature<K extends keyof AppState & string>(
+    key: K,
+    reducer: Reducer<AppState[K]>,
+    effects: Type<object>[] = [],
+    persist?: PersistConfig<AppState[K]>
+  ): ModuleWithProviders<StoreModule> {
+    return {
+      ngModule: StoreModule,
+      providers: [
+        ...effects,
+        {
+          provide: ENVIRONMENT_INITIALIZER,
+          multi: true,
+          useValue: () => {
+            const store = inject(Store);
+            store.addFeature(key, reducer);
+            if (persist) {
+              inject(StatePersistenceService).persist(key, persist);
+            }
+            effects.forEach(effectClass => store.addEffects(inject(effectClass)));
+          }
+        }
+      ]
+    };
+  }
+}
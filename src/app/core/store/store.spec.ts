@@ -0,0 +1,227 @@
+import { TestBed } from '@angular/core/testing';
+import { Injectable } from '@angular/core';
+import { defer } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Store } from './store';
+import { createAction, props } from './action';
+import { createReducer, on } from './reducer';
+import { createFeatureSelector, createSelector } from './selector';
+import { createEffect, ofType } from './effect';
+import { AppActions, selectSelectedUserId } from './app.state';
+import { DevtoolsMessage } from './devtools';
+import { LoggerService } from '../services/logger.service';
+import { MockStore, provideMockStore } from './testing/mock-store';
+
+interface CounterState {
+  count: number;
+  label: string;
+}
+
+declare module './store' {
+  interface AppState {
+    counter: CounterState;
+  }
+}
+
+const increment = createAction('[Counter] Increment');
+const add = createAction('[Counter] Add', props<{ amount: number }>());
+const reset = createAction('[Counter] Reset');
+
+const counterReducer = createReducer<CounterState>(
+  { count: 0, label: 'counter' },
+  on(increment, state => ({ ...state, count: state.count + 1 })),
+  on(add, (state, { amount }) => ({ ...state, count: state.count + amount })),
+  on(reset, state => ({ ...state, count: 0 }))
+);
+
+const selectCounter = createFeatureSelector('counter');
+const selectCount = createSelector(selectCounter, state => state.count);
+
+@Injectable()
+class CounterEffects {
+  // Every "add" of a negative amount resets the counter
+  resetOnNegative$ = createEffect(() => this.store.actions$.pipe(
+    ofType(add),
+    map(action => action.amount < 0 ? reset() : { type: '[Counter] Noop' })
+  ));
+
+  constructor(private store: Store) {}
+}
+
+@Injectable()
+class FailingEffects {
+  subscriptions = 0;
+
+  fail$ = createEffect(() => defer(() => {
+    this.subscriptions++;
+    throw new Error('Boom');
+  }), { dispatch: false });
+}
+
+describe('Store', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(Store);
+  });
+
+  it('should start with the root slices', () => {
+    expect(store.selectSnapshot(selectSelectedUserId)).toBeNull();
+
+    store.dispatch(AppActions.selectUser({ userId: '42' }));
+
+    expect(store.selectSnapshot(selectSelectedUserId)).toBe('42');
+  });
+
+  it('should register feature slices with their initial state', () => {
+    store.addFeature('counter', counterReducer);
+    store.dispatch(add({ amount: 5 }));
+
+    expect(store.selectSnapshot(selectCount)).toBe(5);
+  });
+
+  it('should only emit selected values that changed', () => {
+    store.addFeature('counter', counterReducer);
+    const counts: number[] = [];
+    store.select(selectCount).subscribe(count => counts.push(count));
+
+    store.dispatch(increment());
+    store.dispatch(AppActions.setLoading({ loading: true }));
+    store.dispatch(increment());
+
+    expect(counts).toEqual([0, 1, 2]);
+  });
+
+  it('should not re-run projectors when their inputs are unchanged', () => {
+    store.addFeature('counter', counterReducer);
+    const projector = jasmine.createSpy('projector').and.callFake((state: CounterState) => state.label.toUpperCase());
+    const selectLabel = createSelector(selectCounter, projector);
+
+    store.selectSnapshot(selectLabel);
+    store.dispatch(increment());
+    store.selectSnapshot(selectLabel);
+
+    // The slice changed, but createSelector compares the projector inputs
+    expect(projector).toHaveBeenCalledTimes(2);
+
+    store.dispatch(AppActions.setLoading({ loading: true }));
+    store.selectSnapshot(selectLabel);
+
+    expect(projector).toHaveBeenCalledTimes(2);
+  });
+
+  it('should dispatch the actions emitted by effects', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [CounterEffects] });
+    store = TestBed.inject(Store);
+    store.addFeature('counter', counterReducer);
+    store.addEffects(TestBed.inject(CounterEffects));
+
+    store.dispatch(add({ amount: 3 }));
+    expect(store.selectSnapshot(selectCount)).toBe(3);
+
+    store.dispatch(add({ amount: -1 }));
+    expect(store.selectSnapshot(selectCount)).toBe(0);
+  });
+
+  it('should stop resubscribing to an effect that keeps failing', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ providers: [FailingEffects] });
+    store = TestBed.inject(Store);
+    const logError = spyOn(TestBed.inject(LoggerService), 'error');
+    const effects = TestBed.inject(FailingEffects);
+
+    store.addEffects(effects);
+
+    // The first subscription and 10 resubscriptions
+    expect(effects.subscriptions).toBe(11);
+    expect(logError).toHaveBeenCalledWith('Effect FailingEffects.fail$ stopped after 10 resubscriptions');
+  });
+
+  describe('devtools', () => {
+    let listener: (message: DevtoolsMessage) => void;
+    const connection = {
+      init: jasmine.createSpy('init'),
+      send: jasmine.createSpy('send'),
+      subscribe: (callback: (message: DevtoolsMessage) => void) => { listener = callback; }
+    };
+
+    beforeEach(() => {
+      window.__REDUX_DEVTOOLS_EXTENSION__ = { connect: () => connection };
+      TestBed.resetTestingModule();
+      store = TestBed.inject(Store);
+      store.addFeature('counter', counterReducer);
+    });
+
+    afterEach(() => delete window.__REDUX_DEVTOOLS_EXTENSION__);
+
+    it('should send every action with the resulting state', () => {
+      store.dispatch(increment());
+
+      expect(connection.send).toHaveBeenCalledWith(increment(), jasmine.objectContaining({ counter: { count: 1, label: 'counter' } }));
+    });
+
+    it('should jump to past states', () => {
+      store.dispatch(increment());
+      store.dispatch(increment());
+
+      listener({
+        type: 'DISPATCH',
+        payload: { type: 'JUMP_TO_STATE' },
+        state: JSON.stringify({ ...store.selectSnapshot(state => state), counter: { count: 1, label: 'counter' } })
+      });
+
+      expect(store.selectSnapshot(selectCount)).toBe(1);
+    });
+
+    it('should dispatch actions typed into the dispatcher', () => {
+      listener({ type: 'ACTION', payload: '{ "type": "[Counter] Increment" }' });
+
+      expect(store.selectSnapshot(selectCount)).toBe(1);
+    });
+
+    it('should ignore dispatched text that is not JSON', () => {
+      const logWarning = spyOn(TestBed.inject(LoggerService), 'warn');
+
+      expect(() => listener({ type: 'ACTION', payload: "{ type: '[Counter] Increment' }" })).not.toThrow();
+      expect(logWarning).toHaveBeenCalled();
+
+      listener({ type: 'ACTION', payload: '{ "type": "[Counter] Increment" }' });
+      expect(store.selectSnapshot(selectCount)).toBe(1);
+    });
+  });
+});
+
+describe('MockStore', () => {
+  let store: MockStore;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideMockStore({ initialState: { counter: { count: 7, label: 'mock' } } })]
+    });
+    store = TestBed.inject(MockStore);
+  });
+
+  afterEach(() => store.resetSelectors());
+
+  it('should start from the initial state', () => {
+    expect(store.selectSnapshot(selectCount)).toBe(7);
+  });
+
+  it('should override selectors', () => {
+    let count: number | undefined;
+    store.select(selectCount).subscribe(value => count = value);
+
+    store.overrideSelector(selectCount, 99);
+
+    expect(count).toBe(99);
+  });
+
+  it('should record dispatched actions without reducing them', () => {
+    store.dispatch(increment());
+
+    expect(store.dispatched).toEqual([increment()]);
+    expect(store.selectSnapshot(selectCount)).toBe(7);
+  });
+});
@@ -0,0 +1,248 @@
+import { Inject, Injectable, InjectionToken, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription } from 'rxjs';
+import { catchError, distinctUntilChanged, map } from 'rxjs/operators';
+import { Action, createAction, props } from './action';
+import { Reducer } from './reducer';
+import { Selector } from './selector';
+import { getEffects } from './effect';
+import { DevtoolsConnection, DevtoolsMessage, connectToDevtools } from './devtools';
+import { APP_CONFIG, AppConfig } from '../config/app.config';
+import { LoggerService } from '../services/logger.service';
+import { appReducer } from './app.state';
+
+/**
+ * Shape of the whole store, one property per slice
+ *
+ * Slices register their state type through declaration merging, next to
+ * their reducer:
+ *
+ *   declare module '@core/store/store' {
+ *     interface AppState {
+ *       settings: SettingsState;
+ *     }
+ *   }
+ */
+export interface AppState {}
+
+export type AppReducers = { [K in keyof AppState]?: Reducer<AppState[K]> };
+
+/**
+ * Slices that exist from the start. Lazily loaded features add theirs with StoreModule.forFeature.
+ */
+export const ROOT_REDUCERS = new InjectionToken<AppReducers>('ROOT_REDUCERS', {
+  providedIn: 'root',
+  factory: () => ({ app: appReducer })
+});
+
+// How often a failing effect is resubscribed before it is given up
+const MAX_EFFECT_RESUBSCRIPTIONS = 10;
+
+export const INIT_ACTION = '@store/init';
+export const ADD_FEATURE_ACTION = '@store/add-feature';
+
+/**
+ * Replace a whole slice, bypassing its reducer - used to restore persisted state
+ */
+export const hydrateSlice = createAction('@store/hydrate', props<{ key: string; state: unknown }>());
+
+/**
+ * Store - Single source of truth for application state
+ *
+ * State only changes by dispatching actions through the registered reducers.
+ * Components read it with `select`, side effects live in effect classes
+ * registered with `addEffects` (see StoreModule.forFeature).
+ *
+ * In development builds the store connects to the Redux DevTools extension,
+ * which supports inspecting actions and time-travel. State is serialized to
+ * JSON for the extension, so jumping to a past state turns Dates into strings.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class Store implements OnDestroy {
+  private reducers = new Map<string, Reducer<unknown>>();
+  private effectClasses = new Set<object>();
+  private effectSubscriptions = new Subscription();
+
+  private stateSubject = new BehaviorSubject<AppState>({} as AppState);
+  public state$ = this.stateSubject.asObservable();
+
+  // Emits every action after the reducers have run - the input of effects
+  protected actionsSubject = new Subject<Action>();
+  public actions$ = this.actionsSubject.asObservable();
+
+  private devtools: DevtoolsConnection | null = null;
+
+  constructor(
+    @Inject(ROOT_REDUCERS) rootReducers: AppReducers,
+    @Inject(APP_CONFIG) private config: AppConfig,
+    private logger: LoggerService,
+    private zone: NgZone
+  ) {
+    Object.entries(rootReducers).forEach(([key, reducer]) => this.reducers.set(key, reducer as Reducer<unknown>));
+    this.stateSubject.next(this.reduce({} as AppState, { type: INIT_ACTION }));
+
+    if (this.config.environment === 'development') {
+      this.connectDevtools();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.effectSubscriptions.unsubscribe();
+  }
+
+  dispatch(action: Action): void {
+    const state = this.reduce(this.stateSubject.value, action);
+    this.stateSubject.next(state);
+    this.devtools?.send(action, state);
+    this.actionsSubject.next(action);
+  }
+
+  /**
+   * Observe a slice of state; only emits when the selected value changes
+   */
+  select<R>(selector: Selector<AppState, R>): Observable<R> {
+    return this.state$.pipe(
+      map(selector),
+      distinctUntilChanged()
+    );
+  }
+
+  selectSnapshot<R>(selector: Selector<AppState, R>): R {
+    return selector(this.stateSubject.value);
+  }
+
+  /**
+   * Register a feature slice. Registering the same key again is a no-op.
+   */
+  addFeature<K extends keyof AppState & string>(key: K, reducer: Reducer<AppState[K]>): void {
+    if (this.reducers.has(key)) {
+      return;
+    }
+
+    this.reducers.set(key, reducer as Reducer<unknown>);
+    this.dispatch({ type: `${ADD_FEATURE_ACTION} ${key}` });
+  }
+
+  /**
+   * Subscribe to the effects (created with createEffect) of an instance
+   */
+  addEffects(instance: object): void {
+    if (this.effectClasses.has(instance)) {
+      return;
+    }
+    this.effectClasses.add(instance);
+
+    getEffects(instance).forEach(({ name, effect$, config }) => {
+      const effectName = `${instance.constructor.name}.${name}`;
+      let resubscriptions = 0;
+      const resilient$ = effect$.pipe(
+        // A failing effect would otherwise stop for good - log and resubscribe,
+        // unless it keeps failing, e.g. on subscribe
+        catchError((error, caught) => {
+          this.logger.error(`Effect ${effectName} failed`, error);
+          if (resubscriptions++ < MAX_EFFECT_RESUBSCRIPTIONS) {
+            return caught;
+          }
+          this.logger.error(`Effect ${effectName} stopped after ${MAX_EFFECT_RESUBSCRIPTIONS} resubscriptions`);
+          return EMPTY;
+        })
+      );
+
+      this.effectSubscriptions.add(resilient$.subscribe(output => {
+        if (config.dispatch) {
+          this.dispatch(output as Action);
+        }
+      }));
+    });
+  }
+
+  /**
+   * Replace the whole state without running reducers (time-travel, tests)
+   */
+  protected setState(state: AppState): void {
+    this.stateSubject.next(state);
+  }
+
+  protected get state(): AppState {
+    return this.stateSubject.value;
+  }
+
+  private reduce(state: AppState, action: Action): AppState {
+    const current = state as unknown as Record<string, unknown>;
+
+    if (action.type === hydrateSlice.type) {
+      const { key, state: slice } = action as ReturnType<typeof hydrateSlice>;
+      return { ...current, [key]: slice } as unknown as AppState;
+    }
+    let next: Record<string, unknown> | null = null;
+
+    this.reducers.forEach((reducer, key) => {
+      const slice = reducer(current[key], action);
+      if (slice !== current[key]) {
+        next = next ?? { ...current };
+        next[key] = slice;
+      }
+    });
+
+    // Keep the reference when nothing changed so selectors stay memoized
+    return (next ?? state) as AppState;
+  }
+
+  private connectDevtools(): void {
+    this.devtools = connectToDevtools('Enterprise Admin Workspace');
+    if (!this.devtools) {
+      return;
+    }
+
+    this.devtools.init(this.stateSubject.value);
+    this.devtools.subscribe(message => this.zone.run(() => this.onDevtoolsMessage(message)));
+  }
+
+  private onDevtoolsMessage(message: DevtoolsMessage): void {
+    // Actions typed into the extension's dispatcher
+    if (message.type === 'ACTION' && typeof message.payload === 'string') {
+      const action = parseDevtoolsAction(message.payload);
+      if (action) {
+        this.dispatch(action);
+      } else {
+        this.logger.warn(`Ignoring action from the devtools, expected JSON with a "type": ${message.payload}`);
+      }
+      return;
+    }
+
+    if (message.type !== 'DISPATCH' || typeof message.payload !== 'object') {
+      return;
+    }
+
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state) {
+          this.setState(JSON.parse(message.state));
+        }
+        break;
+      case 'ROLLBACK':
+        if (message.state) {
+          this.setState(JSON.parse(message.state));
+          this.devtools?.init(this.stateSubject.value);
+        }
+        break;
+      case 'COMMIT':
+        this.devtools?.init(this.stateSubject.value);
+        break;
+    }
+  }
+}
+
+/**
+ * The extension sends the dispatcher's text as typed, which may be a JS literal rather than JSON
+ */
+function parseDevtoolsAction(payload: string): Action | null {
+  try {
+    const action: unknown = JSON.parse(payload);
+    return typeof action === 'object' && action !== null && typeof (action as Action).type === 'string' ? action as Action : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,20 @@
+import { StorageBackend } from '../storage-backend';
+
+/**
+ * In-memory StorageBackend for unit tests
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
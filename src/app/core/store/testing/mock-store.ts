@@ -0,0 +1,85 @@
+import { Inject, Injectable, InjectionToken, NgZone, Provider } from '@angular/core';
+import { Action } from '../action';
+import { MemoizedSelector } from '../selector';
+import { AppState, Store } from '../store';
+import { APP_CONFIG, AppConfig } from '../../config/app.config';
+import { LoggerService } from '../../services/logger.service';
+
+export interface MockSelector<R = unknown> {
+  selector: MemoizedSelector<AppState, R>;
+  value: R;
+}
+
+export interface MockStoreConfig {
+  initialState?: Partial<AppState>;
+  selectors?: MockSelector[];
+}
+
+export const MOCK_STORE_CONFIG = new InjectionToken<MockStoreConfig>('MOCK_STORE_CONFIG');
+
+/**
+ * MockStore - Store for unit tests
+ *
+ * Reducers don't run: dispatched actions are recorded in `dispatched` (and
+ * still reach effects through `actions$`), and state only changes through
+ * `setState`. Selectors can be pinned to a value with `overrideSelector`.
+ * Selectors are module-level singletons, so call `resetSelectors()` in afterEach.
+ */
+@Injectable()
+export class MockStore extends Store {
+  dispatched: Action[] = [];
+
+  private overriddenSelectors = new Set<MemoizedSelector<AppState, unknown>>();
+
+  constructor(
+    @Inject(MOCK_STORE_CONFIG) mockConfig: MockStoreConfig,
+    @Inject(APP_CONFIG) config: AppConfig,
+    logger: LoggerService,
+    zone: NgZone
+  ) {
+    super({}, { ...config, environment: 'production' }, logger, zone);
+    this.setState((mockConfig.initialState ?? {}) as AppState);
+    mockConfig.selectors?.forEach(({ selector, value }) => this.overrideSelector(selector, value));
+  }
+
+  override dispatch(action: Action): void {
+    this.dispatched.push(action);
+    this.actionsSubject.next(action);
+  }
+
+  override setState(state: AppState): void {
+    super.setState(state);
+  }
+
+  overrideSelector<R>(selector: MemoizedSelector<AppState, R>, value: R): void {
+    selector.setResult(value);
+    this.overriddenSelectors.add(selector);
+    this.refreshState();
+  }
+
+  resetSelectors(): void {
+    this.overriddenSelectors.forEach(selector => {
+      selector.clearResult();
+      selector.release();
+    });
+    this.overriddenSelectors.clear();
+  }
+
+  /**
+   * Make subscribers re-run their selectors, e.g. after changing an override
+   */
+  refreshState(): void {
+    super.setState({ ...this.state });
+  }
+}
+
+/**
+ * Providers for a MockStore, injectable both as Store and MockStore
+ */
+export function provideMockStore(config: MockStoreConfig = {}): Provider[] {
+  return [
+    { provide: MOCK_STORE_CONFIG, useValue: config },
+    MockStore,
+    { provide: Store, useExisting: MockStore }
+  ];
+}
@@ -0,0 +1,38 @@
+import { parseCsv, toCsv } from './csv.util';
+
+describe('toCsv', () => {
+  it('should quote fields with separators, quotes or line breaks', () => {
+    expect(toCsv([
+      ['Name', 'Note'],
+      ['Doe, John', 'Said "hi"'],
+      ['Jane', 'Line 1\nLine 2']
+    ])).toBe('Name,Note\r\n"Doe, John","Said ""hi"""\r\nJane,"Line 1\nLine 2"');
+  });
+
+  it('should write empty values as empty fields and dates as ISO strings', () => {
+    expect(toCsv([[null, undefined, new Date(Date.UTC(2024, 0, 2)), 3]]))
+      .toBe(',,2024-01-02T00:00:00.000Z,3');
+  });
+
+  it('should escape text that a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tx', 'a=b', -1]]))
+      .toBe("'=SUM(A1:A2),'+1,'-1,'@cmd,'\tx,a=b,-1");
+  });
+});
+
+describe('parseCsv', () => {
+  it('should read quoted fields with separators, quotes and line breaks', () => {
+    expect(parseCsv('Name,Note\r\n"Doe, John","Said ""hi"""\r\nJane,"Line 1\nLine 2"\r\n'))
+      .toEqual([['Name', 'Note'], ['Doe, John', 'Said "hi"'], ['Jane', 'Line 1\nLine 2']]);
+  });
+
+  it('should detect semicolons, skip a BOM and ignore blank lines', () => {
+    expect(parseCsv('\uFEFFname;email\n\nJane;jane@example.com\n'))
+      .toEqual([['name', 'email'], ['Jane', 'jane@example.com']]);
+  });
+
+  it('should read back what toCsv writes', () => {
+    const rows = [['a', 'b,c'], ['"quoted"', ''], ['multi\r\nline', 'x']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * CSV helpers (RFC 4180): CRLF line endings, and fields containing commas,
+ * quotes or line breaks are quoted with inner quotes doubled. Strings that a
+ * spreadsheet would run as a formula are escaped with escapeFormula.
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+export function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : value instanceof Date ? value.toISOString()
+    : typeof value === 'string' ? escapeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prefix text starting with a formula character (=, +, -, @, tab or CR) with
+ * an apostrophe, so spreadsheets show it as text instead of running it
+ * ("CSV injection"). Only for strings: negative numbers must stay numbers.
+ */
+export function escapeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Split CSV text into rows of fields. Accepts CRLF or LF line endings and a
+ * leading BOM. The delimiter defaults to whichever of `,` and `;` is more
+ * common in the first line - spreadsheets in some locales export with `;`.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+function detectDelimiter(text: string): ',' | ';' {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
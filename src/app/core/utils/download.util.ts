@@ -0,0 +1,12 @@
+/**
+ * Save generated content as a file through a temporary object URL
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick: some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,48 @@
+/**
+ * JWT helpers - decode tokens on the client without verifying them
+ *
+ * Signature verification is the server's job; the client only needs the
+ * claims (e.g. expiry) to manage the session lifecycle.
+ */
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export function decodeJwt(token: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(base64UrlDecode(parts[1]));
+    return payload && typeof payload === 'object' ? payload as JwtPayload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the token expiry as a Date, or null when the token has no `exp` claim
+ */
+export function getTokenExpiry(token: string): Date | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? new Date(exp * 1000) : null;
+}
+
+export function base64UrlEncode(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,26 @@
+import { PageQuery } from '../models/common.model';
+import { fromPageQueryParams, toPageQueryParams } from './page-query.util';
+
+describe('page-query utils', () => {
+  const defaults: PageQuery = { page: 1, pageSize: 10, sort: [], filter: {} };
+
+  it('should flatten a query and skip empty filters', () => {
+    expect(toPageQueryParams({
+      page: 2,
+      pageSize: 20,
+      sort: [{ field: 'name', direction: 'asc' }, { field: 'email', direction: 'desc' }],
+      filter: { role: 'Admin', search: '' }
+    })).toEqual({ page: '2', pageSize: '20', sort: 'name:asc,email:desc', role: 'Admin' });
+  });
+
+  it('should read back what it wrote', () => {
+    const query: PageQuery = { page: 3, pageSize: 25, sort: [{ field: 'role', direction: 'desc' }], filter: { status: 'active' } };
+
+    expect(fromPageQueryParams(toPageQueryParams(query), defaults, ['status'])).toEqual(query);
+  });
+
+  it('should fall back to the defaults for missing or invalid values', () => {
+    expect(fromPageQueryParams({ page: '0', pageSize: 'ten', sort: 'name:up,email', other: 'x' }, defaults, ['role']))
+      .toEqual(defaults);
+  });
+});
@@ -0,0 +1,65 @@
+import { PageQuery, SortSpec } from '../models/common.model';
+
+/**
+ * PageQuery <-> flat string params, shared by API requests and URL query strings:
+ *
+ *   { page: 2, pageSize: 20, sort: [{ field: 'name', direction: 'asc' }], filter: { role: 'Admin' } }
+ *   <-> page=2&pageSize=20&sort=name:asc&role=Admin
+ *
+ * Filters are top-level params, so filter keys must not be page, pageSize or sort.
+ */
+export function toPageQueryParams(query: PageQuery): Record<string, string> {
+  const params: Record<string, string> = {
+    page: String(query.page),
+    pageSize: String(query.pageSize)
+  };
+
+  if (query.sort.length > 0) {
+    params['sort'] = query.sort.map(sort => `${sort.field}:${sort.direction}`).join(',');
+  }
+
+  Object.entries(query.filter).forEach(([key, value]) => {
+    if (value !== '') {
+      params[key] = value;
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Read a PageQuery from params, falling back to `defaults` for missing or invalid values.
+ * Only `filterKeys` are read as filters; other params are ignored.
+ */
+export function fromPageQueryParams(
+  params: Record<string, string | undefined>,
+  defaults: PageQuery,
+  filterKeys: string[]
+): PageQuery {
+  const filter: Record<string, string> = {};
+  filterKeys.forEach(key => {
+    const value = params[key] ?? defaults.filter[key];
+    if (value) {
+      filter[key] = value;
+    }
+  });
+
+  return {
+    page: toPositiveInt(params['page']) ?? defaults.page,
+    pageSize: toPositiveInt(params['pageSize']) ?? defaults.pageSize,
+    sort: params['sort'] !== undefined ? parseSort(params['sort']) : defaults.sort,
+    filter
+  };
+}
+
+function parseSort(value: string): SortSpec[] {
+  return value.split(',')
+    .map(part => part.split(':'))
+    .filter(([field, direction]) => field && (direction === 'asc' || direction === 'desc'))
+    .map(([field, direction]) => ({ field, direction: direction as SortSpec['direction'] }));
+}
+
+function toPositiveInt(value: string | undefined): number | null {
+  const number = Number(value);
+  return value !== undefined && Number.isInteger(number) && number > 0 ? number : null;
+}
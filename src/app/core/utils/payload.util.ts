@@ -0,0 +1,68 @@
+import { InvalidResponseError } from '../errors/app-error';
+
+/**
+ * Readers that check API payloads at runtime
+ *
+ * Each takes the value (or the object and key) to read and its path in the
+ * payload, e.g. "users[2].email", and throws an InvalidResponseError naming
+ * that path when the value has the wrong type.
+ */
+export type PayloadObject = Record<string, unknown>;
+
+export function invalidPayload(path: string, expected: string): InvalidResponseError {
+  return new InvalidResponseError('The server sent an unexpected response.', {
+    cause: `${path}: expected ${expected}`
+  });
+}
+
+export function readObject(value: unknown, path: string): PayloadObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidPayload(path, 'an object');
+  }
+  return value as PayloadObject;
+}
+
+export function readArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw invalidPayload(path, 'an array');
+  }
+  return value;
+}
+
+export function readString(object: PayloadObject, key: string, path: string): string {
+  const value = object[key];
+  if (typeof value !== 'string') {
+    throw invalidPayload(`${path}.${key}`, 'a string');
+  }
+  return value;
+}
+
+/**
+ * Like readString, but a missing or null value gives undefined
+ */
+export function readOptionalString(object: PayloadObject, key: string, path: string): string | undefined {
+  return object[key] === undefined || object[key] === null ? undefined : readString(object, key, path);
+}
+
+/**
+ * A date sent as an ISO 8601 string
+ */
+export function readDate(object: PayloadObject, key: string, path: string): Date {
+  const date = new Date(readString(object, key, path));
+  if (Number.isNaN(date.getTime())) {
+    throw invalidPayload(`${path}.${key}`, 'an ISO 8601 date');
+  }
+  return date;
+}
+
+export function readOptionalDate(object: PayloadObject, key: string, path: string): Date | undefined {
+  return object[key] === undefined || object[key] === null ? undefined : readDate(object, key, path);
+}
+
+export function readOneOf<T extends string>(object: PayloadObject, key: string, path: string, options: readonly T[]): T {
+  const value = readString(object, key, path);
+  if (!options.includes(value as T)) {
+    throw invalidPayload(`${path}.${key}`, `one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
@@ -0,0 +1,103 @@
+import { readXlsx, writeXlsx } from './xlsx.util';
+
+/**
+ * A zip archive with uncompressed entries (the CRC isn't checked when reading)
+ */
+function createZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const directory: number[] = [];
+  const u16 = (value: number) => [value & 0xFF, value >> 8 & 0xFF];
+  const u32 = (value: number) => [...u16(value & 0xFFFF), ...u16(value >>> 16)];
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = [...encoder.encode(name)];
+    const data = [...encoder.encode(content)];
+    const offset = local.length;
+    const sizes = [...u32(0), ...u32(data.length), ...u32(data.length)];
+
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(0), ...u32(0), ...sizes,
+      ...u16(nameBytes.length), ...u16(0), ...nameBytes, ...data);
+    directory.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(0), ...u32(0), ...sizes,
+      ...u16(nameBytes.length), ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...nameBytes);
+  });
+
+  const count = Object.keys(files).length;
+  const end = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(count), ...u16(count),
+    ...u32(directory.length), ...u32(local.length), ...u16(0)];
+  return new Uint8Array([...local, ...directory, ...end]).buffer;
+}
+
+describe('readXlsx', () => {
+  it('should read shared, inline and numeric cells of the first sheet', async () => {
+    const workbook = createZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Users" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/users.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Name</t></si><si><r><t>Tom &amp; </t></r><r><t>Jerry</t></r></si></sst>',
+      'xl/worksheets/users.xml': '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Age</t></is></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3"><v>42</v></c></row>' +
+        '</sheetData></worksheet>'
+    });
+
+    expect(await readXlsx(workbook)).toEqual([
+      ['Name', '', 'Age'],
+      ['Tom & Jerry', '', '42']
+    ]);
+  });
+
+  it('should read elements with namespace prefixes and attributes', async () => {
+    const workbook = createZip({
+      'xl/workbook.xml': '<x:workbook xmlns:x="urn:main"><x:sheets><x:sheet name="Users" r:id="rId1"/></x:sheets></x:workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Target="worksheets/users.xml" Id="rId1"/></Relationships>',
+      'xl/sharedStrings.xml': '<x:sst xmlns:x="urn:main" count="2">' +
+        '<x:si><x:t>Name</x:t></x:si>' +
+        '<si xml:lang="en"><r><rPr><b/></rPr><t xml:space="preserve">Ann </t></r><r><t>Smith</t></r></si>' +
+        '</x:sst>',
+      'xl/worksheets/users.xml': '<x:worksheet xmlns:x="urn:main"><x:sheetData>' +
+        '<x:row r="1" spans="1:2"><x:c r="A1" t="s"><x:v>0</x:v></x:c><x:c r=\'B1\' t=\'inlineStr\'><x:is><x:t>Age</x:t></x:is></x:c></x:row>' +
+        '<x:row r="2"><x:c r="A2" s="1" t="s"><x:v>1</x:v></x:c><x:c r="B2" s="2"><x:v>42</x:v></x:c></x:row>' +
+        '</x:sheetData></x:worksheet>'
+    });
+
+    expect(await readXlsx(workbook)).toEqual([
+      ['Name', 'Age'],
+      ['Ann Smith', '42']
+    ]);
+  });
+
+  it('should leave out phonetic readings', async () => {
+    const workbook = createZip({
+      'xl/sharedStrings.xml': '<sst><si><t>東京</t><rPh sb="0" eb="2"><t>トウキョウ</t></rPh><phoneticPr fontId="1"/></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c></row></sheetData></worksheet>'
+    });
+
+    expect(await readXlsx(workbook)).toEqual([['東京']]);
+  });
+
+  it('should reject data that is not a workbook', async () => {
+    await expectAsync(readXlsx(new TextEncoder().encode('name,email').buffer)).toBeRejectedWithError(/not a valid XLSX/);
+  });
+});
+
+describe('writeXlsx', () => {
+  it('should write a workbook that reads back with the same values', async () => {
+    const workbook = writeXlsx([
+      ['Name', 'Visits', 'Active', 'Note'],
+      ['Tom & "Jerry"', 12.5, true, null],
+      ['<script>', 0, false, 'two\nlines']
+    ], 'Users');
+
+    expect(await readXlsx(workbook.buffer)).toEqual([
+      ['Name', 'Visits', 'Active', 'Note'],
+      ['Tom & "Jerry"', '12.5', 'TRUE'],
+      ['<script>', '0', 'FALSE', 'two\nlines']
+    ]);
+  });
+
+  it('should escape text that a spreadsheet would run as a formula', async () => {
+    const workbook = writeXlsx([['=HYPERLINK("http://example.com")', '@SUM(1)', -3]], 'Users');
+
+    expect(await readXlsx(workbook.buffer)).toEqual([["'=HYPERLINK(\"http://example.com\")", "'@SUM(1)", '-3']]);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * XLSX helpers - just enough of the format for importing and exporting plain tables
+ *
+ * An .xlsx file is a zip archive of XML parts. Only cell values are read;
+ * formatting is ignored, so dates come back as spreadsheet serial numbers.
+ * Written workbooks have one unformatted sheet in an uncompressed archive.
+ * Works in web workers as well as on the main thread.
+ */
+
+import { escapeFormula } from './csv.util';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+// 1980-01-01, the earliest date a zip entry can have
+const ZIP_DOS_DATE = (1 << 5) | 1;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+// Some writers qualify every element, e.g. <x:row> with xmlns:x on the root
+const NS_PREFIX = '(?:[A-Za-z_][\\w.-]*:)?';
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+interface ZipEntry {
+  compression: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * The cell values of the first worksheet, as rows of strings.
+ * Rejects with an Error when the data isn't a readable XLSX file.
+ */
+export async function readXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipDirectory(data);
+  const readText = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    return entry ? new TextDecoder().decode(await readZipEntry(data, entry)) : null;
+  };
+
+  const sheetPath = await findFirstSheet(readText);
+  const sheet = await readText(sheetPath);
+  if (sheet === null) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStrings = parseSharedStrings(await readText('xl/sharedStrings.xml') ?? '');
+  return parseSheet(sheet, sharedStrings);
+}
+
+/**
+ * A workbook with a single sheet holding `rows`. Numbers and booleans are
+ * written as such, anything else as text; null and undefined leave the cell empty.
+ */
+export function writeXlsx(rows: XlsxCell[][], sheetName = 'Sheet1'): Uint8Array {
+  const sheetData = rows.map((row, rowIndex) => {
+    const cells = row.map((value, column) => writeCell(`${columnName(column)}${rowIndex + 1}`, value)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  // Excel rejects sheet names over 31 characters or with any of []:*?/\
+  const name = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Sheet1';
+
+  return writeZip([
+    ['[Content_Types].xml', XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'],
+    ['_rels/.rels', XML_DECLARATION +
+      `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'],
+    ['xl/workbook.xml', XML_DECLARATION +
+      `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_RELATIONSHIP}">` +
+      `<sheets><sheet name="${encodeXml(name)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'],
+    ['xl/_rels/workbook.xml.rels', XML_DECLARATION +
+      `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>'],
+    ['xl/worksheets/sheet1.xml', XML_DECLARATION +
+      `<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetData}</sheetData></worksheet>`]
+  ]);
+}
+
+/**
+ * Zero-based column index of a cell reference, e.g. "C12" -> 2
+ */
+function columnIndex(cellRef: string): number {
+  const letters = /^[A-Z]+/i.exec(cellRef)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Column letters of a zero-based index, e.g. 2 -> "C", 27 -> "AB"
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+function writeCell(ref: string, value: XlsxCell): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  // Inline strings aren't evaluated, but the text turns into a formula once the cell is edited
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(escapeFormula(String(value)))}</t></is></c>`;
+}
+
+async function findFirstSheet(readText: (path: string) => Promise<string | null>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = await readText('xl/workbook.xml');
+  const relations = await readText('xl/_rels/workbook.xml.rels');
+  const relationId = workbook && new RegExp(`<${NS_PREFIX}sheet\\b[^>]*\\br:id="([^"]+)"`).exec(workbook)?.[1];
+  if (!relationId || !relations) {
+    return fallback;
+  }
+
+  const relation = [...relations.matchAll(new RegExp(`<${NS_PREFIX}Relationship\\b[^>]*>`, 'g'))]
+    .map(match => match[0])
+    .find(tag => getAttribute(tag, 'Id') === relationId);
+  const target = relation ? getAttribute(relation, 'Target') : null;
+  if (!target) {
+    return fallback;
+  }
+  // Targets are relative to xl/ unless absolute
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  // Rich text splits a string into several <t> runs
+  return [...xml.matchAll(elementPattern('si'))].map(match => readTextRuns(match[3] ?? ''));
+}
+
+function parseSheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(elementPattern('row'))) {
+    const rowNumber = Number(getAttribute(rowMatch[2], 'r')) || rows.length + 1;
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[3] ?? '').matchAll(elementPattern('c'))) {
+      const attributes = cellMatch[2];
+      const content = cellMatch[3] ?? '';
+      const ref = getAttribute(attributes, 'r');
+      const value = readCellValue(getAttribute(attributes, 't'), content, sharedStrings);
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+
+    // Rows may skip empty cells and empty rows; fill the gaps so columns line up
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []).filter(row => row.some(cell => cell !== ''));
+}
+
+function readCellValue(type: string | null, content: string, sharedStrings: string[]): string {
+  const value = decodeXml(elementPattern('v', '').exec(content)?.[3] ?? '');
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return readTextRuns(content);
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+function readTextRuns(xml: string): string {
+  // Phonetic runs (<rPh>, e.g. furigana) hold a reading of the text, not part of it
+  return [...xml.replace(elementPattern('rPh'), '').matchAll(elementPattern('t'))]
+    .map(match => decodeXml(match[3] ?? ''))
+    .join('');
+}
+
+/**
+ * An element with any namespace prefix and attributes, either self-closing or
+ * with content. Groups: 1 the qualified name, 2 the attributes, 3 the content.
+ * Elements of the same name must not nest.
+ */
+function elementPattern(name: string, flags = 'g'): RegExp {
+  return new RegExp(`<(${NS_PREFIX}${name})(\\s[^>]*?)?(?:\\/>|>([\\s\\S]*?)<\\/\\1\\s*>)`, flags);
+}
+
+function getAttribute(tag: string | undefined, name: string): string | null {
+  return new RegExp(`(?:^|\\s)${name}\\s*=\\s*(["'])(.*?)\\1`).exec(tag ?? '')?.[2] ?? null;
+}
+
+function encodeXml(text: string): string {
+  return text
+    // Control characters other than tab and line breaks aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+    }
+    const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+  });
+}
+
+function readZipDirectory(data: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(data);
+
+  // The end-of-directory record is at the end, followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let offset = data.byteLength - 22; offset >= Math.max(0, data.byteLength - 22 - 0xFFFF); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) {
+      throw new Error('The file is not a valid XLSX workbook');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = new TextDecoder().decode(new Uint8Array(data, offset + 46, nameLength));
+
+    entries.set(name, {
+      compression: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(data: ArrayBuffer, entry: ZipEntry): Promise<ArrayBuffer> {
+  const view = new DataView(data);
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const bytes = data.slice(start, start + entry.compressedSize);
+
+  switch (entry.compression) {
+    case ZIP_STORED:
+      return bytes;
+    case ZIP_DEFLATED:
+      return new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).arrayBuffer();
+    default:
+      throw new Error('The workbook uses an unsupported compression method');
+  }
+}
+
+/**
+ * An uncompressed zip archive of text files
+ */
+function writeZip(files: Array<[path: string, content: string]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = files.map(([path, content]) => ({ name: encoder.encode(path), data: encoder.encode(content) }));
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const directorySize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const archive = new Uint8Array(localSize + directorySize + 22);
+  const view = new DataView(archive.buffer);
+
+  let offset = 0;
+  let directoryOffset = localSize;
+  for (const { name, data } of entries) {
+    const crc = crc32(data);
+
+    // Local file header, then the data
+    view.setUint32(offset, ZIP_LOCAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 8, ZIP_STORED, true);
+    view.setUint16(offset + 12, ZIP_DOS_DATE, true);
+    view.setUint32(offset + 14, crc, true);
+    view.setUint32(offset + 18, data.length, true);
+    view.setUint32(offset + 22, data.length, true);
+    view.setUint16(offset + 26, name.length, true);
+    archive.set(name, offset + 30);
+    archive.set(data, offset + 30 + name.length);
+
+    // Central directory entry pointing at it
+    view.setUint32(directoryOffset, ZIP_DIRECTORY_ENTRY, true);
+    view.setUint16(directoryOffset + 4, 20, true);
+    view.setUint16(directoryOffset + 6, 20, true);
+    view.setUint16(directoryOffset + 10, ZIP_STORED, true);
+    view.setUint16(directoryOffset + 14, ZIP_DOS_DATE, true);
+    view.setUint32(directoryOffset + 16, crc, true);
+    view.setUint32(directoryOffset + 20, data.length, true);
+    view.setUint32(directoryOffset + 24, data.length, true);
+    view.setUint16(directoryOffset + 28, name.length, true);
+    view.setUint32(directoryOffset + 42, offset, true);
+    archive.set(name, directoryOffset + 46);
+
+    offset += 30 + name.length + data.length;
+    directoryOffset += 46 + name.length;
+  }
+
+  view.setUint32(directoryOffset, ZIP_END_OF_DIRECTORY, true);
+  view.setUint16(directoryOffset + 8, entries.length, true);
+  view.setUint16(directoryOffset + 10, entries.length, true);
+  view.setUint32(directoryOffset + 12, directorySize, true);
+  view.setUint32(directoryOffset + 16, localSize, true);
+
+  return archive;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c;
+  });
+
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
@@ -1,4 +1,5 @@
 import { NgModule } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { SharedModule } from '@shared/shared.module';
 import { AnalyticsRoutingModule } from './analytics-routing.module';
 import { AnalyticsDashboardComponent } from './components/analytics-dashboard/analytics-dashboard.component';
@@ -9,6 +10,7 @@ import { AnalyticsService } from './services/analytics.service';
     AnalyticsDashboardComponent
   ],
   imports: [
+    FormsModule,
     SharedModule,
     AnalyticsRoutingModule
   ],
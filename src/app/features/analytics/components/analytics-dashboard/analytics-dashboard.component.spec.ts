@@ -1,7 +1,9 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
 import { AnalyticsDashboardComponent } from './analytics-dashboard.component';
 import { AnalyticsService } from '../../services/analytics.service';
 import { SharedModule } from '@shared/shared.module';
+import { ExportService } from '@core/services/export.service';
 import { of } from 'rxjs';
 import { AnalyticsData } from '../../models/analytics.model';
 
@@ -9,6 +11,7 @@ describe('AnalyticsDashboardComponent', () => {
   let component: AnalyticsDashboardComponent;
   let fixture: ComponentFixture<AnalyticsDashboardComponent>;
   let analyticsService: jasmine.SpyObj<AnalyticsService>;
+  let exportService: jasmine.SpyObj<ExportService>;
 
   const mockAnalyticsData: AnalyticsData = {
     metrics: [
@@ -36,18 +39,27 @@ describe('AnalyticsDashboardComponent', () => {
   };
 
   beforeEach(async () => {
-    const analyticsSpy = jasmine.createSpyObj('AnalyticsService', ['getAnalyticsData']);
+    const analyticsSpy = jasmine.createSpyObj('AnalyticsService', ['getAnalyticsData', 'getActivity', 'getAllActivity']);
+    const exportSpy = jasmine.createSpyObj('ExportService', ['export']);
 
     await TestBed.configureTestingModule({
       declarations: [AnalyticsDashboardComponent],
-      imports: [SharedModule],
+      imports: [FormsModule, SharedModule],
       providers: [
-        { provide: AnalyticsService, useValue: analyticsSpy }
+        { provide: AnalyticsService, useValue: analyticsSpy },
+        { provide: ExportService, useValue: exportSpy }
       ]
     }).compileComponents();
 
     analyticsService = TestBed.inject(AnalyticsService) as jasmine.SpyObj<AnalyticsService>;
+    exportService = TestBed.inject(ExportService) as jasmine.SpyObj<ExportService>;
     analyticsService.getAnalyticsData.and.returnValue(of(mockAnalyticsData));
+    analyticsService.getActivity.and.returnValue(of({
+      items: mockAnalyticsData.recentActivity,
+      total: 1,
+      page: 1,
+      pageSize: 20
+    }));
 
     fixture = TestBed.createComponent(AnalyticsDashboardComponent);
     component = fixture.componentInstance;
@@ -65,6 +77,36 @@ describe('AnalyticsDashboardComponent', () => {
     expect(component.loading).toBeFalsy();
   });
 
+  it('should load the first page of the activity feed on init', () => {
+    fixture.detectChanges();
+
+    expect(analyticsService.getActivity).toHaveBeenCalledWith(1, 20);
+    expect(component.activities).toEqual(mockAnalyticsData.recentActivity);
+    expect(component.hasMoreActivity).toBeFalse();
+  });
+
+  it('should export the chosen data set', () => {
+    fixture.detectChanges();
+    component.exportDataset = 'chart';
+
+    component.onExport('csv');
+
+    const request = exportService.export.calls.mostRecent().args[0];
+    expect(request.format).toBe('csv');
+    expect(request.rows).toEqual(mockAnalyticsData.chartData);
+  });
+
+  it('should export the whole activity feed', () => {
+    analyticsService.getAllActivity.and.returnValue(of(mockAnalyticsData.recentActivity));
+    fixture.detectChanges();
+    component.exportDataset = 'activity';
+
+    component.onExport('xlsx');
+
+    expect(analyticsService.getAllActivity).toHaveBeenCalled();
+    expect(exportService.export.calls.mostRecent().args[0].rows).toEqual(mockAnalyticsData.recentActivity);
+  });
+
   it('should format revenue values with dollar sign', () => {
     const formatted = component.formatValue(1000, 'Revenue');
     expect(formatted).toBe('$1,000');
@@ -1,6 +1,13 @@
 import { Component, OnInit } from '@angular/core';
+import { ScrollPositionService } from '@core/services/scroll-position.service';
+import { ExportService } from '@core/services/export.service';
+import { ExportFormat } from '@core/models/export.model';
 import { AnalyticsService } from '../../services/analytics.service';
-import { AnalyticsData, Metric, Activity } from '../../models/analytics.model';
+import { AnalyticsData, ChartDataPoint, Metric, Activity } from '../../models/analytics.model';
+
+const ACTIVITY_PAGE_SIZE = 20;
+
+type ExportDataset = 'metrics' | 'chart' | 'activity';
 
 @Component({
   selector: 'app-analytics-dashboard',
@@ -10,12 +17,37 @@ import { AnalyticsData, Metric, Activity } from '../../models/analytics.model';
 export class AnalyticsDashboardComponent implements OnInit {
   analyticsData: AnalyticsData | null = null;
   loading = true;
+  activities: Activity[] = [];
+  activityTotal = 0;
+  loadingActivity = false;
+  activityListKey = 'analytics-activity';
+  exportDatasets: Array<{ value: ExportDataset; label: string }> = [
+    { value: 'metrics', label: 'Metrics' },
+    { value: 'chart', label: 'Monthly performance' },
+    { value: 'activity', label: 'Activity' }
+  ];
+  exportDataset: ExportDataset = 'metrics';
+  exporting = false;
   Math = Math; // Expose Math to template
 
-  constructor(private analyticsService: AnalyticsService) {}
+  private activityPages = 0;
+
+  constructor(
+    private analyticsService: AnalyticsService,
+    private scrollPositions: ScrollPositionService,
+    private exportService: ExportService
+  ) {}
+
+  get hasMoreActivity(): boolean {
+    return this.activities.length < this.activityTotal;
+  }
 
   ngOnInit(): void {
     this.loadAnalytics();
+
+    // Coming back to the dashboard: load as much of the feed as was shown, so its scroll position can be restored
+    const saved = this.scrollPositions.get(this.activityListKey);
+    this.loadActivity(1, saved ? Math.max(Math.ceil(saved.itemCount / ACTIVITY_PAGE_SIZE), 1) : 1);
   }
 
   loadAnalytics(): void {
@@ -26,6 +58,12 @@ export class AnalyticsDashboardComponent implements OnInit {
     });
   }
 
+  loadMoreActivity(): void {
+    if (!this.loadingActivity && this.hasMoreActivity) {
+      this.loadActivity(this.activityPages + 1);
+    }
+  }
+
   getTrendColor(trend: string): string {
     switch (trend) {
       case 'up':
@@ -46,4 +84,77 @@ export class AnalyticsDashboardComponent implements OnInit {
     }
     return value.toLocaleString();
   }
+
+  onExport(format: ExportFormat): void {
+    switch (this.exportDataset) {
+      case 'metrics':
+        this.exportService.export<Metric>({
+          format,
+          fileName: 'analytics-metrics',
+          title: 'Metrics',
+          columns: [
+            { key: 'label', header: 'Metric', value: metric => metric.label },
+            { key: 'value', header: 'Value', type: 'number', value: metric => metric.value },
+            { key: 'change', header: 'Change vs last month (%)', type: 'number', value: metric => metric.change },
+            { key: 'trend', header: 'Trend', value: metric => metric.trend }
+          ],
+          rows: this.analyticsData?.metrics ?? []
+        });
+        break;
+      case 'chart':
+        this.exportService.export<ChartDataPoint>({
+          format,
+          fileName: 'analytics-monthly-performance',
+          title: 'Monthly Performance',
+          columns: [
+            { key: 'label', header: 'Month', value: point => point.label },
+            { key: 'value', header: 'Value', type: 'number', value: point => point.value }
+          ],
+          rows: this.analyticsData?.chartData ?? []
+        });
+        break;
+      case 'activity':
+        this.exportActivity(format);
+        break;
+    }
+  }
+
+  /**
+   * The whole feed, not only the part loaded in the list
+   */
+  private exportActivity(format: ExportFormat): void {
+    this.exporting = true;
+    this.analyticsService.getAllActivity().subscribe({
+      next: activities => {
+        this.exporting = false;
+        this.exportService.export<Activity>({
+          format,
+          fileName: 'analytics-activity',
+          title: 'Activity',
+          columns: [
+            { key: 'timestamp', header: 'Time', type: 'datetime', value: activity => activity.timestamp },
+            { key: 'type', header: 'Type', value: activity => activity.type },
+            { key: 'description', header: 'Description', value: activity => activity.description },
+            { key: 'user', header: 'User', value: activity => activity.user }
+          ],
+          rows: activities
+        });
+      },
+      error: () => this.exporting = false
+    });
+  }
+
+  /**
+   * Append `pageCount` pages of the feed, starting at `page`.
+   * Several pages are only loaded from the start, where they equal one larger page.
+   */
+  private loadActivity(page: number, pageCount = 1): void {
+    this.loadingActivity = true;
+    this.analyticsService.getActivity(page, ACTIVITY_PAGE_SIZE * pageCount).subscribe(response => {
+      this.activities = [...this.activities, ...response.items];
+      this.activityTotal = response.total;
+      this.activityPages = page + pageCount - 1;
+      this.loadingActivity = false;
+    });
+  }
 }
@@ -1,3 +1,8 @@
+import { Activity } from '@core/models/activity.model';
+
+// Activity is shared with other features (e.g. a user's history), so it lives in core
+export { Activity };
+
 export interface Metric {
   id: string;
   label: string;
@@ -17,11 +22,3 @@ export interface AnalyticsData {
   chartData: ChartDataPoint[];
   recentActivity: Activity[];
 }
-
-export interface Activity {
-  id: string;
-  type: string;
-  description: string;
-  timestamp: Date;
-  user?: string;
-}
@@ -2,6 +2,8 @@ import { Injectable } from '@angular/core';
 import { Observable, of } from 'rxjs';
 import { delay } from 'rxjs/operators';
 import { AnalyticsData, Metric, ChartDataPoint, Activity } from '../models/analytics.model';
+import { HttpCacheService } from '@core/services/http-cache.service';
+import { PaginatedResponse } from '@core/models/common.model';
 
 // Mock data
 const MOCK_METRICS: Metric[] = [
@@ -72,19 +74,65 @@ const MOCK_ACTIVITY: Activity[] = [
   }
 ];
 
+// Older events for the activity feed; some descriptions wrap, so items differ in height
+const ACTIVITY_TEMPLATES: Array<Pick<Activity, 'type' | 'description'>> = [
+  { type: 'user_registration', description: 'New user registered' },
+  { type: 'purchase', description: 'Purchase completed' },
+  { type: 'security', description: 'Account locked after five failed sign-in attempts within ten minutes; it unlocks automatically after 30 minutes' },
+  { type: 'export', description: 'Monthly revenue report exported' },
+  { type: 'system', description: 'System backup completed' },
+  { type: 'settings', description: 'Notification settings changed for the whole workspace, including email digests and weekly summaries' }
+];
+const ACTIVITY_USERS = ['john.doe@example.com', 'jane.smith@example.com', 'alice.williams@example.com', undefined];
+
+const MOCK_ACTIVITY_LOG: Activity[] = [
+  ...MOCK_ACTIVITY,
+  ...Array.from({ length: 497 }, (_, i) => ({
+    ...ACTIVITY_TEMPLATES[i % ACTIVITY_TEMPLATES.length],
+    id: String(i + 4),
+    timestamp: new Date(Date.now() - 1000 * 60 * (45 + i * 7)),
+    user: ACTIVITY_USERS[i % ACTIVITY_USERS.length]
+  }))
+];
+
 @Injectable()
 export class AnalyticsService {
-  constructor() {}
+  constructor(private cache: HttpCacheService) {}
 
   getAnalyticsData(): Observable<AnalyticsData> {
-    return of({
-      metrics: MOCK_METRICS,
-      chartData: MOCK_CHART_DATA,
-      recentActivity: MOCK_ACTIVITY
-    }).pipe(delay(600));
+    // Fresh for a minute, then served stale for up to 5 more while it refreshes
+    return this.cache.fetch(
+      'analytics:data',
+      () => of({
+        metrics: MOCK_METRICS,
+        chartData: MOCK_CHART_DATA,
+        recentActivity: MOCK_ACTIVITY
+      }).pipe(delay(600)),
+      { ttl: 60 * 1000, staleWhileRevalidate: 5 * 60 * 1000, tags: ['analytics'] }
+    );
   }
 
   getMetrics(): Observable<Metric[]> {
     return of(MOCK_METRICS).pipe(delay(400));
   }
+
+  /**
+   * The whole activity feed, newest first (e.g. for exports)
+   */
+  getAllActivity(): Observable<Activity[]> {
+    return of(MOCK_ACTIVITY_LOG).pipe(delay(300));
+  }
+
+  /**
+   * Activity feed, newest first, one page at a time
+   */
+  getActivity(page: number, pageSize: number): Observable<PaginatedResponse<Activity>> {
+    const start = (page - 1) * pageSize;
+    return of({
+      items: MOCK_ACTIVITY_LOG.slice(start, start + pageSize),
+      total: MOCK_ACTIVITY_LOG.length,
+      page,
+      pageSize
+    }).pipe(delay(300));
+  }
 }
@@ -0,0 +1,112 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { AuthService } from '@core/services/auth.service';
+import { AppError, UnauthorizedError, ValidationError } from '@core/errors/app-error';
+
+type LoginField = 'email' | 'password';
+
+@Component({
+  selector: 'app-login',
+  templateUrl: './login.component.html',
+  styleUrls: ['./login.component.scss']
+})
+export class LoginComponent implements OnInit {
+  loginForm = this.fb.nonNullable.group({
+    email: ['', [Validators.required, Validators.email]],
+    password: ['', Validators.required]
+  });
+
+  submitting = false;
+  errorMessage: string | null = null;
+  infoMessage: string | null = null;
+
+  private returnUrl = '/dashboard';
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.returnUrl = this.getSafeReturnUrl(this.route.snapshot.queryParamMap.get('returnUrl'));
+
+    if (this.route.snapshot.queryParamMap.get('reason') === 'idle') {
+      this.infoMessage = 'You were signed out due to inactivity.';
+    }
+
+    // Already signed in - nothing to do here
+    if (this.authService.isAuthenticated) {
+      this.router.navigateByUrl(this.returnUrl);
+    }
+  }
+
+  onSubmit(): void {
+    if (this.loginForm.invalid) {
+      this.loginForm.markAllAsTouched();
+      return;
+    }
+
+    this.submitting = true;
+    this.errorMessage = null;
+    this.infoMessage = null;
+
+    this.authService.login(this.loginForm.getRawValue()).subscribe({
+      next: () => {
+        this.submitting = false;
+        this.router.navigateByUrl(this.returnUrl);
+      },
+      error: (error: AppError) => {
+        this.submitting = false;
+
+        if (error instanceof ValidationError) {
+          this.errorMessage = error.message;
+          this.applyServerErrors(error.fieldErrors);
+        } else if (error instanceof UnauthorizedError) {
+          this.errorMessage = error.message;
+        } else {
+          this.errorMessage = 'Unable to sign in. Please try again.';
+        }
+      }
+    });
+  }
+
+  getFieldError(field: LoginField): string | null {
+    const control = this.loginForm.controls[field];
+
+    if (!control.touched || !control.errors) {
+      return null;
+    }
+
+    if (control.errors['server']) {
+      return control.errors['server'];
+    }
+    if (control.errors['required']) {
+      return field === 'email' ? 'Email is required' : 'Password is required';
+    }
+    if (control.errors['email']) {
+      return 'Enter a valid email address';
+    }
+    return null;
+  }
+
+  private applyServerErrors(fieldErrors: Record<string, string[]> = {}): void {
+    Object.entries(fieldErrors).forEach(([field, messages]) => {
+      const control = this.loginForm.get(field);
+      if (control && messages.length > 0) {
+        control.setErrors({ server: messages[0] });
+        control.markAsTouched();
+      }
+    });
+  }
+
+  private getSafeReturnUrl(url: string | null): string {
+    // Only allow in-app paths to avoid open redirects
+    if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/login')) {
+      return '/dashboard';
+    }
+    return url;
+  }
+}
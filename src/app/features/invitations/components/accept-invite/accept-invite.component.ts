@@ -0,0 +1,173 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { AbstractControl, FormBuilder, ValidationErrors, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import { EMPTY, Subscription } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+import { AppError, NotFoundError, ValidationError, toAppError } from '@core/errors/app-error';
+import { InvitationsService } from '../../services/invitations.service';
+import { InvitationDetails } from '../../models/invitation.model';
+
+type AcceptInviteField = 'name' | 'password' | 'confirmPassword';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Why the link can't be used
+interface LinkProblem {
+  title: string;
+  message: string;
+}
+
+/**
+ * The group fails with `{ passwordMismatch: true }` unless both passwords are the same
+ */
+function passwordsMatchValidator(group: AbstractControl): ValidationErrors | null {
+  const password = group.get('password')?.value;
+  const confirmPassword = group.get('confirmPassword')?.value;
+  return !confirmPassword || password === confirmPassword ? null : { passwordMismatch: true };
+}
+
+/**
+ * AcceptInviteComponent - Lets an invited person set their password
+ *
+ * Opened from the link in the invitation (`/accept-invite/:token`) by
+ * someone who is not signed in yet. Shows who the invitation is for, then
+ * activates the account with the chosen name and password.
+ */
+@Component({
+  selector: 'app-accept-invite',
+  templateUrl: './accept-invite.component.html',
+  styleUrls: ['./accept-invite.component.scss']
+})
+export class AcceptInviteComponent implements OnInit, OnDestroy {
+  form = this.fb.nonNullable.group({
+    name: ['', Validators.required],
+    password: ['', [Validators.required, Validators.minLength(MIN_PASSWORD_LENGTH)]],
+    confirmPassword: ['', Validators.required]
+  }, { validators: passwordsMatchValidator });
+
+  invitation: InvitationDetails | null = null;
+  loading = true;
+  linkProblem: LinkProblem | null = null;
+  submitting = false;
+  accepted = false;
+  errorMessage: string | null = null;
+
+  private token = '';
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private invitationsService: InvitationsService,
+    private route: ActivatedRoute
+  ) {}
+
+  ngOnInit(): void {
+    this.subscription.add(
+      this.route.paramMap.pipe(
+        tap(params => {
+          this.token = params.get('token') ?? '';
+          this.loading = true;
+          this.linkProblem = null;
+          this.accepted = false;
+        }),
+        switchMap(() => this.invitationsService.getInvitation(this.token).pipe(
+          catchError(error => {
+            const appError = toAppError(error);
+            this.linkProblem = this.getLinkProblem(appError) ?? { title: 'Something went wrong', message: appError.message };
+            this.loading = false;
+            return EMPTY;
+          })
+        ))
+      ).subscribe(invitation => {
+        this.invitation = invitation;
+        this.form.reset({ name: invitation.name });
+        this.loading = false;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  onSubmit(): void {
+    if (this.submitting) {
+      return;
+    }
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { name, password } = this.form.getRawValue();
+    this.submitting = true;
+    this.errorMessage = null;
+
+    this.invitationsService.acceptInvitation(this.token, { name: name.trim(), password }).subscribe({
+      next: () => {
+        this.submitting = false;
+        this.accepted = true;
+      },
+      error: (error: AppError) => {
+        this.submitting = false;
+        if (error instanceof ValidationError) {
+          this.errorMessage = error.message;
+          this.applyServerErrors(error.fieldErrors);
+          return;
+        }
+
+        // Revoked or expired while the page was open
+        const problem = this.getLinkProblem(error);
+        if (problem) {
+          this.linkProblem = problem;
+        } else {
+          this.errorMessage = error.message;
+        }
+      }
+    });
+  }
+
+  getFieldError(field: AcceptInviteField): string | null {
+    const control = this.form.controls[field];
+    if (!control.touched) {
+      return null;
+    }
+
+    if (control.errors?.['server']) {
+      return control.errors['server'];
+    }
+    if (control.errors?.['required']) {
+      return field === 'name' ? 'Name is required' : 'Password is required';
+    }
+    if (control.errors?.['minlength']) {
+      return `Use at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    if (field === 'confirmPassword' && this.form.errors?.['passwordMismatch']) {
+      return 'The passwords do not match';
+    }
+    return null;
+  }
+
+  /**
+   * Errors that mean the link itself can't be used
+   */
+  private getLinkProblem(error: AppError): LinkProblem | null {
+    if (error.status === 410) {
+      return { title: 'This invitation has expired', message: error.message };
+    }
+    if (error instanceof NotFoundError) {
+      return { title: 'This invitation can\'t be used', message: error.message };
+    }
+    return null;
+  }
+
+  private applyServerErrors(fieldErrors: Record<string, string[]> = {}): void {
+    Object.entries(fieldErrors).forEach(([field, messages]) => {
+      const control = this.form.get(field);
+      if (control && messages.length > 0) {
+        control.setErrors({ server: messages[0] });
+        control.markAsTouched();
+      }
+    });
+  }
+}
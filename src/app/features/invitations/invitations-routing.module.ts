@@ -0,0 +1,16 @@
+import { NgModule } from '@angular/core';
+import { RouterModule, Routes } from '@angular/router';
+import { AcceptInviteComponent } from './components/accept-invite/accept-invite.component';
+
+const routes: Routes = [
+  {
+    path: ':token',
+    component: AcceptInviteComponent
+  }
+];
+
+@NgModule({
+  imports: [RouterModule.forChild(routes)],
+  exports: [RouterModule]
+})
+export class InvitationsRoutingModule { }
@@ -0,0 +1,21 @@
+import { NgModule } from '@angular/core';
+import { ReactiveFormsModule } from '@angular/forms';
+import { SharedModule } from '@shared/shared.module';
+import { InvitationsRoutingModule } from './invitations-routing.module';
+import { AcceptInviteComponent } from './components/accept-invite/accept-invite.component';
+import { InvitationsService } from './services/invitations.service';
+
+@NgModule({
+  declarations: [
+    AcceptInviteComponent
+  ],
+  imports: [
+    ReactiveFormsModule,
+    SharedModule,
+    InvitationsRoutingModule
+  ],
+  providers: [
+    InvitationsService
+  ]
+})
+export class InvitationsModule { }
@@ -0,0 +1,17 @@
+import { UserRole } from '@core/models/user.model';
+
+/**
+ * What an invitation link tells the invitee before they accept
+ */
+export interface InvitationDetails {
+  email: string;
+  // Suggested from the email until the invitee chooses one
+  name: string;
+  role: UserRole;
+  expiresAt: Date;
+}
+
+export interface AcceptInvitation {
+  name: string;
+  password: string;
+}
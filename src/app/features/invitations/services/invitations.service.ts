@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { ApiService } from '@core/services/api.service';
+import { ApiResponse } from '@core/models/common.model';
+import { readDate, readObject, readString } from '@core/utils/payload.util';
+import { readRole } from '@core/adapters/user.adapter';
+import { AcceptInvitation, InvitationDetails } from '../models/invitation.model';
+
+/**
+ * InvitationsService - Looks up and accepts invitations by their token
+ *
+ * Used by invitees, who are not signed in. Unknown, used and revoked tokens
+ * fail with a NotFoundError; expired ones with an AppError of status 410.
+ */
+@Injectable()
+export class InvitationsService {
+
+  constructor(private api: ApiService) {}
+
+  getInvitation(token: string): Observable<InvitationDetails> {
+    return this.api.get<ApiResponse<unknown>>(`/invitations/${encodeURIComponent(token)}`).pipe(
+      map(response => toInvitationDetails(response.data))
+    );
+  }
+
+  /**
+   * Set the invitee's name and password, which activates their account
+   */
+  acceptInvitation(token: string, acceptance: AcceptInvitation): Observable<void> {
+    return this.api.post<ApiResponse<unknown>>(`/invitations/${encodeURIComponent(token)}/accept`, acceptance).pipe(
+      map(() => undefined)
+    );
+  }
+}
+
+function toInvitationDetails(payload: unknown, path = 'invitation'): InvitationDetails {
+  const invitation = readObject(payload, path);
+  return {
+    email: readString(invitation, 'email', path),
+    name: readString(invitation, 'name', path),
+    role: readRole(invitation, 'role', path),
+    expiresAt: readDate(invitation, 'expiresAt', path)
+  };
+}
@@ -1,4 +1,5 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
 import { SettingsService } from '../../services/settings.service';
 import { AppSettings } from '../../models/settings.model';
 
@@ -7,7 +8,7 @@ import { AppSettings } from '../../models/settings.model';
   templateUrl: './settings-page.component.html',
   styleUrls: ['./settings-page.component.scss']
 })
-export class SettingsPageComponent implements OnInit {
+export class SettingsPageComponent implements OnInit, OnDestroy {
   settings: AppSettings = {
     notifications: false,
     darkMode: false,
@@ -30,10 +31,19 @@ export class SettingsPageComponent implements OnInit {
     { value: 'Europe/London', label: 'London' }
   ];
 
+  private settingsSubscription?: Subscription;
+
   constructor(private settingsService: SettingsService) {}
 
   ngOnInit(): void {
-    this.settings = this.settingsService.getSettings();
+    // Stay in sync with changes made elsewhere (e.g. another tab)
+    this.settingsSubscription = this.settingsService.settings$.subscribe(settings => {
+      this.settings = { ...settings };
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.settingsSubscription?.unsubscribe();
   }
 
   onToggleChange(setting: keyof AppSettings): void {
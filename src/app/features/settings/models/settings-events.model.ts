@@ -0,0 +1,11 @@
+import { AppSettings } from './settings.model';
+
+export const SettingsEvents = {
+  CHANGED: 'settings:changed'
+} as const;
+
+declare module '@core/services/event-bus.service' {
+  interface AppEventMap {
+    'settings:changed': AppSettings;
+  }
+}
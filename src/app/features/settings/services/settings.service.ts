@@ -1,42 +1,24 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
 import { AppSettings } from '../models/settings.model';
-import { EventBusService, EventTypes } from '@core/services/event-bus.service';
-
-const DEFAULT_SETTINGS: AppSettings = {
-  notifications: true,
-  darkMode: false,
-  autoSave: true,
-  language: 'en',
-  timezone: 'UTC'
-};
+import { Store } from '@core/store/store';
+import { SettingsActions, selectSettings } from '../state/settings.state';
 
+/**
+ * SettingsService - Facade over the settings store slice
+ *
+ * Persistence and change events are handled by SettingsEffects.
+ */
 @Injectable()
 export class SettingsService {
-  private settingsSubject = new BehaviorSubject<AppSettings>(this.loadSettings());
-  public settings$ = this.settingsSubject.asObservable();
+  public settings$ = this.store.select(selectSettings);
 
-  constructor(private eventBus: EventBusService) {}
+  constructor(private store: Store) {}
 
   getSettings(): AppSettings {
-    return this.settingsSubject.value;
+    return this.store.selectSnapshot(selectSettings);
   }
 
   updateSettings(settings: Partial<AppSettings>): void {
-    const updated = { ...this.settingsSubject.value, ...settings };
-    this.settingsSubject.next(updated);
-    this.saveSettings(updated);
-    
-    // Emit event for other modules
-    this.eventBus.emit(EventTypes.SETTINGS_CHANGED, updated);
-  }
-
-  private loadSettings(): AppSettings {
-    const stored = localStorage.getItem('app_settings');
-    return stored ? JSON.parse(stored) : DEFAULT_SETTINGS;
-  }
-
-  private saveSettings(settings: AppSettings): void {
-    localStorage.setItem('app_settings', JSON.stringify(settings));
+    this.store.dispatch(SettingsActions.update({ changes: settings }));
   }
 }
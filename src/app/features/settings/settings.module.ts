@@ -2,9 +2,12 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { SharedModule } from '@shared/shared.module';
+import { StoreModule } from '@core/store/store.module';
 import { SettingsRoutingModule } from './settings-routing.module';
 import { SettingsPageComponent } from './components/settings-page/settings-page.component';
 import { SettingsService } from './services/settings.service';
+import { SETTINGS_FEATURE_KEY, SETTINGS_PERSIST_CONFIG, settingsReducer } from './state/settings.state';
+import { SettingsEffects } from './state/settings.effects';
 
 @NgModule({
   declarations: [
@@ -14,7 +17,8 @@ import { SettingsService } from './services/settings.service';
     CommonModule,
     FormsModule,
     SharedModule,
-    SettingsRoutingModule
+    SettingsRoutingModule,
+    StoreModule.forFeature(SETTINGS_FEATURE_KEY, settingsReducer, [SettingsEffects], SETTINGS_PERSIST_CONFIG)
   ],
   providers: [
     SettingsService
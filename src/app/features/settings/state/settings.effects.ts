@@ -0,0 +1,49 @@
+import { Injectable } from '@angular/core';
+import { filter, map, skip, tap } from 'rxjs/operators';
+import { Store } from '@core/store/store';
+import { createEffect, ofType } from '@core/store/effect';
+import { AppActions, selectLocale } from '@core/store/app.state';
+import { EventBusService, EventTypes } from '@core/services/event-bus.service';
+import { SettingsEvents } from '../models/settings-events.model';
+import { SettingsActions, selectSettings } from './settings.state';
+
+/**
+ * SettingsEffects - Cross-module notifications for the settings slice
+ *
+ * Saving and restoring is handled by the store's persistence (SETTINGS_PERSIST_CONFIG).
+ */
+@Injectable()
+export class SettingsEffects {
+  notifySaved$ = createEffect(() => this.store.actions$.pipe(
+    ofType(SettingsActions.update),
+    tap(() => {
+      // Keyed so that several quick changes show a single toast
+      this.eventBus.emit(EventTypes.NOTIFICATION, {
+        type: 'success',
+        message: 'Settings saved',
+        key: 'settings-saved'
+      });
+    })
+  ), { dispatch: false });
+
+  // Emit event for other modules, including for settings restored from storage or another tab
+  announceChanges$ = createEffect(() => this.store.select(selectSettings).pipe(
+    skip(1),
+    tap(settings => this.eventBus.emit(SettingsEvents.CHANGED, settings))
+  ), { dispatch: false });
+
+  // Language and timezone are kept in the app slice, where features like exports read them
+  updateLocale$ = createEffect(() => this.store.actions$.pipe(
+    ofType(SettingsActions.update),
+    filter(({ changes }) => changes.language !== undefined || changes.timezone !== undefined),
+    map(({ changes }) => {
+      const { language, timezone } = { ...this.store.selectSnapshot(selectLocale), ...changes };
+      return AppActions.setLocale({ locale: { language, timezone } });
+    })
+  ));
+
+  constructor(
+    private store: Store,
+    private eventBus: EventBusService
+  ) {}
+}
@@ -0,0 +1,55 @@
+import { createAction, props } from '@core/store/action';
+import { createReducer, on } from '@core/store/reducer';
+import { createFeatureSelector, createSelector } from '@core/store/selector';
+import { PersistConfig } from '@core/store/persistence';
+import { LocaleSettings, selectLocale } from '@core/store/app.state';
+import { AppSettings } from '../models/settings.model';
+
+export const SETTINGS_FEATURE_KEY = 'settings';
+
+/**
+ * The settings kept in this slice. Language and timezone are the core locale
+ * instead, which is restored at startup: exports and other features need them
+ * before this lazily loaded feature is.
+ */
+export type StoredSettings = Omit<AppSettings, keyof LocaleSettings>;
+
+declare module '@core/store/store' {
+  interface AppState {
+    settings: StoredSettings;
+  }
+}
+
+export const DEFAULT_SETTINGS: StoredSettings = {
+  notifications: true,
+  darkMode: false,
+  autoSave: true
+};
+
+export const SETTINGS_PERSIST_CONFIG: PersistConfig<StoredSettings> = {
+  key: 'app_settings',
+  version: 2,
+  migrations: {
+    // Version 0 stored the bare AppSettings object, which is still the current shape
+    1: settings => settings,
+    // Language and timezone moved to the app slice, whose version 2 migration copies them (readLegacyLocale)
+    2: ({ language, timezone, ...settings }) => settings
+  }
+};
+
+export const SettingsActions = {
+  update: createAction('[Settings] Update', props<{ changes: Partial<AppSettings> }>())
+};
+
+export const settingsReducer = createReducer(
+  DEFAULT_SETTINGS,
+  // Language and timezone changes are applied to the app slice by SettingsEffects
+  on(SettingsActions.update, (state, { changes: { language, timezone, ...changes } }) => ({ ...state, ...changes }))
+);
+
+export const selectStoredSettings = createFeatureSelector(SETTINGS_FEATURE_KEY);
+export const selectSettings = createSelector(
+  selectStoredSettings,
+  selectLocale,
+  (settings, locale): AppSettings => ({ ...settings, ...locale })
+);
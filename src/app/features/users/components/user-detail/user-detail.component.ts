@@ -0,0 +1,337 @@
+import { Component, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { Location } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { EventBusService } from '@core/services/event-bus.service';
+import { StateService } from '@core/services/state.service';
+import { Activity } from '@core/models/activity.model';
+import { DirectoryUser } from '@core/models/user.model';
+import { Permission } from '@core/models/permission.model';
+import { NotFoundError, toAppError } from '@core/errors/app-error';
+import { HasUnsavedChanges } from '@core/guards/unsaved-changes.guard';
+import { UsersService } from '../../services/users.service';
+import { Invitation, InvitationEvent, RoleChange } from '../../models/user.model';
+import { UserEvents } from '../../models/user-events.model';
+import { UserFormComponent } from '../user-form/user-form.component';
+
+type UserDetailTab = 'profile' | 'roles' | 'activity';
+
+const TABS: Array<{ id: UserDetailTab; label: string }> = [
+  { id: 'profile', label: 'Profile' },
+  { id: 'roles', label: 'Role history' },
+  { id: 'activity', label: 'Activity' }
+];
+const ACTIVITY_PAGE_SIZE = 20;
+
+const INVITATION_EVENT_LABELS: Record<InvitationEvent['type'], string> = {
+  invited: 'Invited',
+  resent: 'Invitation sent again',
+  revoked: 'Invitation revoked',
+  accepted: 'Invitation accepted'
+};
+
+/**
+ * UserDetailComponent - One user's profile, role history and activity
+ *
+ * Invited users also show their invitation, which can be resent or revoked
+ * while it hasn't been accepted, and its history.
+ * The user comes from UserResolver. The page and the shared selection follow
+ * each other: opening a user selects it, and selecting another user elsewhere
+ * navigates here to that user. The open tab is kept in the `tab` query param.
+ */
+@Component({
+  selector: 'app-user-detail',
+  templateUrl: './user-detail.component.html',
+  styleUrls: ['./user-detail.component.scss']
+})
+export class UserDetailComponent implements OnInit, OnDestroy, HasUnsavedChanges {
+  @ViewChild(UserFormComponent) userForm?: UserFormComponent;
+
+  user!: DirectoryUser;
+  tabs = TABS;
+  activeTab: UserDetailTab = 'profile';
+  editing = false;
+  Permission = Permission; // Expose Permission to template
+
+  // Loaded the first time their tab is opened
+  roleHistory: RoleChange[] | null = null;
+  roleHistoryError: string | null = null;
+  loadingRoleHistory = false;
+  activities: Activity[] = [];
+  activityTotal = 0;
+  activityError: string | null = null;
+  loadingActivity = false;
+  // null for users that were not invited
+  invitation: Invitation | null = null;
+  invitationBusy = false;
+  invitationError: string | null = null;
+
+  private activityPages = 0;
+  private cameFromApp: boolean;
+  private subscriptions = new Subscription();
+  // Requests for the user shown; cancelled when another user is opened
+  private userRequests = new Subscription();
+  private roleHistoryRequest?: Subscription;
+
+  constructor(
+    private usersService: UsersService,
+    private stateService: StateService,
+    private eventBus: EventBusService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private location: Location
+  ) {
+    // The navigation that opened this page is still running; it has a predecessor unless this is the first page
+    this.cameFromApp = !!this.router.getCurrentNavigation()?.previousNavigation;
+  }
+
+  get hasMoreActivity(): boolean {
+    return this.activities.length < this.activityTotal;
+  }
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      this.route.data.subscribe(data => this.showUser(data['user']))
+    );
+
+    this.subscriptions.add(
+      this.route.queryParamMap.subscribe(params => {
+        this.activeTab = TABS.find(tab => tab.id === params.get('tab'))?.id ?? 'profile';
+        this.loadActiveTab();
+      })
+    );
+
+    // A user selected elsewhere (e.g. another feature) replaces the one shown
+    this.subscriptions.add(
+      this.stateService.selectedUserId$.pipe(
+        filter((id): id is string => !!id && id !== this.user.id)
+      ).subscribe(id => this.router.navigate(['..', id], { relativeTo: this.route }))
+    );
+
+    this.subscriptions.add(
+      this.eventBus.on(UserEvents.UPDATED).pipe(
+        filter(event => event.payload.id === this.user.id)
+      ).subscribe(event => this.showUser(event.payload))
+    );
+
+    this.subscriptions.add(
+      this.eventBus.on(UserEvents.DELETED).pipe(
+        filter(event => event.payload.id === this.user.id)
+      ).subscribe(() => this.router.navigate(['/users']))
+    );
+
+    this.subscriptions.add(
+      this.eventBus.on(UserEvents.BULK_CHANGED).pipe(
+        filter(event => event.payload.ids.includes(this.user.id))
+      ).subscribe(() => this.reloadUser())
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+    this.userRequests.unsubscribe();
+  }
+
+  hasUnsavedChanges(): boolean {
+    return this.userForm?.isDirty ?? false;
+  }
+
+  onRequestCloseEdit(): void {
+    // The form asks before throwing away unsaved changes
+    if (this.userForm) {
+      this.userForm.requestClose();
+    } else {
+      this.editing = false;
+    }
+  }
+
+  goBack(): void {
+    // History keeps the list's query string, so its filters and scroll position come back
+    if (this.cameFromApp) {
+      this.location.back();
+    } else {
+      this.router.navigate(['/users']);
+    }
+  }
+
+  selectTab(tab: UserDetailTab): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { tab: tab === 'profile' ? null : tab },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  /**
+   * Arrow keys, Home and End move between tabs
+   */
+  onTabKeydown(event: KeyboardEvent): void {
+    const index = TABS.findIndex(tab => tab.id === this.activeTab);
+    const targets: Record<string, number> = {
+      ArrowRight: (index + 1) % TABS.length,
+      ArrowLeft: (index - 1 + TABS.length) % TABS.length,
+      Home: 0,
+      End: TABS.length - 1
+    };
+    const next = targets[event.key];
+
+    if (next !== undefined) {
+      event.preventDefault();
+      this.selectTab(TABS[next].id);
+      document.getElementById(`user-tab-${TABS[next].id}`)?.focus();
+    }
+  }
+
+  loadMoreActivity(): void {
+    if (this.hasMoreActivity && !this.loadingActivity) {
+      this.loadActivity();
+    }
+  }
+
+  /**
+   * The link the invitee opens to accept, while the invitation can still be accepted
+   */
+  get invitationLink(): string | null {
+    if (this.invitation?.status !== 'pending' || !this.invitation.token) {
+      return null;
+    }
+    return window.location.origin + this.router.serializeUrl(this.router.createUrlTree(['/accept-invite', this.invitation.token]));
+  }
+
+  get canChangeInvitation(): boolean {
+    return this.invitation?.status === 'pending' || this.invitation?.status === 'expired';
+  }
+
+  resendInvitation(): void {
+    this.changeInvitation(this.usersService.resendInvitation(this.user));
+  }
+
+  revokeInvitation(): void {
+    this.changeInvitation(this.usersService.revokeInvitation(this.user));
+  }
+
+  getInvitationEventLabel(event: InvitationEvent): string {
+    return INVITATION_EVENT_LABELS[event.type];
+  }
+
+  getStatusLabel(status: string): string {
+    return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+
+  private showUser(user: DirectoryUser): void {
+    const isNewUser = !this.user || this.user.id !== user.id;
+    this.user = user;
+
+    if (isNewUser) {
+      this.userRequests.unsubscribe();
+      this.userRequests = new Subscription();
+      this.activities = [];
+      this.activityTotal = 0;
+      this.activityPages = 0;
+      this.activityError = null;
+      this.loadingActivity = false;
+      this.invitation = null;
+      this.invitationError = null;
+      this.usersService.selectUser(user);
+    }
+
+    // The role and the invitation may have changed
+    this.loadInvitation();
+    this.roleHistoryRequest?.unsubscribe();
+    this.roleHistory = null;
+    this.loadingRoleHistory = false;
+    this.loadActiveTab();
+  }
+
+  private reloadUser(): void {
+    this.userRequests.add(
+      this.usersService.getUserById(this.user.id).subscribe({
+        next: user => this.showUser(user),
+        error: error => {
+          if (error instanceof NotFoundError) {
+            this.router.navigate(['/users']);
+          }
+        }
+      })
+    );
+  }
+
+  private loadActiveTab(): void {
+    if (!this.user) {
+      return;
+    }
+    if (this.activeTab === 'roles' && this.roleHistory === null && !this.loadingRoleHistory) {
+      this.loadRoleHistory();
+    }
+    if (this.activeTab === 'activity' && this.activityPages === 0 && !this.loadingActivity) {
+      this.loadActivity();
+    }
+  }
+
+  private loadInvitation(): void {
+    this.userRequests.add(
+      this.usersService.getInvitation(this.user.id).subscribe({
+        next: invitation => this.invitation = invitation,
+        // The rest of the page works without it
+        error: () => this.invitation = null
+      })
+    );
+  }
+
+  private changeInvitation(request$: Observable<Invitation>): void {
+    this.invitationBusy = true;
+    this.invitationError = null;
+
+    this.userRequests.add(
+      request$.subscribe({
+        next: invitation => {
+          this.invitation = invitation;
+          this.invitationBusy = false;
+        },
+        error: error => {
+          this.invitationError = toAppError(error).message;
+          this.invitationBusy = false;
+        }
+      })
+    );
+  }
+
+  private loadRoleHistory(): void {
+    this.loadingRoleHistory = true;
+    this.roleHistoryError = null;
+
+    this.roleHistoryRequest = this.usersService.getRoleHistory(this.user.id).subscribe({
+      next: history => {
+        this.roleHistory = history;
+        this.loadingRoleHistory = false;
+      },
+      error: error => {
+        this.roleHistoryError = toAppError(error).message;
+        this.loadingRoleHistory = false;
+      }
+    });
+    this.userRequests.add(this.roleHistoryRequest);
+  }
+
+  private loadActivity(): void {
+    this.loadingActivity = true;
+    this.activityError = null;
+
+    this.userRequests.add(
+      this.usersService.getUserActivity(this.user.id, this.activityPages + 1, ACTIVITY_PAGE_SIZE).subscribe({
+        next: response => {
+          this.activities = [...this.activities, ...response.items];
+          this.activityTotal = response.total;
+          this.activityPages++;
+          this.loadingActivity = false;
+        },
+        error: error => {
+          this.activityError = toAppError(error).message;
+          this.loadingActivity = false;
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { ReactiveFormsModule } from '@angular/forms';
+import { of, throwError } from 'rxjs';
+import { QueuedOfflineError, ServerError, ValidationError } from '@core/errors/app-error';
+import { UserRole } from '@core/models/user.model';
+import { UserFormComponent } from './user-form.component';
+import { UsersService } from '../../services/users.service';
+
+describe('UserFormComponent', () => {
+  let fixture: ComponentFixture<UserFormComponent>;
+  let component: UserFormComponent;
+  let usersService: jasmine.SpyObj<UsersService>;
+
+  beforeEach(() => {
+    usersService = jasmine.createSpyObj<UsersService>('UsersService', ['addUser', 'updateUser', 'isEmailTaken']);
+    usersService.isEmailTaken.and.returnValue(of(false));
+
+    TestBed.configureTestingModule({
+      imports: [ReactiveFormsModule],
+      declarations: [UserFormComponent],
+      providers: [{ provide: UsersService, useValue: usersService }]
+    }).overrideTemplate(UserFormComponent, '');
+
+    fixture = TestBed.createComponent(UserFormComponent);
+    component = fixture.componentInstance;
+  });
+
+  // Fill in and submit a new user; the submit waits for the debounced email check
+  const submit = () => {
+    component.form.setValue({ name: 'Ann Smith', email: 'ann@example.com', role: UserRole.USER, status: 'active' });
+    component.form.markAsDirty();
+    component.onSubmit();
+    tick(300);
+  };
+
+  it('should show server field errors next to the fields', fakeAsync(() => {
+    usersService.addUser.and.returnValue(throwError(() => new ValidationError('Some fields are invalid', {
+      email: ['Email is already in use'],
+      phone: ['Not a field of this form']
+    })));
+    submit();
+
+    expect(component.errorMessage).toBe('Some fields are invalid');
+    expect(component.getFieldError('email')).toBe('Email is already in use');
+    expect(component.getFieldError('name')).toBeNull();
+    expect(component.form.dirty).toBeTrue();
+  }));
+
+  it('should only show the message of other errors', fakeAsync(() => {
+    usersService.addUser.and.returnValue(throwError(() => new ServerError('Server unavailable')));
+    submit();
+
+    expect(component.errorMessage).toBe('Server unavailable');
+    expect(component.form.controls.email.errors).toBeNull();
+  }));
+
+  it('should close when the change is queued while offline', fakeAsync(() => {
+    const closed = spyOn(component.closed, 'emit');
+    usersService.addUser.and.returnValue(throwError(() => new QueuedOfflineError('Sent when the connection returns')));
+    submit();
+
+    expect(closed).toHaveBeenCalled();
+    expect(component.isDirty).toBeFalse();
+    expect(component.errorMessage).toBeNull();
+  }));
+});
@@ -0,0 +1,201 @@
+import { Component, EventEmitter, HostListener, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormBuilder, FormControl, FormGroup, Validators } from '@angular/forms';
+import { first } from 'rxjs/operators';
+import { AppError, QueuedOfflineError, ValidationError } from '@core/errors/app-error';
+import { EventBusService, EventTypes } from '@core/services/event-bus.service';
+import { UsersService } from '../../services/users.service';
+import { DirectoryUser, USER_STATUSES, UserRole, UserStatus } from '@core/models/user.model';
+import { USER_ROLES } from '@core/models/role.model';
+import { emailValidator, oneOfValidator, uniqueEmailValidator } from '../../validators/user-form.validators';
+
+export interface UserFormModel {
+  name: FormControl<string>;
+  email: FormControl<string>;
+  role: FormControl<UserRole>;
+  status: FormControl<UserStatus>;
+}
+
+type UserFormField = keyof UserFormModel;
+
+const NAME_MAX_LENGTH = 100;
+
+/**
+ * UserFormComponent - Creates a user, or edits `user` when one is given
+ *
+ * Validates on the client (including an async check that the email is free),
+ * saves through UsersService and shows the server's field errors next to the
+ * fields. A change queued while offline closes the form. Closing with unsaved changes asks for confirmation first: call
+ * `requestClose()` instead of closing the surrounding modal directly.
+ *
+ * Usage:
+ * <app-user-form [user]="editingUser" (saved)="onSaved($event)" (closed)="onClosed()"></app-user-form>
+ */
+@Component({
+  selector: 'app-user-form',
+  templateUrl: './user-form.component.html',
+  styleUrls: ['./user-form.component.scss']
+})
+export class UserFormComponent implements OnChanges {
+  @Input() user: DirectoryUser | null = null;
+  @Output() saved = new EventEmitter<DirectoryUser>();
+  @Output() closed = new EventEmitter<void>();
+
+  form: FormGroup<UserFormModel> = this.fb.nonNullable.group({
+    name: ['', [Validators.required, Validators.maxLength(NAME_MAX_LENGTH)]],
+    email: ['', {
+      validators: [Validators.required, emailValidator()],
+      asyncValidators: uniqueEmailValidator(this.usersService, () => this.user?.id)
+    }],
+    role: this.fb.nonNullable.control<UserRole>(UserRole.USER, [Validators.required, oneOfValidator(USER_ROLES)]),
+    status: this.fb.nonNullable.control<UserStatus>('active', [Validators.required, oneOfValidator(USER_STATUSES)])
+  });
+
+  roles = USER_ROLES;
+  statuses = USER_STATUSES;
+  submitting = false;
+  confirmingDiscard = false;
+  errorMessage: string | null = null;
+
+  constructor(
+    private fb: FormBuilder,
+    private usersService: UsersService,
+    private eventBus: EventBusService
+  ) {}
+
+  get isDirty(): boolean {
+    return this.form.dirty && !this.submitting;
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const previous: DirectoryUser | null = changes['user']?.previousValue ?? null;
+    // Keep the edits when the same user is refreshed (e.g. saved elsewhere) while they are made
+    if (this.form.dirty && previous?.id === this.user?.id) {
+      return;
+    }
+
+    this.form.reset(this.user ? {
+      name: this.user.name,
+      email: this.user.email,
+      role: this.user.role,
+      status: this.user.status
+    } : undefined);
+    this.confirmingDiscard = false;
+    this.errorMessage = null;
+  }
+
+  // Warn before the tab is closed or reloaded with unsaved changes
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (this.isDirty) {
+      event.preventDefault();
+    }
+  }
+
+  onSubmit(): void {
+    if (this.submitting) {
+      return;
+    }
+    // Wait for the email check still running
+    if (this.form.pending) {
+      this.form.statusChanges.pipe(first(status => status !== 'PENDING')).subscribe(() => this.onSubmit());
+      return;
+    }
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    const request$ = this.user
+      ? this.usersService.updateUser(this.user.id, value)
+      : this.usersService.addUser(value);
+
+    this.submitting = true;
+    this.errorMessage = null;
+
+    request$.subscribe({
+      next: user => {
+        this.submitting = false;
+        this.form.markAsPristine();
+        this.saved.emit(user);
+      },
+      error: (error: AppError) => {
+        this.submitting = false;
+        // Saved later, when the connection returns - nothing left to do here
+        if (error instanceof QueuedOfflineError) {
+          this.form.markAsPristine();
+          this.eventBus.emit(EventTypes.NOTIFICATION, { type: 'warning', message: error.message });
+          this.closed.emit();
+          return;
+        }
+        this.errorMessage = error.message;
+        if (error instanceof ValidationError) {
+          this.applyServerErrors(error.fieldErrors);
+        }
+      }
+    });
+  }
+
+  /**
+   * Close, or ask to discard the changes first
+   */
+  requestClose(): void {
+    if (this.isDirty) {
+      this.confirmingDiscard = true;
+    } else {
+      this.closed.emit();
+    }
+  }
+
+  keepEditing(): void {
+    this.confirmingDiscard = false;
+  }
+
+  discardChanges(): void {
+    this.confirmingDiscard = false;
+    this.form.markAsPristine();
+    this.closed.emit();
+  }
+
+  getFieldError(field: UserFormField): string | null {
+    const control = this.form.controls[field];
+
+    if (!control.touched || !control.errors) {
+      return null;
+    }
+
+    if (control.errors['server']) {
+      return control.errors['server'];
+    }
+    if (control.errors['required']) {
+      return `${field.charAt(0).toUpperCase() + field.slice(1)} is required`;
+    }
+    if (control.errors['maxlength']) {
+      return `Use at most ${NAME_MAX_LENGTH} characters`;
+    }
+    if (control.errors['email']) {
+      return 'Enter a valid email address';
+    }
+    if (control.errors['emailTaken']) {
+      return 'Email is already in use';
+    }
+    if (control.errors['oneOf']) {
+      return `Choose one of ${control.errors['oneOf'].options.join(', ')}`;
+    }
+    return null;
+  }
+
+  getStatusLabel(status: string): string {
+    return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+
+  private applyServerErrors(fieldErrors: Record<string, string[]> = {}): void {
+    Object.entries(fieldErrors).forEach(([field, messages]) => {
+      const control = this.form.get(field);
+      if (control && messages.length > 0) {
+        control.setErrors({ server: messages[0] });
+        control.markAsTouched();
+      }
+    });
+  }
+}
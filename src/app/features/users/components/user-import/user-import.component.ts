@@ -0,0 +1,235 @@
+import { Component, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+import { toAppError } from '@core/errors/app-error';
+import { downloadFile } from '@core/utils/download.util';
+import { HasUnsavedChanges } from '@core/guards/unsaved-changes.guard';
+import { UserImportService } from '../../services/user-import.service';
+import {
+  ColumnMapping,
+  IMPORT_FILE_TYPES,
+  ImportFailure,
+  ImportField,
+  ImportProgress,
+  ImportRow
+} from '../../models/user-import.model';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const STEPS: Array<{ id: ImportStep; label: string }> = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'mapping', label: 'Map columns' },
+  { id: 'preview', label: 'Review' },
+  { id: 'importing', label: 'Import' }
+];
+
+const FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'role', label: 'Role', required: false },
+  { field: 'status', label: 'Status', required: false }
+];
+
+// Larger files are better split into several imports
+const MAX_ROWS = 5000;
+// Rows shown in the review table; the error report has all of them
+const PREVIEW_LIMIT = 200;
+
+/**
+ * UserImportComponent - Wizard for creating many users from a CSV or XLSX file
+ *
+ * Upload -> map columns to user fields -> review the rows with their errors ->
+ * import the valid rows in batches. Rows that were skipped or rejected can be
+ * downloaded as a CSV report.
+ */
+@Component({
+  selector: 'app-user-import',
+  templateUrl: './user-import.component.html',
+  styleUrls: ['./user-import.component.scss']
+})
+export class UserImportComponent implements OnDestroy, HasUnsavedChanges {
+  steps = STEPS;
+  fields = FIELDS;
+  fileTypes = IMPORT_FILE_TYPES;
+
+  step: ImportStep = 'upload';
+  fileName = '';
+  busy = false;
+  error: string | null = null;
+
+  headers: string[] = [];
+  mapping: ColumnMapping = { name: null, email: null, role: null, status: null };
+  rows: ImportRow[] = [];
+  validRows: ImportRow[] = [];
+  invalidRows: ImportRow[] = [];
+  showErrorsOnly = false;
+  previewLimit = PREVIEW_LIMIT;
+  progress: ImportProgress | null = null;
+
+  private dataRows: string[][] = [];
+  private subscription = new Subscription();
+
+  constructor(
+    private importService: UserImportService,
+    private router: Router
+  ) {}
+
+  get visibleRows(): ImportRow[] {
+    return (this.showErrorsOnly ? this.invalidRows : this.rows).slice(0, PREVIEW_LIMIT);
+  }
+
+  get mappingComplete(): boolean {
+    return FIELDS.every(({ field, required }) => !required || this.mapping[field] !== null);
+  }
+
+  get progressPercent(): number {
+    return this.progress && this.progress.total > 0
+      ? Math.round(this.progress.processed / this.progress.total * 100)
+      : 0;
+  }
+
+  get failureCount(): number {
+    return this.invalidRows.length + (this.progress?.failures.length ?? 0);
+  }
+
+  // Skipped invalid rows and rows the server rejected
+  get reportFailures(): ImportFailure[] {
+    return [
+      ...this.invalidRows.map(row => ({ row, message: row.errors.join('; ') })),
+      ...(this.progress?.failures ?? [])
+    ];
+  }
+
+  ngOnDestroy(): void {
+    // Leaving stops the import after the batch in flight
+    this.subscription.unsubscribe();
+  }
+
+  hasUnsavedChanges(): boolean {
+    return this.step === 'mapping' || this.step === 'preview' || this.step === 'importing';
+  }
+
+  isStepDone(step: ImportStep): boolean {
+    const order: ImportStep[] = ['upload', 'mapping', 'preview', 'importing', 'done'];
+    return order.indexOf(step) < order.indexOf(this.step);
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.fileName = file.name;
+    this.error = null;
+    this.busy = true;
+
+    this.subscription.add(
+      this.importService.parseFile(file).pipe(
+        finalize(() => this.busy = false)
+      ).subscribe({
+        next: rows => this.onFileParsed(rows),
+        error: error => this.error = toAppError(error).message
+      })
+    );
+  }
+
+  onMappingConfirmed(): void {
+    if (!this.mappingComplete) {
+      return;
+    }
+
+    this.error = null;
+    this.busy = true;
+    this.subscription.add(
+      this.importService.validate(this.dataRows, this.mapping).pipe(
+        finalize(() => this.busy = false)
+      ).subscribe({
+        next: rows => {
+          this.rows = rows;
+          this.validRows = rows.filter(row => row.errors.length === 0);
+          this.invalidRows = rows.filter(row => row.errors.length > 0);
+          this.showErrorsOnly = false;
+          this.step = 'preview';
+        },
+        error: error => this.error = toAppError(error).message
+      })
+    );
+  }
+
+  startImport(): void {
+    const rows = this.validRows;
+    if (rows.length === 0) {
+      return;
+    }
+
+    this.step = 'importing';
+    this.subscription.add(
+      this.importService.submit(rows).subscribe({
+        next: progress => this.progress = progress,
+        complete: () => this.step = 'done'
+      })
+    );
+  }
+
+  stopImport(): void {
+    this.subscription.unsubscribe();
+    this.subscription = new Subscription();
+    this.step = 'done';
+  }
+
+  goToStep(step: 'upload' | 'mapping'): void {
+    this.error = null;
+    this.step = step;
+  }
+
+  startOver(): void {
+    this.stopImport();
+    this.fileName = '';
+    this.headers = [];
+    this.dataRows = [];
+    this.rows = [];
+    this.validRows = [];
+    this.invalidRows = [];
+    this.progress = null;
+    this.step = 'upload';
+  }
+
+  downloadErrorReport(): void {
+    const baseName = this.fileName.replace(/\.[^.]+$/, '');
+    downloadFile(
+      this.importService.createErrorReport(this.reportFailures),
+      `${baseName}-errors.csv`,
+      'text/csv;charset=utf-8'
+    );
+  }
+
+  backToUsers(): void {
+    this.router.navigate(['/users']);
+  }
+
+  trackByLine(index: number, row: ImportRow): number {
+    return row.line;
+  }
+
+  private onFileParsed(rows: string[][]): void {
+    const [headers = [], ...dataRows] = rows;
+
+    if (dataRows.length === 0) {
+      this.error = 'The file has no rows below the header row';
+      return;
+    }
+    if (dataRows.length > MAX_ROWS) {
+      this.error = `The file has ${dataRows.length} rows. Import at most ${MAX_ROWS} at a time.`;
+      return;
+    }
+
+    this.headers = headers.map((header, index) => header.trim() || `Column ${index + 1}`);
+    this.dataRows = dataRows;
+    this.mapping = this.importService.guessMapping(this.headers);
+    this.step = 'mapping';
+  }
+}
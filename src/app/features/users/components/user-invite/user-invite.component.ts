@@ -0,0 +1,104 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { FormBuilder, FormControl, FormGroup, Validators } from '@angular/forms';
+import { AppError } from '@core/errors/app-error';
+import { BatchFailure } from '@core/models/common.model';
+import { UsersService } from '../../services/users.service';
+import { UserRole } from '@core/models/user.model';
+import { USER_ROLES } from '@core/models/role.model';
+import { emailListValidator, oneOfValidator, parseEmailList } from '../../validators/user-form.validators';
+
+interface UserInviteFormModel {
+  emails: FormControl<string>;
+  role: FormControl<UserRole>;
+}
+
+// Most emails invited at once
+const MAX_INVITES = 50;
+
+/**
+ * UserInviteComponent - Invites people by email with the role they will get
+ *
+ * Each invitee becomes a pending user until they accept the invitation and
+ * set a password. Emails that could not be invited stay in the form, with
+ * the reason, so they can be corrected and sent again.
+ *
+ * Usage:
+ * <app-user-invite (closed)="onClosed()"></app-user-invite>
+ */
+@Component({
+  selector: 'app-user-invite',
+  templateUrl: './user-invite.component.html',
+  styleUrls: ['./user-invite.component.scss']
+})
+export class UserInviteComponent {
+  @Output() closed = new EventEmitter<void>();
+
+  form: FormGroup<UserInviteFormModel> = this.fb.nonNullable.group({
+    emails: ['', [Validators.required, emailListValidator(MAX_INVITES)]],
+    role: this.fb.nonNullable.control<UserRole>(UserRole.USER, [Validators.required, oneOfValidator(USER_ROLES)])
+  });
+
+  roles = USER_ROLES;
+  submitting = false;
+  errorMessage: string | null = null;
+  // Result of the last submit that could not invite every email
+  invitedCount = 0;
+  failures: BatchFailure[] = [];
+
+  constructor(
+    private fb: FormBuilder,
+    private usersService: UsersService
+  ) {}
+
+  get emailCount(): number {
+    return parseEmailList(this.form.controls.emails.value).length;
+  }
+
+  get emailsError(): string | null {
+    const control = this.form.controls.emails;
+    if (!control.touched || !control.errors) {
+      return null;
+    }
+    if (control.errors['required']) {
+      return 'Enter at least one email';
+    }
+    if (control.errors['tooManyEmails']) {
+      return `Invite at most ${control.errors['tooManyEmails'].max} people at once`;
+    }
+    if (control.errors['invalidEmails']) {
+      return `Not valid: ${control.errors['invalidEmails'].emails.join(', ')}`;
+    }
+    return null;
+  }
+
+  onSubmit(): void {
+    if (this.submitting) {
+      return;
+    }
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { emails, role } = this.form.getRawValue();
+    this.submitting = true;
+    this.errorMessage = null;
+
+    this.usersService.inviteUsers(parseEmailList(emails), role).subscribe({
+      next: result => {
+        this.submitting = false;
+        if (result.failed.length === 0) {
+          this.closed.emit();
+          return;
+        }
+        this.invitedCount = result.succeeded.length;
+        this.failures = result.failed;
+        this.form.controls.emails.setValue(result.failed.map(failure => failure.id).join('\n'));
+      },
+      error: (error: AppError) => {
+        this.submitting = false;
+        this.errorMessage = error.message;
+      }
+    });
+  }
+}
@@ -1,113 +1,366 @@
-import { Component, OnInit } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY, Observable, Subject, Subscription, forkJoin, merge } from 'rxjs';
+import { catchError, filter, map, switchMap, tap } from 'rxjs/operators';
+import { EventBusService, EventTypes } from '@core/services/event-bus.service';
+import { StateService } from '@core/services/state.service';
+import { ScrollPositionService } from '@core/services/scroll-position.service';
+import { LoggerService } from '@core/services/logger.service';
+import { Permission } from '@core/models/permission.model';
+import { BatchFailure, PageQuery, PaginatedResponse } from '@core/models/common.model';
+import { QueuedOfflineError, toAppError } from '@core/errors/app-error';
+import { HasUnsavedChanges } from '@core/guards/unsaved-changes.guard';
+import { fromPageQueryParams, toPageQueryParams } from '@core/utils/page-query.util';
+import { DataTableColumn, getScrollContext } from '@shared/components/data-table/data-table.model';
+import { ExportService } from '@core/services/export.service';
+import { ExportColumn, ExportFormat } from '@core/models/export.model';
+import { DirectoryUser, USER_STATUSES, UserRole, UserStatus } from '@core/models/user.model';
+import { USER_ROLES, getRoleLabel } from '@core/models/role.model';
 import { UsersService } from '../../services/users.service';
-import { User } from '../../models/user.model';
+import { UserFormComponent } from '../user-form/user-form.component';
+import { UserEvents } from '../../models/user-events.model';
+
+const TABLE_ID = 'users';
+const FILTER_KEYS = ['search', 'role', 'status', 'joined'];
+const DEFAULT_PAGE_SIZE = 10;
+// Most pages reloaded at once when coming back to an infinitely scrolled list
+const MAX_RESTORED_PAGES = 20;
+
+type BulkAction = 'role' | 'status' | 'delete';
+
+const EXPORT_COLUMNS: ExportColumn<DirectoryUser>[] = [
+  { key: 'name', header: 'Name', value: user => user.name },
+  { key: 'email', header: 'Email', value: user => user.email },
+  { key: 'role', header: 'Role', value: user => getRoleLabel(user.role) },
+  { key: 'status', header: 'Status', value: user => user.status },
+  { key: 'joinedDate', header: 'Joined', type: 'date', value: user => user.joinedDate },
+  { key: 'lastActive', header: 'Last active', type: 'datetime', value: user => user.lastActive }
+];
+
+// Users a bulk action couldn't be applied to, and why
+interface BulkReport {
+  title: string;
+  failures: Array<{ name: string; message: string }>;
+}
+
+// Pages to fetch and whether they extend the rows already shown
+interface LoadRequest {
+  query: PageQuery;
+  pages: number[];
+  append: boolean;
+}
 
 @Component({
   selector: 'app-users-list',
   templateUrl: './users-list.component.html',
   styleUrls: ['./users-list.component.scss']
 })
-export class UsersListComponent implements OnInit {
-  users: User[] = [];
+export class UsersListComponent implements OnInit, OnDestroy, HasUnsavedChanges {
+  @ViewChild(UserFormComponent) userForm?: UserFormComponent;
+
+  users: DirectoryUser[] = [];
+  total = 0;
   loading = true;
-  selectedUser: User | null = null;
-  showAddModal = false;
-  showEditModal = false;
-  
-  // Form data
-  newUser = {
-    name: '',
-    email: '',
-    role: 'User',
-    status: 'active' as 'active' | 'inactive' | 'pending'
-  };
-
-  editingUser: User | null = null;
-
-  roles = ['Admin', 'Manager', 'User', 'Viewer'];
-  statuses: Array<'active' | 'inactive' | 'pending'> = ['active', 'inactive', 'pending'];
+  refreshing = false;
+  infinite = false;
+  hasMore = false;
+  loadError: string | null = null;
+  showUserForm = false;
+  showInviteForm = false;
+  // The user being edited; null while adding one
+  formUser: DirectoryUser | null = null;
+
+  // Page, sort and filters; mirrored in the URL query string so views can be bookmarked and shared
+  query: PageQuery;
+
+  // Multi-select and bulk actions
+  selectedUsers: DirectoryUser[] = [];
+  userToDelete: DirectoryUser | null = null;
+  deleteInProgress = false;
+  deleteError: string | null = null;
+  bulkAction: BulkAction | null = null;
+  bulkRole: UserRole = UserRole.USER;
+  bulkStatus: UserStatus = 'active';
+  bulkInProgress = false;
+  bulkError: string | null = null;
+  bulkReport: BulkReport | null = null;
+  exporting = false;
+
+  roles = USER_ROLES;
+  statuses = USER_STATUSES;
+  tableId = TABLE_ID;
+  columns: DataTableColumn<DirectoryUser>[] = [
+    { field: 'name', header: 'User', sortable: true, filter: { type: 'text', key: 'search', placeholder: 'Name or email' } },
+    { field: 'email', header: 'Email', sortable: true },
+    {
+      field: 'role',
+      header: 'Role',
+      sortable: true,
+      filter: { type: 'select', options: this.roles.map(role => ({ value: role, label: getRoleLabel(role) })) }
+    },
+    {
+      field: 'status',
+      header: 'Status',
+      sortable: true,
+      filter: { type: 'select', options: this.statuses.map(status => ({ value: status, label: this.getStatusLabel(status) })) }
+    },
+    { field: 'joinedDate', header: 'Joined', sortable: true, filter: { type: 'date-range', key: 'joined' } },
+    { field: 'actions', header: 'Actions', hideable: false }
+  ];
+  Permission = Permission; // Expose Permission to template
+
+  private defaultQuery: PageQuery;
+  private selectedUserId: string | null = null;
+  private loadedPages = 0;
+  private loadRequests = new Subject<LoadRequest>();
+  private subscriptions = new Subscription();
 
   constructor(
     private usersService: UsersService,
-    private router: Router
-  ) {}
+    private eventBus: EventBusService,
+    private stateService: StateService,
+    private scrollPositions: ScrollPositionService,
+    private exportService: ExportService,
+    private logger: LoggerService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {
+    const preferences = this.stateService.getTablePreferences(TABLE_ID);
+    this.defaultQuery = {
+      page: 1,
+      pageSize: preferences.pageSize ?? DEFAULT_PAGE_SIZE,
+      sort: [],
+      filter: {}
+    };
+    this.query = this.defaultQuery;
+    this.infinite = preferences.infiniteScroll ?? false;
+  }
 
   ngOnInit(): void {
-    this.loadUsers();
+    const query$ = this.route.queryParamMap.pipe(
+      map(params => fromPageQueryParams(
+        Object.fromEntries(params.keys.map(key => [key, params.get(key) ?? undefined])),
+        this.defaultQuery,
+        FILTER_KEYS
+      )),
+      tap(query => this.query = query),
+      map(query => this.getInitialLoad(query))
+    );
+
+    this.subscriptions.add(
+      merge(query$, this.loadRequests).pipe(
+        switchMap(request => this.fetch(request))
+      ).subscribe()
+    );
+
+    // Highlight the user open in the detail page when coming back to the list
+    this.subscriptions.add(
+      this.stateService.selectedUserId$.subscribe(id => this.selectedUserId = id)
+    );
+
+    // Reload on any change, including ones made elsewhere (e.g. "Undo" on a toast)
+    this.subscriptions.add(
+      this.eventBus.on('users:*').pipe(
+        filter(event => event.type !== UserEvents.SELECTED)
+      ).subscribe(() => this.loadUsers())
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  get selectedUser(): DirectoryUser | null {
+    return this.users.find(user => user.id === this.selectedUserId) ?? null;
   }
 
+  /**
+   * Reload the rows currently shown
+   */
   loadUsers(): void {
-    this.loading = true;
-    this.usersService.getUsers().subscribe(users => {
-      this.users = users;
-      this.loading = false;
+    this.loadRequests.next({
+      query: this.query,
+      pages: this.infinite ? pageNumbers(Math.max(this.loadedPages, 1)) : [this.query.page],
+      append: false
     });
   }
 
-  onUserClick(user: User): void {
-    this.selectedUser = user;
-    this.usersService.selectUser(user);
+  onLoadMore(): void {
+    if (this.hasMore && !this.refreshing) {
+      this.loadRequests.next({ query: this.query, pages: [this.loadedPages + 1], append: true });
+    }
+  }
+
+  setInfiniteScroll(infinite: boolean): void {
+    this.infinite = infinite;
+    this.stateService.setTablePreferences(TABLE_ID, { infiniteScroll: infinite });
+
+    if (this.query.page !== 1) {
+      this.navigate({ ...this.query, page: 1 });
+    } else {
+      this.loadRequests.next(this.getInitialLoad(this.query));
+    }
+  }
+
+  onQueryChange(query: PageQuery): void {
+    this.navigate(query);
+  }
+
+  onUserClick(user: DirectoryUser): void {
+    this.router.navigate([user.id], { relativeTo: this.route });
   }
 
   onAddUser(): void {
-    this.showAddModal = true;
-    this.resetForm();
+    this.formUser = null;
+    this.showUserForm = true;
   }
 
-  onCloseAddModal(): void {
-    this.showAddModal = false;
-    this.resetForm();
+  onInviteUsers(): void {
+    this.showInviteForm = true;
   }
 
-  onSubmitNewUser(): void {
-    if (this.newUser.name && this.newUser.email) {
-      this.usersService.addUser(this.newUser).subscribe(() => {
-        this.loadUsers();
-        this.onCloseAddModal();
-      });
-    }
+  onImportUsers(): void {
+    this.router.navigate(['import'], { relativeTo: this.route });
   }
 
-  onEditUser(user: User, event: Event): void {
+  onEditUser(user: DirectoryUser, event: Event): void {
     event.stopPropagation();
-    this.editingUser = { ...user };
-    this.showEditModal = true;
+    this.formUser = user;
+    this.showUserForm = true;
   }
 
-  onCloseEditModal(): void {
-    this.showEditModal = false;
-    this.editingUser = null;
+  onRequestCloseUserForm(): void {
+    // The form asks before throwing away unsaved changes
+    if (this.userForm) {
+      this.userForm.requestClose();
+    } else {
+      this.onCloseUserForm();
+    }
   }
 
-  onSubmitEditUser(): void {
-    if (this.editingUser) {
-      this.usersService.updateUser(this.editingUser.id, this.editingUser).subscribe(() => {
-        this.loadUsers();
-        this.onCloseEditModal();
-      });
-    }
+  onCloseUserForm(): void {
+    this.showUserForm = false;
+    this.formUser = null;
   }
 
-  onDeleteUser(user: User, event: Event): void {
+  hasUnsavedChanges(): boolean {
+    return this.userForm?.isDirty ?? false;
+  }
+
+  onDeleteUser(user: DirectoryUser, event: Event): void {
     event.stopPropagation();
-    if (confirm(`Are you sure you want to delete ${user.name}?`)) {
-      this.usersService.deleteUser(user.id).subscribe(() => {
-        if (this.selectedUser?.id === user.id) {
-          this.selectedUser = null;
+    this.userToDelete = user;
+    this.deleteError = null;
+  }
+
+  onCancelDelete(): void {
+    if (!this.deleteInProgress) {
+      this.userToDelete = null;
+    }
+  }
+
+  onConfirmDelete(): void {
+    const user = this.userToDelete;
+    if (!user || this.deleteInProgress) {
+      return;
+    }
+
+    this.deleteInProgress = true;
+    this.deleteError = null;
+    this.usersService.deleteUser(user).subscribe({
+      next: () => {
+        this.deleteInProgress = false;
+        this.userToDelete = null;
+        this.removeFromSelection([user.id]);
+      },
+      error: error => {
+        this.deleteInProgress = false;
+        // Deleted later, when the connection returns - asking again would queue a second delete
+        if (error instanceof QueuedOfflineError) {
+          this.userToDelete = null;
+          this.eventBus.emit(EventTypes.NOTIFICATION, { type: 'warning', message: error.message });
+          return;
         }
-        this.loadUsers();
-      });
+        // Keep the dialog open to show why and allow a retry
+        this.deleteError = toAppError(error).message;
+      }
+    });
+  }
+
+  openBulkAction(action: BulkAction): void {
+    this.bulkAction = action;
+    this.bulkError = null;
+  }
+
+  closeBulkAction(): void {
+    if (!this.bulkInProgress) {
+      this.bulkAction = null;
     }
   }
 
-  resetForm(): void {
-    this.newUser = {
-      name: '',
-      email: '',
-      role: 'User',
-      status: 'active'
-    };
+  onConfirmBulkAction(): void {
+    const action = this.bulkAction;
+    const users = this.selectedUsers;
+    if (!action || users.length === 0) {
+      return;
+    }
+
+    const ids = users.map(user => user.id);
+    const request$ = action === 'delete'
+      ? this.usersService.deleteUsers(ids).pipe(map(result => ({ succeeded: result.succeeded, failed: result.failed })))
+      : this.usersService.updateUsers(ids, action === 'role' ? { role: this.bulkRole } : { status: this.bulkStatus }).pipe(
+          map(result => ({ succeeded: result.succeeded.map(user => user.id), failed: result.failed }))
+        );
+
+    this.bulkInProgress = true;
+    this.bulkError = null;
+    request$.subscribe({
+      next: ({ succeeded, failed }) => {
+        this.bulkInProgress = false;
+        this.bulkAction = null;
+        // Users that failed stay selected so the action can be retried
+        this.removeFromSelection(succeeded);
+        if (failed.length > 0) {
+          this.bulkReport = this.createBulkReport(action, users, succeeded.length, failed);
+        }
+      },
+      // Nothing was changed; keep the dialog open to show why and allow a retry
+      error: error => {
+        this.bulkInProgress = false;
+        this.bulkError = toAppError(error).message;
+      }
+    });
+  }
+
+  closeBulkReport(): void {
+    this.bulkReport = null;
+  }
+
+  exportSelected(format: ExportFormat): void {
+    this.exportUsers(format, this.selectedUsers, 'Selected users');
+  }
+
+  /**
+   * Export every user matching the current filters and sort, not only the rows loaded in the table
+   */
+  exportFiltered(format: ExportFormat): void {
+    this.exporting = true;
+    this.usersService.getAllUsers(this.query).subscribe({
+      next: users => {
+        this.exporting = false;
+        this.exportUsers(format, users, 'Users');
+      },
+      error: error => {
+        this.exporting = false;
+        const appError = toAppError(error);
+        this.logger.error('Export of the filtered users failed', appError);
+        this.eventBus.emit(EventTypes.NOTIFICATION, {
+          type: 'error',
+          title: 'Export failed',
+          message: appError.message
+        });
+      }
+    });
   }
 
   getStatusColor(status: string): string {
@@ -126,4 +379,80 @@ export class UsersListComponent implements OnInit {
   getStatusLabel(status: string): string {
     return status.charAt(0).toUpperCase() + status.slice(1);
   }
+
+  private exportUsers(format: ExportFormat, users: DirectoryUser[], title: string): void {
+    this.exportService.export({
+      format,
+      title,
+      fileName: title.toLowerCase().replace(/\s+/g, '-'),
+      columns: EXPORT_COLUMNS,
+      rows: users
+    });
+  }
+
+  private removeFromSelection(ids: string[]): void {
+    this.selectedUsers = this.selectedUsers.filter(user => !ids.includes(user.id));
+  }
+
+  private createBulkReport(action: BulkAction, users: DirectoryUser[], succeeded: number, failed: BatchFailure[]): BulkReport {
+    const verb = action === 'delete' ? 'deleted' : 'updated';
+    return {
+      title: `${succeeded} of ${users.length} users ${verb}`,
+      failures: failed.map(failure => ({
+        name: users.find(user => user.id === failure.id)?.name ?? failure.id,
+        message: failure.message
+      }))
+    };
+  }
+
+  private getInitialLoad(query: PageQuery): LoadRequest {
+    if (!this.infinite) {
+      return { query, pages: [query.page], append: false };
+    }
+
+    // Coming back to the list: load the rows shown before so the scroll position can be restored
+    const saved = this.scrollPositions.get(TABLE_ID, getScrollContext(query, true));
+    const pageCount = saved ? Math.ceil(saved.itemCount / query.pageSize) : 1;
+    return { query: { ...query, page: 1 }, pages: pageNumbers(Math.min(Math.max(pageCount, 1), MAX_RESTORED_PAGES)), append: false };
+  }
+
+  private fetch(request: LoadRequest): Observable<PaginatedResponse<DirectoryUser>[]> {
+    const { query, pages, append } = request;
+    this.refreshing = true;
+
+    return forkJoin(pages.map(page => this.usersService.getUsers({ ...query, page }))).pipe(
+      tap(responses => {
+        const last = responses[responses.length - 1];
+
+        // The page no longer exists (e.g. its last user was deleted) - go to the last one
+        if (!this.infinite && last.items.length === 0 && last.total > 0 && query.page > 1) {
+          this.navigate({ ...query, page: Math.ceil(last.total / query.pageSize) });
+          return;
+        }
+
+        const users = responses.flatMap(response => response.items);
+        this.users = append ? [...this.users, ...users] : users;
+        this.loadedPages = append ? this.loadedPages + pages.length : pages.length;
+        this.total = last.total;
+        this.hasMore = this.infinite && this.users.length < this.total;
+        this.loadError = null;
+        this.loading = false;
+        this.refreshing = false;
+      }),
+      catchError(error => {
+        this.loadError = toAppError(error).message;
+        this.loading = false;
+        this.refreshing = false;
+        return EMPTY;
+      })
+    );
+  }
+
+  private navigate(query: PageQuery): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: toPageQueryParams(query) });
+  }
+}
+
+function pageNumbers(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
 }
@@ -0,0 +1,18 @@
+import { DirectoryUser } from '@core/models/user.model';
+
+export const UserEvents = {
+  SELECTED: 'users:selected',
+  UPDATED: 'users:updated',
+  DELETED: 'users:deleted',
+  // Several users were changed, deleted or restored at once
+  BULK_CHANGED: 'users:bulk-changed'
+} as const;
+
+declare module '@core/services/event-bus.service' {
+  interface AppEventMap {
+    'users:selected': DirectoryUser;
+    'users:updated': DirectoryUser;
+    'users:deleted': { id: string };
+    'users:bulk-changed': { ids: string[] };
+  }
+}
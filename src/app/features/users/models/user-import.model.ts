@@ -0,0 +1,61 @@
+import { parseCsv } from '@core/utils/csv.util';
+import { readXlsx } from '@core/utils/xlsx.util';
+
+export type ImportField = 'name' | 'email' | 'role' | 'status';
+
+// Column index (in the file) for each user field; null when not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * A data row of the file, as it will be sent to the API
+ */
+export interface ImportRow {
+  // Row in the file, counting the header as row 1 (blank rows are skipped)
+  line: number;
+  name: string;
+  email: string;
+  // The role's label once recognised, otherwise the text of the file
+  role: string;
+  status: string;
+  errors: string[];
+}
+
+export interface ImportFailure {
+  row: ImportRow;
+  message: string;
+}
+
+export interface ImportProgress {
+  total: number;
+  processed: number;
+  imported: number;
+  failures: ImportFailure[];
+}
+
+// Messages exchanged with the parsing worker
+export interface ImportParseRequest {
+  file: File;
+}
+
+export type ImportParseResponse =
+  | { ok: true; rows: string[][] }
+  | { ok: false; message: string };
+
+export const IMPORT_FILE_TYPES = '.csv,.xlsx';
+
+/**
+ * Read the rows of a CSV or XLSX file. Used by the worker, and on the main
+ * thread where workers aren't available.
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const extension = file.name.slice(file.name.lastIndexOf('.') + 1).toLowerCase();
+
+  switch (extension) {
+    case 'csv':
+      return parseCsv(await file.text());
+    case 'xlsx':
+      return readXlsx(await file.arrayBuffer());
+    default:
+      throw new Error('Choose a .csv or .xlsx file');
+  }
+}
@@ -1,10 +1,38 @@
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: string;
-  status: 'active' | 'inactive' | 'pending';
-  avatar?: string;
-  joinedDate: Date;
-  lastActive?: Date;
+import { UserRole } from '@core/models/user.model';
+
+/**
+ * An entry in a user's role history
+ */
+export interface RoleChange {
+  role: UserRole;
+  // null for the role the user was created with
+  previousRole: UserRole | null;
+  changedAt: Date;
+}
+
+export const INVITATION_STATUSES = ['pending', 'expired', 'accepted', 'revoked'] as const;
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+export const INVITATION_EVENT_TYPES = ['invited', 'resent', 'revoked', 'accepted'] as const;
+
+/**
+ * An entry in an invitation's audit trail
+ */
+export interface InvitationEvent {
+  type: typeof INVITATION_EVENT_TYPES[number];
+  at: Date;
+  // Email of whoever did it; null when unknown
+  by: string | null;
+}
+
+/**
+ * The invitation of a user created by inviting them by email
+ */
+export interface Invitation {
+  status: InvitationStatus;
+  expiresAt: Date;
+  // Identifies the accept link; null once the invitation is accepted or revoked
+  token: string | null;
+  // Newest first
+  events: InvitationEvent[];
 }
@@ -0,0 +1,43 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, Resolve, Router } from '@angular/router';
+import { EMPTY, Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { EventBusService, EventTypes } from '@core/services/event-bus.service';
+import { NotFoundError } from '@core/errors/app-error';
+import { DirectoryUser } from '@core/models/user.model';
+import { UsersService } from '../services/users.service';
+
+/**
+ * UserResolver - Loads the user named by the `:id` route param
+ *
+ * An unknown id cancels the navigation and falls back to the users list
+ * with a warning, so stale or mistyped links don't show an empty page.
+ */
+@Injectable()
+export class UserResolver implements Resolve<DirectoryUser> {
+
+  constructor(
+    private usersService: UsersService,
+    private eventBus: EventBusService,
+    private router: Router
+  ) {}
+
+  resolve(route: ActivatedRouteSnapshot): Observable<DirectoryUser> {
+    const id = route.paramMap.get('id')!;
+
+    return this.usersService.getUserById(id).pipe(
+      catchError(error => {
+        if (!(error instanceof NotFoundError)) {
+          return throwError(() => error);
+        }
+
+        this.eventBus.emit(EventTypes.NOTIFICATION, {
+          type: 'warning',
+          message: 'That user no longer exists or the link is wrong'
+        });
+        this.router.navigate(['/users']);
+        return EMPTY;
+      })
+    );
+  }
+}
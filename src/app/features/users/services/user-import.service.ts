@@ -0,0 +1,199 @@
+import { Injectable } from '@angular/core';
+import { Observable, defer, from, of, throwError } from 'rxjs';
+import { catchError, concatMap, map, scan, startWith } from 'rxjs/operators';
+import { BatchResult } from '@core/models/common.model';
+import { AppError, toAppError } from '@core/errors/app-error';
+import { toCsv } from '@core/utils/csv.util';
+import { DirectoryUser, EMAIL_PATTERN, USER_STATUSES, UserRole } from '@core/models/user.model';
+import { ROLE_REGISTRY, getRoleLabel, parseRole } from '@core/models/role.model';
+import { UsersService } from './users.service';
+import {
+  ColumnMapping,
+  ImportFailure,
+  ImportField,
+  ImportParseRequest,
+  ImportParseResponse,
+  ImportProgress,
+  ImportRow,
+  readSpreadsheet
+} from '../models/user-import.model';
+
+const BATCH_SIZE = 50;
+
+// Header names recognised when guessing the column of each field
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'fullname', 'display name'],
+  email: ['email', 'e-mail', 'email address', 'mail'],
+  role: ['role', 'user role'],
+  status: ['status', 'state']
+};
+
+/**
+ * UserImportService - Reads, checks and creates users from a CSV or XLSX file
+ *
+ * Files are parsed in a web worker. Rows are checked before anything is
+ * sent, then created in batches of BATCH_SIZE; each row succeeds or fails on
+ * its own.
+ */
+@Injectable()
+export class UserImportService {
+
+  constructor(private usersService: UsersService) {}
+
+  /**
+   * All rows of the file, header included
+   */
+  parseFile(file: File): Observable<string[][]> {
+    if (typeof Worker === 'undefined') {
+      return defer(() => readSpreadsheet(file)).pipe(
+        catchError(error => throwError(() => new AppError(error.message, { cause: error })))
+      );
+    }
+
+    return new Observable<string[][]>(subscriber => {
+      const worker = new Worker(new URL('../workers/user-import.worker', import.meta.url), { type: 'module' });
+
+      worker.onmessage = ({ data }: MessageEvent<ImportParseResponse>) => {
+        if (data.ok) {
+          subscriber.next(data.rows);
+          subscriber.complete();
+        } else {
+          subscriber.error(new AppError(data.message));
+        }
+      };
+      worker.onerror = event => subscriber.error(new AppError('The file could not be read', { cause: event }));
+      worker.postMessage({ file } satisfies ImportParseRequest);
+
+      return () => worker.terminate();
+    });
+  }
+
+  /**
+   * Match header names to fields, e.g. "E-mail" -> email
+   */
+  guessMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    const find = (field: ImportField) => {
+      const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+      return index === -1 ? null : index;
+    };
+    return { name: find('name'), email: find('email'), role: find('role'), status: find('status') };
+  }
+
+  /**
+   * Turn data rows into ImportRows and flag invalid values, emails repeated
+   * in the file and emails that already belong to a user
+   */
+  validate(rows: string[][], mapping: ColumnMapping): Observable<ImportRow[]> {
+    const importRows = rows.map((row, index) => this.toImportRow(row, index + 2, mapping));
+
+    // Later rows with an email seen before are the duplicates
+    const firstLines = new Map<string, number>();
+    importRows.forEach(row => {
+      const email = row.email.toLowerCase();
+      const firstLine = firstLines.get(email);
+      if (!email) {
+        return;
+      }
+      if (firstLine !== undefined) {
+        row.errors.push(`Same email as row ${firstLine}`);
+      } else {
+        firstLines.set(email, row.line);
+      }
+    });
+
+    const emails = [...firstLines.keys()].filter(email => EMAIL_PATTERN.test(email));
+    const inUse$ = emails.length > 0 ? this.usersService.findEmailsInUse(emails) : of([]);
+
+    return inUse$.pipe(
+      map(inUse => {
+        const taken = new Set(inUse.map(email => email.toLowerCase()));
+        importRows
+          .filter(row => taken.has(row.email.toLowerCase()))
+          .forEach(row => row.errors.push('Email is already in use'));
+        return importRows;
+      })
+    );
+  }
+
+  /**
+   * Create the users in batches. Emits the progress before the first batch and after each one.
+   */
+  submit(rows: ImportRow[]): Observable<ImportProgress> {
+    const batches = Array.from({ length: Math.ceil(rows.length / BATCH_SIZE) }, (_, i) =>
+      rows.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE));
+    const initial: ImportProgress = { total: rows.length, processed: 0, imported: 0, failures: [] };
+
+    return from(batches).pipe(
+      concatMap(batch => this.usersService.addUsers(batch.map(({ name, email, role, status }) => ({
+        name,
+        email,
+        // Only rows without errors are sent, so both are valid
+        role: parseRole(role) as UserRole,
+        status: status as DirectoryUser['status']
+      }))).pipe(
+        // A batch that fails as a whole fails each of its rows; the next batches still run
+        catchError(error => of<BatchResult<DirectoryUser>>({
+          succeeded: [],
+          failed: batch.map((_, index) => ({ id: String(index), message: toAppError(error).message }))
+        })),
+        map(result => ({ batch, result }))
+      )),
+      scan((progress, { batch, result }) => ({
+        ...progress,
+        processed: progress.processed + batch.length,
+        imported: progress.imported + result.succeeded.length,
+        failures: [
+          ...progress.failures,
+          ...result.failed.map(failure => ({ row: batch[Number(failure.id)], message: failure.message }))
+        ]
+      }), initial),
+      startWith(initial)
+    );
+  }
+
+  /**
+   * CSV of the rows that were not imported and why
+   */
+  createErrorReport(failures: ImportFailure[]): string {
+    return toCsv([
+      ['Row', 'Name', 'Email', 'Role', 'Status', 'Error'],
+      ...failures.map(({ row, message }) => [row.line, row.name, row.email, row.role, row.status, message])
+    ]);
+  }
+
+  private toImportRow(row: string[], line: number, mapping: ColumnMapping): ImportRow {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const name = value('name');
+    if (!name) {
+      errors.push('Name is required');
+    }
+
+    const email = value('email');
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`"${email}" is not a valid email address`);
+    }
+
+    // Values are matched case-insensitively; empty cells get the defaults
+    const rawRole = value('role');
+    const role = rawRole ? parseRole(rawRole) : UserRole.USER;
+    if (!role) {
+      errors.push(`Role must be one of ${ROLE_REGISTRY.map(definition => definition.label).join(', ')}`);
+    }
+
+    const rawStatus = value('status');
+    const status = rawStatus ? USER_STATUSES.find(option => option === rawStatus.toLowerCase()) : 'active';
+    if (!status) {
+      errors.push(`Status must be one of ${USER_STATUSES.join(', ')}`);
+    }
+
+    return { line, name, email, role: role ? getRoleLabel(role) : rawRole, status: status ?? rawStatus, errors };
+  }
+}
@@ -0,0 +1,114 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of } from 'rxjs';
+import { ApiService } from '@core/services/api.service';
+import { InvalidResponseError } from '@core/errors/app-error';
+import { UsersService } from './users.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let api: jasmine.SpyObj<ApiService>;
+
+  beforeEach(() => {
+    api = jasmine.createSpyObj<ApiService>('ApiService', ['get', 'post']);
+
+    TestBed.configureTestingModule({
+      providers: [UsersService, { provide: ApiService, useValue: api }]
+    });
+    service = TestBed.inject(UsersService);
+  });
+
+  const respondWith = (data: unknown) => api.get.and.returnValue(of({ success: true, data }));
+
+  const rejection = async (request: Promise<unknown>): Promise<InvalidResponseError> => {
+    try {
+      await request;
+    } catch (error) {
+      return error as InvalidResponseError;
+    }
+    throw new Error('Expected the response to be rejected');
+  };
+
+  describe('getUserActivity', () => {
+    const activity = {
+      id: 'a1',
+      type: 'login',
+      description: 'Signed in',
+      timestamp: '2024-03-01T10:00:00.000Z'
+    };
+
+    it('should map the page of activity', async () => {
+      respondWith({ items: [activity], total: 1, page: 1, pageSize: 20 });
+
+      expect(await firstValueFrom(service.getUserActivity('1', 1, 20))).toEqual({
+        items: [{ ...activity, timestamp: new Date('2024-03-01T10:00:00.000Z'), user: undefined }],
+        total: 1,
+        page: 1,
+        pageSize: 20
+      });
+    });
+
+    it('should reject malformed activity', async () => {
+      respondWith({ items: [activity, { ...activity, timestamp: 'yesterday' }], total: 2, page: 1, pageSize: 20 });
+
+      const error = await rejection(firstValueFrom(service.getUserActivity('1', 1, 20)));
+
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect(error.cause).toBe('items[1].timestamp: expected an ISO 8601 date');
+    });
+
+    it('should reject a page without items', async () => {
+      respondWith({ total: 0, page: 1, pageSize: 20 });
+
+      expect(await rejection(firstValueFrom(service.getUserActivity('1', 1, 20)))).toBeInstanceOf(InvalidResponseError);
+    });
+  });
+
+  describe('getInvitation', () => {
+    const invitation = {
+      status: 'pending',
+      expiresAt: '2024-03-08T10:00:00.000Z',
+      token: 'secret',
+      events: [{ type: 'invited', at: '2024-03-01T10:00:00.000Z', by: null }]
+    };
+
+    it('should map the invitation', async () => {
+      respondWith(invitation);
+
+      expect(await firstValueFrom(service.getInvitation('1'))).toEqual({
+        status: 'pending',
+        expiresAt: new Date('2024-03-08T10:00:00.000Z'),
+        token: 'secret',
+        events: [{ type: 'invited', at: new Date('2024-03-01T10:00:00.000Z'), by: null }]
+      });
+    });
+
+    it('should return null for users that were not invited', async () => {
+      respondWith(null);
+
+      expect(await firstValueFrom(service.getInvitation('1'))).toBeNull();
+    });
+
+    it('should reject an unknown status', async () => {
+      respondWith({ ...invitation, status: 'lost' });
+
+      const error = await rejection(firstValueFrom(service.getInvitation('1')));
+
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect(error.cause).toBe('invitation.status: expected one of pending, expired, accepted, revoked');
+    });
+
+    it('should reject malformed events', async () => {
+      respondWith({ ...invitation, events: [{ type: 'invited', at: '2024-03-01T10:00:00.000Z', by: 42 }] });
+
+      const error = await rejection(firstValueFrom(service.getInvitation('1')));
+
+      expect(error.cause).toBe('invitation.events[0].by: expected a string');
+    });
+
+    it('should reject an invitation without events', async () => {
+      respondWith({ ...invitation, events: undefined });
+
+      expect(await rejection(firstValueFrom(service.getInvitation('1')))).toBeInstanceOf(InvalidResponseError);
+    });
+  });
+});
@@ -1,127 +1,367 @@
 import { Injectable } from '@angular/core';
-import { Observable, of, BehaviorSubject } from 'rxjs';
-import { delay, map } from 'rxjs/operators';
-import { User } from '../models/user.model';
+import { Observable, forkJoin, of } from 'rxjs';
+import { map, switchMap, tap } from 'rxjs/operators';
+import { INVITATION_EVENT_TYPES, INVITATION_STATUSES, Invitation, InvitationEvent, RoleChange } from '../models/user.model';
+import { UserEvents } from '../models/user-events.model';
 import { StateService } from '@core/services/state.service';
 import { EventBusService, EventTypes } from '@core/services/event-bus.service';
+import { HttpCacheService } from '@core/services/http-cache.service';
+import { ApiService } from '@core/services/api.service';
+import { ApiResponse, BatchResult, PageQuery, PaginatedResponse } from '@core/models/common.model';
+import { NotificationOptions } from '@core/models/notification.model';
+import { Activity } from '@core/models/activity.model';
+import { toPageQueryParams } from '@core/utils/page-query.util';
+import { readArray, readDate, readObject, readOneOf, readOptionalString, readString } from '@core/utils/payload.util';
+import { DirectoryUser, UserRole } from '@core/models/user.model';
+import { parseRole } from '@core/models/role.model';
+import { readRole, toDirectoryUser, toDirectoryUserDto, toRoleDto } from '@core/adapters/user.adapter';
 
-const MOCK_USERS: User[] = [
-  {
-    id: '1',
-    name: 'John Doe',
-    email: 'john.doe@example.com',
-    role: 'Admin',
-    status: 'active',
-    avatar: 'https://ui-avatars.com/api/?name=John+Doe&background=4F46E5&color=fff',
-    joinedDate: new Date('2023-01-15'),
-    lastActive: new Date()
-  },
-  {
-    id: '2',
-    name: 'Jane Smith',
-    email: 'jane.smith@example.com',
-    role: 'User',
-    status: 'active',
-    avatar: 'https://ui-avatars.com/api/?name=Jane+Smith&background=10B981&color=fff',
-    joinedDate: new Date('2023-03-22'),
-    lastActive: new Date(Date.now() - 1000 * 60 * 30)
-  },
-  {
-    id: '3',
-    name: 'Bob Johnson',
-    email: 'bob.johnson@example.com',
-    role: 'User',
-    status: 'inactive',
-    avatar: 'https://ui-avatars.com/api/?name=Bob+Johnson&background=EF4444&color=fff',
-    joinedDate: new Date('2023-05-10'),
-    lastActive: new Date(Date.now() - 1000 * 60 * 60 * 24 * 7)
-  },
-  {
-    id: '4',
-    name: 'Alice Williams',
-    email: 'alice.williams@example.com',
-    role: 'Manager',
-    status: 'active',
-    avatar: 'https://ui-avatars.com/api/?name=Alice+Williams&background=F59E0B&color=fff',
-    joinedDate: new Date('2023-02-01'),
-    lastActive: new Date(Date.now() - 1000 * 60 * 5)
-  }
-];
+const USERS_CACHE_TAG = 'users';
+const USERS_CACHE_TTL = 60 * 1000;
+// The largest page the API returns
+const MAX_PAGE_SIZE = 100;
+// How long a bulk delete can be undone from its notification
+const BULK_UNDO_DURATION = 10 * 1000;
 
+
+export type NewUser = Pick<DirectoryUser, 'name' | 'email' | 'role' | 'status'>;
+
+// Fields that can be changed on many users at once
+export type BulkUserChanges = Partial<Pick<DirectoryUser, 'role' | 'status'>>;
+
+/**
+ * UsersService - Reads and changes users through the users API
+ *
+ * Users are checked and mapped by the user adapters in core, so a malformed
+ * response fails with an InvalidResponseError instead of reaching the views.
+ */
 @Injectable()
 export class UsersService {
-  private usersSubject = new BehaviorSubject<User[]>(MOCK_USERS);
-  public users$ = this.usersSubject.asObservable();
 
   constructor(
+    private api: ApiService,
     private stateService: StateService,
-    private eventBus: EventBusService
-  ) {}
+    private eventBus: EventBusService,
+    private cache: HttpCacheService
+  ) {
+    // Any change to a user makes cached user lists outdated
+    this.cache.invalidateTagsOn([UserEvents.UPDATED, UserEvents.DELETED, UserEvents.BULK_CHANGED], [USERS_CACHE_TAG]);
+  }
 
-  getUsers(): Observable<User[]> {
-    return this.users$.pipe(delay(500));
+  /**
+   * One page of users; `query.filter` accepts `search`, `email`, `role`, `status` and `joined`
+   */
+  getUsers(query: PageQuery): Observable<PaginatedResponse<DirectoryUser>> {
+    return this.api.get<ApiResponse<PaginatedResponse<unknown>>>('/users', {
+      params: toPageQueryParams(toApiQuery(query)),
+      cache: { ttl: USERS_CACHE_TTL, tags: [USERS_CACHE_TAG] }
+    }).pipe(
+      map(response => ({ ...response.data, items: toUsers(response.data.items, 'items') }))
+    );
   }
 
-  getUserById(id: string): Observable<User | undefined> {
-    return this.users$.pipe(
-      map(users => users.find(u => u.id === id)),
-      delay(300)
+  /**
+   * Every user matching the filters of `query`, in its sort order (e.g. for exports)
+   */
+  getAllUsers(query: PageQuery): Observable<DirectoryUser[]> {
+    const getPage = (page: number) => this.getUsers({ ...query, page, pageSize: MAX_PAGE_SIZE });
+
+    return getPage(1).pipe(
+      switchMap(first => {
+        const pageCount = Math.ceil(first.total / MAX_PAGE_SIZE);
+        if (pageCount <= 1) {
+          return of(first.items);
+        }
+        const rest = Array.from({ length: pageCount - 1 }, (_, i) => getPage(i + 2).pipe(map(page => page.items)));
+        return forkJoin(rest).pipe(map(pages => [first.items, ...pages].flat()));
+      })
     );
   }
 
-  addUser(userData: Omit<User, 'id' | 'avatar' | 'joinedDate' | 'lastActive'>): Observable<User> {
-    const newUser: User = {
-      id: String(Date.now()),
-      ...userData,
-      avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(userData.name)}&background=random&color=fff`,
-      joinedDate: new Date(),
-      lastActive: new Date()
-    };
+  getUserById(id: string): Observable<DirectoryUser> {
+    return this.api.get<ApiResponse<unknown>>(`/users/${encodeURIComponent(id)}`).pipe(
+      map(response => toDirectoryUser(response.data))
+    );
+  }
 
-    const currentUsers = this.usersSubject.value;
-    this.usersSubject.next([...currentUsers, newUser]);
+  /**
+   * Whether another user already has this email (`exceptId` is the user being edited)
+   */
+  isEmailTaken(email: string, exceptId?: string): Observable<boolean> {
+    return this.getUsers({ page: 1, pageSize: 2, sort: [], filter: { email: email.trim() } }).pipe(
+      map(page => page.items.some(user => user.id !== exceptId))
+    );
+  }
 
-    // Emit event
-    this.eventBus.emit(EventTypes.USER_UPDATED, newUser);
+  /**
+   * The given emails that already belong to a user
+   */
+  findEmailsInUse(emails: string[]): Observable<string[]> {
+    return this.api.post<ApiResponse<string[]>>('/users/emails-in-use', { emails }).pipe(
+      map(response => response.data)
+    );
+  }
 
-    return of(newUser).pipe(delay(500));
+  /**
+   * Role changes of a user, newest first
+   */
+  getRoleHistory(id: string): Observable<RoleChange[]> {
+    return this.api.get<ApiResponse<unknown>>(`/users/${encodeURIComponent(id)}/role-history`).pipe(
+      map(response => readArray(response.data, 'history').map((change, index) => toRoleChange(change, `history[${index}]`)))
+    );
   }
 
-  updateUser(id: string, userData: Partial<User>): Observable<User | undefined> {
-    const currentUsers = this.usersSubject.value;
-    const userIndex = currentUsers.findIndex(u => u.id === id);
+  /**
+   * One page of a user's activity, newest first
+   */
+  getUserActivity(id: string, page: number, pageSize: number): Observable<PaginatedResponse<Activity>> {
+    return this.api.get<ApiResponse<PaginatedResponse<unknown>>>(`/users/${encodeURIComponent(id)}/activity`, {
+      params: { page: String(page), pageSize: String(pageSize) }
+    }).pipe(
+      map(response => ({
+        ...response.data,
+        items: readArray(response.data.items, 'items').map((activity, index) => toActivity(activity, `items[${index}]`))
+      }))
+    );
+  }
 
-    if (userIndex === -1) {
-      return of(undefined).pipe(delay(300));
-    }
+  addUser(userData: NewUser): Observable<DirectoryUser> {
+    return this.api.post<ApiResponse<unknown>>('/users', toDirectoryUserDto(userData), { queueOffline: true }).pipe(
+      map(response => toDirectoryUser(response.data)),
+      tap(user => {
+        this.eventBus.emit(UserEvents.UPDATED, user);
+        this.notify({ type: 'success', message: `${user.name} was added` });
+      })
+    );
+  }
 
-    const updatedUser = { ...currentUsers[userIndex], ...userData };
-    const newUsers = [...currentUsers];
-    newUsers[userIndex] = updatedUser;
-    this.usersSubject.next(newUsers);
+  /**
+   * Create several users. Each user succeeds or fails on its own; failure ids
+   * are indexes into `users`.
+   */
+  addUsers(users: NewUser[]): Observable<BatchResult<DirectoryUser>> {
+    const body = { users: users.map(user => toDirectoryUserDto(user)) };
+    return this.api.post<ApiResponse<BatchResult<unknown>>>('/users/bulk-create', body).pipe(
+      map(response => ({ ...response.data, succeeded: toUsers(response.data.succeeded, 'succeeded') })),
+      tap(result => {
+        if (result.succeeded.length > 0) {
+          this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: result.succeeded.map(user => user.id) });
+        }
+      })
+    );
+  }
 
-    // Emit event
-    this.eventBus.emit(EventTypes.USER_UPDATED, updatedUser);
+  /**
+   * Create pending users and send each an invitation to set their password.
+   * Failure ids are the emails that could not be invited.
+   */
+  inviteUsers(emails: string[], role: UserRole): Observable<BatchResult<DirectoryUser>> {
+    const body = { emails, role: toRoleDto(role) };
+    return this.api.post<ApiResponse<BatchResult<unknown>>>('/users/invitations', body).pipe(
+      map(response => ({ ...response.data, succeeded: toUsers(response.data.succeeded, 'succeeded') })),
+      tap(result => {
+        if (result.succeeded.length > 0) {
+          this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: result.succeeded.map(user => user.id) });
+          this.notify({ type: 'success', message: `${pluralizeUsers(result.succeeded.length)} invited` });
+        }
+      })
+    );
+  }
 
-    return of(updatedUser).pipe(delay(500));
+  /**
+   * The invitation of a user; null for users that were not invited
+   */
+  getInvitation(id: string): Observable<Invitation | null> {
+    return this.api.get<ApiResponse<unknown>>(`/users/${encodeURIComponent(id)}/invitation`).pipe(
+      map(response => response.data === null ? null : toInvitation(response.data))
+    );
   }
 
-  deleteUser(id: string): Observable<boolean> {
-    const currentUsers = this.usersSubject.value;
-    const newUsers = currentUsers.filter(u => u.id !== id);
-    this.usersSubject.next(newUsers);
+  /**
+   * Send the invitation again with a new link; the previous link stops working
+   */
+  resendInvitation(user: DirectoryUser): Observable<Invitation> {
+    return this.changeInvitation(user, 'resend', `The invitation was sent to ${user.email} again`);
+  }
 
-    // Emit event
-    this.eventBus.emit(EventTypes.USER_DELETED, { id });
+  /**
+   * Invalidate the invitation link; the user becomes inactive
+   */
+  revokeInvitation(user: DirectoryUser): Observable<Invitation> {
+    return this.changeInvitation(user, 'revoke', `The invitation of ${user.email} was revoked`);
+  }
 
-    return of(true).pipe(delay(500));
+  updateUser(id: string, userData: Partial<DirectoryUser>): Observable<DirectoryUser> {
+    return this.api.put<ApiResponse<unknown>>(`/users/${encodeURIComponent(id)}`, toDirectoryUserDto(userData), { queueOffline: true }).pipe(
+      map(response => toDirectoryUser(response.data)),
+      tap(user => {
+        this.eventBus.emit(UserEvents.UPDATED, user);
+        this.notify({ type: 'success', message: `${user.name} was updated` });
+      })
+    );
   }
 
-  selectUser(user: User): void {
+  deleteUser(user: DirectoryUser): Observable<void> {
+    return this.api.delete<ApiResponse<null>>(`/users/${encodeURIComponent(user.id)}`, { queueOffline: true }).pipe(
+      map(() => undefined),
+      tap(() => {
+        this.deselect([user.id]);
+        this.eventBus.emit(UserEvents.DELETED, { id: user.id });
+        this.notify({
+          type: 'info',
+          message: `${user.name} was deleted`,
+          action: { label: 'Undo', handler: () => this.restoreUser(user.id) }
+        });
+      })
+    );
+  }
+
+  /**
+   * Apply the same changes to several users. Each user succeeds or fails on its
+   * own; failures are reported in the result rather than as an error.
+   */
+  updateUsers(ids: string[], changes: BulkUserChanges): Observable<BatchResult<DirectoryUser>> {
+    const body = { ids, changes: toDirectoryUserDto(changes) };
+    return this.api.post<ApiResponse<BatchResult<unknown>>>('/users/bulk-update', body).pipe(
+      map(response => ({ ...response.data, succeeded: toUsers(response.data.succeeded, 'succeeded') })),
+      tap(result => {
+        if (result.succeeded.length > 0) {
+          this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: result.succeeded.map(user => user.id) });
+          this.notify({ type: 'success', message: `${pluralizeUsers(result.succeeded.length)} updated` });
+        }
+      })
+    );
+  }
+
+  /**
+   * Delete several users; the notification offers an undo for a few seconds
+   */
+  deleteUsers(ids: string[]): Observable<BatchResult<string>> {
+    return this.api.post<ApiResponse<BatchResult<string>>>('/users/bulk-delete', { ids }).pipe(
+      map(response => response.data),
+      tap(result => {
+        if (result.succeeded.length === 0) {
+          return;
+        }
+        this.deselect(result.succeeded);
+        this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: result.succeeded });
+        this.notify({
+          type: 'info',
+          message: `${pluralizeUsers(result.succeeded.length)} deleted`,
+          duration: BULK_UNDO_DURATION,
+          action: { label: 'Undo', handler: () => this.restoreUsers(result.succeeded) }
+        });
+      })
+    );
+  }
+
+  selectUser(user: DirectoryUser): void {
     // Update shared state
     this.stateService.setSelectedUserId(user.id);
     
     // Emit event for other modules
-    this.eventBus.emit(EventTypes.USER_SELECTED, user);
+    this.eventBus.emit(UserEvents.SELECTED, user);
+  }
+
+  private deselect(deletedIds: string[]): void {
+    const selectedId = this.stateService.getSelectedUserId();
+    if (selectedId && deletedIds.includes(selectedId)) {
+      this.stateService.setSelectedUserId(null);
+    }
+  }
+
+  /**
+   * Bring back a deleted user (the "Undo" of deleteUser)
+   */
+  private restoreUser(id: string): void {
+    this.api.post<ApiResponse<unknown>>(`/users/${encodeURIComponent(id)}/restore`, null).pipe(
+      map(response => toDirectoryUser(response.data))
+    ).subscribe(user => this.eventBus.emit(UserEvents.UPDATED, user));
+  }
+
+  private restoreUsers(ids: string[]): void {
+    this.api.post<ApiResponse<BatchResult<unknown>>>('/users/bulk-restore', { ids }).subscribe(response => {
+      const succeeded = toUsers(response.data.succeeded, 'succeeded');
+      const { failed } = response.data;
+      if (succeeded.length > 0) {
+        this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: succeeded.map(user => user.id) });
+      }
+      if (failed.length > 0) {
+        this.notify({ type: 'warning', message: `${pluralizeUsers(failed.length)} could not be restored` });
+      }
+    });
+  }
+
+  private changeInvitation(user: DirectoryUser, action: 'resend' | 'revoke', message: string): Observable<Invitation> {
+    const id = encodeURIComponent(user.id);
+    return this.api.post<ApiResponse<unknown>>(`/users/${id}/invitation/${action}`, null).pipe(
+      map(response => toInvitation(response.data)),
+      tap(() => {
+        // Both change the user's status
+        this.eventBus.emit(UserEvents.BULK_CHANGED, { ids: [user.id] });
+        this.notify({ type: 'success', message });
+      })
+    );
+  }
+
+  private notify(notification: NotificationOptions): void {
+    this.eventBus.emit(EventTypes.NOTIFICATION, notification);
   }
 }
+
+function toUsers(payload: unknown, path: string): DirectoryUser[] {
+  return readArray(payload, path).map((user, index) => toDirectoryUser(user, `${path}[${index}]`));
+}
+
+function toRoleChange(payload: unknown, path: string): RoleChange {
+  const change = readObject(payload, path);
+  return {
+    role: readRole(change, 'role', path),
+    previousRole: change['previousRole'] === null ? null : readRole(change, 'previousRole', path),
+    changedAt: readDate(change, 'changedAt', path)
+  };
+}
+
+/**
+ * The query with its role filter named as the users API expects. The app
+ * filters by role id; the API by label.
+ */
+function toApiQuery(query: PageQuery): PageQuery {
+  const role = query.filter['role'] ? parseRole(query.filter['role']) : undefined;
+  return role ? { ...query, filter: { ...query.filter, role: toRoleDto(role) } } : query;
+}
+
+function toActivity(payload: unknown, path: string): Activity {
+  const activity = readObject(payload, path);
+  return {
+    id: readString(activity, 'id', path),
+    type: readString(activity, 'type', path),
+    description: readString(activity, 'description', path),
+    timestamp: readDate(activity, 'timestamp', path),
+    user: readOptionalString(activity, 'user', path)
+  };
+}
+
+function toInvitation(payload: unknown, path = 'invitation'): Invitation {
+  const invitation = readObject(payload, path);
+  return {
+    status: readOneOf(invitation, 'status', path, INVITATION_STATUSES),
+    expiresAt: readDate(invitation, 'expiresAt', path),
+    token: invitation['token'] === null ? null : readString(invitation, 'token', path),
+    events: readArray(invitation['events'], `${path}.events`)
+      .map((event, index) => toInvitationEvent(event, `${path}.events[${index}]`))
+  };
+}
+
+function toInvitationEvent(payload: unknown, path: string): InvitationEvent {
+  const event = readObject(payload, path);
+  return {
+    type: readOneOf(event, 'type', path, INVITATION_EVENT_TYPES),
+    at: readDate(event, 'at', path),
+    by: event['by'] === null ? null : readString(event, 'by', path)
+  };
+}
+
+function pluralizeUsers(count: number): string {
+  return count === 1 ? '1 user' : `${count} users`;
+}
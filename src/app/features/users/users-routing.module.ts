@@ -1,11 +1,32 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
+import { RoleGuard } from '@core/guards/role.guard';
+import { UnsavedChangesGuard } from '@core/guards/unsaved-changes.guard';
+import { UserRole } from '@core/models/user.model';
 import { UsersListComponent } from './components/users-list/users-list.component';
+import { UserDetailComponent } from './components/user-detail/user-detail.component';
+import { UserImportComponent } from './components/user-import/user-import.component';
+import { UserResolver } from './resolvers/user.resolver';
 
 const routes: Routes = [
   {
     path: '',
-    component: UsersListComponent
+    component: UsersListComponent,
+    canDeactivate: [UnsavedChangesGuard]
+  },
+  {
+    path: 'import',
+    component: UserImportComponent,
+    // The roles holding Permission.USERS_CREATE
+    canActivate: [RoleGuard],
+    data: { roles: [UserRole.ADMIN, UserRole.MANAGER, UserRole.USER] },
+    canDeactivate: [UnsavedChangesGuard]
+  },
+  {
+    path: ':id',
+    component: UserDetailComponent,
+    resolve: { user: UserResolver },
+    canDeactivate: [UnsavedChangesGuard]
   }
 ];
 
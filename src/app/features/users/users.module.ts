@@ -1,21 +1,34 @@
 import { NgModule } from '@angular/core';
-import { FormsModule } from '@angular/forms';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { SharedModule } from '@shared/shared.module';
 import { UsersRoutingModule } from './users-routing.module';
 import { UsersListComponent } from './components/users-list/users-list.component';
+import { UserDetailComponent } from './components/user-detail/user-detail.component';
+import { UserFormComponent } from './components/user-form/user-form.component';
+import { UserImportComponent } from './components/user-import/user-import.component';
+import { UserInviteComponent } from './components/user-invite/user-invite.component';
 import { UsersService } from './services/users.service';
+import { UserImportService } from './services/user-import.service';
+import { UserResolver } from './resolvers/user.resolver';
 
 @NgModule({
   declarations: [
-    UsersListComponent
+    UsersListComponent,
+    UserDetailComponent,
+    UserFormComponent,
+    UserImportComponent,
+    UserInviteComponent
   ],
   imports: [
     FormsModule,
+    ReactiveFormsModule,
     SharedModule,
     UsersRoutingModule
   ],
   providers: [
-    UsersService
+    UsersService,
+    UserImportService,
+    UserResolver
   ]
 })
 export class UsersModule { }
@@ -0,0 +1,85 @@
+import { fakeAsync, tick } from '@angular/core/testing';
+import { FormControl, ValidationErrors } from '@angular/forms';
+import { Observable, of, throwError } from 'rxjs';
+import { UsersService } from '../services/users.service';
+import { emailListValidator, emailValidator, oneOfValidator, uniqueEmailValidator } from './user-form.validators';
+
+describe('emailValidator', () => {
+  it('should accept the addresses the API accepts and empty values', () => {
+    expect(emailValidator()(new FormControl('ann@example.com'))).toBeNull();
+    expect(emailValidator()(new FormControl(''))).toBeNull();
+  });
+
+  it('should reject addresses without a domain', () => {
+    expect(emailValidator()(new FormControl('ann@example'))).toEqual({ email: true });
+    expect(emailValidator()(new FormControl('ann smith@example.com'))).toEqual({ email: true });
+  });
+});
+
+describe('oneOfValidator', () => {
+  const validator = oneOfValidator(['admin', 'user']);
+
+  it('should accept listed values', () => {
+    expect(validator(new FormControl('user'))).toBeNull();
+  });
+
+  it('should list the options for other values', () => {
+    expect(validator(new FormControl('owner'))).toEqual({ oneOf: { options: ['admin', 'user'] } });
+  });
+});
+
+describe('uniqueEmailValidator', () => {
+  let isEmailTaken: jasmine.Spy;
+  let editingId: string | undefined;
+
+  const validate = (email: string) => {
+    const usersService = { isEmailTaken } as unknown as UsersService;
+    let result: ValidationErrors | null | undefined;
+    (uniqueEmailValidator(usersService, () => editingId)(new FormControl(email)) as Observable<ValidationErrors | null>)
+      .subscribe(errors => result = errors);
+    return () => result;
+  };
+
+  beforeEach(() => {
+    isEmailTaken = jasmine.createSpy('isEmailTaken').and.returnValue(of(false));
+    editingId = undefined;
+  });
+
+  it('should wait for typing to pause before asking the server', fakeAsync(() => {
+    isEmailTaken.and.returnValue(of(true));
+    editingId = '7';
+    const result = validate(' ann@example.com ');
+
+    tick(299);
+    expect(isEmailTaken).not.toHaveBeenCalled();
+
+    tick(1);
+    expect(isEmailTaken).toHaveBeenCalledWith('ann@example.com', '7');
+    expect(result()).toEqual({ emailTaken: true });
+  }));
+
+  it('should pass free emails and empty values', fakeAsync(() => {
+    const free = validate('ann@example.com');
+    const empty = validate('');
+    tick(300);
+
+    expect(free()).toBeNull();
+    expect(empty()).toBeNull();
+    expect(isEmailTaken).toHaveBeenCalledTimes(1);
+  }));
+
+  it('should let the value through when the check fails', fakeAsync(() => {
+    isEmailTaken.and.returnValue(throwError(() => new Error('Offline')));
+    const result = validate('ann@example.com');
+    tick(300);
+
+    expect(result()).toBeNull();
+  }));
+});
+
+describe('emailListValidator', () => {
+  it('should report invalid entries and too many emails', () => {
+    expect(emailListValidator(3)(new FormControl('ann@example.com, bob; ann@example.com'))).toEqual({ invalidEmails: { emails: ['bob'] } });
+    expect(emailListValidator(1)(new FormControl('ann@example.com bob@example.com'))).toEqual({ tooManyEmails: { max: 1 } });
+  });
+});
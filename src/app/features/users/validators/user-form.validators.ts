@@ -0,0 +1,73 @@
+import { AbstractControl, AsyncValidatorFn, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { Observable, of, timer } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { EMAIL_PATTERN } from '@core/models/user.model';
+import { UsersService } from '../services/users.service';
+
+// Wait for typing to pause before asking the server
+const EMAIL_CHECK_DELAY = 300;
+
+/**
+ * Fails with `{ email: true }` unless the value is an email address the API
+ * accepts. Empty values pass - combine with Validators.required.
+ */
+export function emailValidator(): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const email = String(control.value ?? '');
+    return !email || EMAIL_PATTERN.test(email) ? null : { email: true };
+  };
+}
+
+/**
+ * The value must be one of `options`; errors as `{ oneOf: { options } }`
+ */
+export function oneOfValidator(options: readonly string[]): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null =>
+    options.includes(control.value) ? null : { oneOf: { options } };
+}
+
+/**
+ * Fails with `{ emailTaken: true }` when another user already has the email.
+ * `exceptId` returns the id of the user being edited, whose own email is fine.
+ *
+ * A failed check lets the value through - the server still rejects duplicates on save.
+ */
+export function uniqueEmailValidator(usersService: UsersService, exceptId: () => string | undefined): AsyncValidatorFn {
+  return (control: AbstractControl): Observable<ValidationErrors | null> => {
+    const email = String(control.value ?? '').trim();
+    if (!email) {
+      return of(null);
+    }
+
+    // Angular unsubscribes from the previous check on every change, so this debounces
+    return timer(EMAIL_CHECK_DELAY).pipe(
+      switchMap(() => usersService.isEmailTaken(email, exceptId())),
+      map(taken => taken ? { emailTaken: true } : null),
+      catchError(() => of(null))
+    );
+  };
+}
+
+/**
+ * The emails in free text separated by commas, semicolons or whitespace, without repeats
+ */
+export function parseEmailList(text: string): string[] {
+  const emails = text.split(/[\s,;]+/).filter(Boolean);
+  return emails.filter((email, index) =>
+    emails.findIndex(other => other.toLowerCase() === email.toLowerCase()) === index);
+}
+
+/**
+ * Fails with `{ invalidEmails: { emails } }` for entries that are not email
+ * addresses and `{ tooManyEmails: { max } }` for more than `max` emails
+ */
+export function emailListValidator(max: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const emails = parseEmailList(String(control.value ?? ''));
+    if (emails.length > max) {
+      return { tooManyEmails: { max } };
+    }
+    const invalid = emails.filter(email => !EMAIL_PATTERN.test(email));
+    return invalid.length > 0 ? { invalidEmails: { emails: invalid } } : null;
+  };
+}
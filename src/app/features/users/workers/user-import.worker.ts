@@ -0,0 +1,14 @@
+/// <reference lib="webworker" />
+
+import { ImportParseRequest, ImportParseResponse, readSpreadsheet } from '../models/user-import.model';
+
+// Parses import files off the main thread so large files don't freeze the page
+addEventListener('message', ({ data }: MessageEvent<ImportParseRequest>) => {
+  readSpreadsheet(data.file).then(
+    rows => postMessage({ ok: true, rows } satisfies ImportParseResponse),
+    (error: unknown) => postMessage({
+      ok: false,
+      message: error instanceof Error ? error.message : 'The file could not be read'
+    } satisfies ImportParseResponse)
+  );
+});
@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { ConfirmDialogService } from '@core/services/confirm-dialog.service';
+
+@Component({
+  selector: 'app-confirm-dialog',
+  templateUrl: './confirm-dialog.component.html',
+  styleUrls: ['./confirm-dialog.component.scss']
+})
+export class ConfirmDialogComponent {
+  dialog$ = this.confirmDialog.dialog$;
+
+  constructor(private confirmDialog: ConfirmDialogService) {}
+
+  onConfirm(): void {
+    this.confirmDialog.respond(true);
+  }
+
+  onCancel(): void {
+    this.confirmDialog.respond(false);
+  }
+}
@@ -1,4 +1,14 @@
 import { Component } from '@angular/core';
+import { Router } from '@angular/router';
+import { combineLatest, of, timer } from 'rxjs';
+import { distinctUntilChanged, map, switchMap } from 'rxjs/operators';
+import { AuthService } from '@core/services/auth.service';
+import { StateService } from '@core/services/state.service';
+import { ConnectivityService } from '@core/services/connectivity.service';
+import { OfflineQueueService } from '@core/services/offline-queue.service';
+
+// Requests finishing faster than this don't show the progress bar, so it doesn't flicker
+const PROGRESS_DELAY = 300;
 
 @Component({
   selector: 'app-header',
@@ -6,5 +16,37 @@ import { Component } from '@angular/core';
   styleUrls: ['./header.component.scss']
 })
 export class HeaderComponent {
-  constructor() {}
+  currentUser$ = this.authService.currentUser$;
+  sidebarCollapsed$ = this.stateService.sidebarCollapsed$;
+
+  showProgress$ = this.stateService.loading$.pipe(
+    switchMap(loading => loading ? timer(PROGRESS_DELAY).pipe(map(() => true)) : of(false)),
+    distinctUntilChanged()
+  );
+
+  // Shown while offline, and while changes made offline are still waiting to be sent
+  offlineStatus$ = combineLatest([
+    this.connectivity.online$,
+    this.offlineQueue.pendingCount$
+  ]).pipe(
+    map(([online, pending]) => ({ online, pending }))
+  );
+
+  constructor(
+    private authService: AuthService,
+    private stateService: StateService,
+    private connectivity: ConnectivityService,
+    private offlineQueue: OfflineQueueService,
+    private router: Router
+  ) {}
+
+  onToggleSidebar(): void {
+    this.stateService.toggleSidebar();
+  }
+
+  onLogout(): void {
+    this.authService.logout().subscribe(() => {
+      this.router.navigate(['/login']);
+    });
+  }
 }
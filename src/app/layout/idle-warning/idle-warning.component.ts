@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { IdleService } from '@core/services/idle.service';
+
+@Component({
+  selector: 'app-idle-warning',
+  templateUrl: './idle-warning.component.html',
+  styleUrls: ['./idle-warning.component.scss']
+})
+export class IdleWarningComponent {
+  warning$ = this.idleService.warning$;
+
+  constructor(private idleService: IdleService) {}
+
+  onStaySignedIn(): void {
+    this.idleService.stayActive();
+  }
+
+  onSignOut(): void {
+    this.idleService.signOut();
+  }
+}
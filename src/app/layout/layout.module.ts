@@ -1,21 +1,32 @@
 import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
+import { SharedModule } from '@shared/shared.module';
 import { HeaderComponent } from './header/header.component';
 import { SidebarComponent } from './sidebar/sidebar.component';
+import { IdleWarningComponent } from './idle-warning/idle-warning.component';
+import { ConfirmDialogComponent } from './confirm-dialog/confirm-dialog.component';
+import { ToastContainerComponent } from './toast-container/toast-container.component';
 
 @NgModule({
   declarations: [
     HeaderComponent,
-    SidebarComponent
+    SidebarComponent,
+    IdleWarningComponent,
+    ConfirmDialogComponent,
+    ToastContainerComponent
   ],
   imports: [
     CommonModule,
-    RouterModule
+    RouterModule,
+    SharedModule
   ],
   exports: [
     HeaderComponent,
-    SidebarComponent
+    SidebarComponent,
+    IdleWarningComponent,
+    ConfirmDialogComponent,
+    ToastContainerComponent
   ]
 })
 export class LayoutModule { }
@@ -1,5 +1,10 @@
 import { Component } from '@angular/core';
 import { Router } from '@angular/router';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { AuthService } from '@core/services/auth.service';
+import { StateService } from '@core/services/state.service';
+import { UserRole } from '@core/models/user.model';
 
 interface NavItem {
   label: string;
@@ -32,9 +37,27 @@ export class SidebarComponent {
     }
   ];
 
-  constructor(private router: Router) {}
+  // Only the entries the current user's role can reach
+  visibleNavItems$: Observable<NavItem[]> = this.authService.currentUser$.pipe(
+    map(() => this.navItems.filter(item => this.canAccess(item.route)))
+  );
+
+  collapsed$ = this.stateService.sidebarCollapsed$;
+
+  constructor(
+    private router: Router,
+    private authService: AuthService,
+    private stateService: StateService
+  ) {}
 
   isActive(route: string): boolean {
     return this.router.url.startsWith(route);
   }
+
+  private canAccess(route: string): boolean {
+    // Roles come from the route's `data.roles`, the same source RoleGuard uses
+    const path = route.replace(/^\//, '');
+    const roles = this.router.config.find(r => r.path === path)?.data?.['roles'] as UserRole[] | undefined;
+    return !roles || this.authService.hasRole(roles);
+  }
 }
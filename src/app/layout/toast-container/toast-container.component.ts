@@ -0,0 +1,41 @@
+import { Component } from '@angular/core';
+import { map } from 'rxjs/operators';
+import { NotificationService } from '@core/services/notification.service';
+import { Notification } from '@core/models/notification.model';
+
+@Component({
+  selector: 'app-toast-container',
+  templateUrl: './toast-container.component.html',
+  styleUrls: ['./toast-container.component.scss']
+})
+export class ToastContainerComponent {
+  // Errors are announced immediately, everything else waits for the screen reader to be idle
+  urgent$ = this.notificationService.notifications$.pipe(
+    map(notifications => notifications.filter(n => n.type === 'error'))
+  );
+  polite$ = this.notificationService.notifications$.pipe(
+    map(notifications => notifications.filter(n => n.type !== 'error'))
+  );
+
+  constructor(private notificationService: NotificationService) {}
+
+  trackById(_: number, notification: Notification): string {
+    return notification.id;
+  }
+
+  onDismiss(notification: Notification): void {
+    this.notificationService.dismiss(notification.id);
+  }
+
+  onAction(notification: Notification): void {
+    this.notificationService.runAction(notification.id);
+  }
+
+  onPause(notification: Notification): void {
+    this.notificationService.pause(notification.id);
+  }
+
+  onResume(notification: Notification): void {
+    this.notificationService.resume(notification.id);
+  }
+}
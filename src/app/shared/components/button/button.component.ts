@@ -14,6 +14,8 @@ export class ButtonComponent {
   @Input() disabled = false;
   @Input() loading = false;
   @Input() fullWidth = false;
+  // Inside a form, use 'button' for anything that shouldn't submit it (e.g. Cancel)
+  @Input() htmlType: 'submit' | 'button' = 'submit';
   @Output() clicked = new EventEmitter<MouseEvent>();
 
   onClick(event: MouseEvent): void {
@@ -0,0 +1,26 @@
+import { Directive, Input, TemplateRef } from '@angular/core';
+import { DataTableCellContext } from './data-table.model';
+
+/**
+ * Custom cell template for one column of an app-data-table
+ *
+ * Usage:
+ * <ng-template appDataTableCell="status" let-row let-value="value">
+ *   <span class="badge">{{ value }}</span>
+ * </ng-template>
+ */
+@Directive({
+  selector: 'ng-template[appDataTableCell]'
+})
+export class DataTableCellDirective<T = any> {
+  @Input('appDataTableCell') field = '';
+
+  constructor(public template: TemplateRef<DataTableCellContext<T>>) {}
+
+  static ngTemplateContextGuard<T>(
+    directive: DataTableCellDirective<T>,
+    context: unknown
+  ): context is DataTableCellContext<T> {
+    return true;
+  }
+}
@@ -0,0 +1,198 @@
+import { SimpleChange } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { PageQuery } from '@core/models/common.model';
+import { StateService } from '@core/services/state.service';
+import { TablePreferences } from '@core/store/app.state';
+import { DataTableComponent } from './data-table.component';
+import { DataTableColumn } from './data-table.model';
+
+interface Row {
+  id: string;
+  name: string;
+  email: string;
+}
+
+describe('DataTableComponent', () => {
+  let fixture: ComponentFixture<DataTableComponent<Row>>;
+  let table: DataTableComponent<Row>;
+  let queries: PageQuery[];
+
+  const columns: DataTableColumn<Row>[] = [
+    { field: 'name', header: 'Name', sortable: true, filter: { type: 'text' }, hideable: false },
+    { field: 'email', header: 'Email', sortable: true },
+    { field: 'status', header: 'Status' }
+  ];
+  const rows: Row[] = [
+    { id: '1', name: 'Ann', email: 'ann@example.com' },
+    { id: '2', name: 'Bob', email: 'bob@example.com' }
+  ];
+
+  const createTable = (tableId?: string) => {
+    const created = TestBed.createComponent<DataTableComponent<Row>>(DataTableComponent);
+    created.componentInstance.tableId = tableId;
+    created.componentInstance.columns = columns;
+    created.componentInstance.ngOnChanges({ columns: new SimpleChange(undefined, columns, true) });
+    created.detectChanges();
+    return created;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [DataTableComponent]
+    }).overrideTemplate(DataTableComponent, '');
+
+    fixture = createTable('test');
+    table = fixture.componentInstance;
+    table.rows = rows;
+    queries = [];
+    table.queryChange.subscribe(query => {
+      queries.push(query);
+      // The host fetches again and passes the new query back
+      table.query = query;
+    });
+  });
+
+  afterEach(() => fixture.destroy());
+
+  const click = (shiftKey = false) => new MouseEvent('click', { shiftKey });
+  const column = (field: string) => columns.find(c => c.field === field)!;
+
+  describe('sorting', () => {
+    it('should sort by the clicked column alone', () => {
+      table.onSort(column('name'), click());
+      table.onSort(column('email'), click());
+
+      expect(table.query.sort).toEqual([{ field: 'email', direction: 'asc' }]);
+    });
+
+    it('should add columns to the sort with shift', () => {
+      table.query = { ...table.query, page: 3 };
+      table.onSort(column('name'), click());
+      table.onSort(column('email'), click(true));
+      table.onSort(column('name'), click(true));
+
+      expect(table.query.sort).toEqual([{ field: 'name', direction: 'desc' }, { field: 'email', direction: 'asc' }]);
+      expect(table.query.page).toBe(1);
+      expect(table.getSortIndicator(column('email'))).toBe('▲2');
+    });
+
+    it('should ignore columns that are not sortable', () => {
+      table.onSort(column('status'), click());
+
+      expect(queries).toEqual([]);
+    });
+  });
+
+  describe('text filters', () => {
+    it('should apply the text once typing pauses', fakeAsync(() => {
+      table.onTextFilter(column('name'), 'a');
+      tick(200);
+      table.onTextFilter(column('name'), 'an ');
+      tick(299);
+      expect(queries).toEqual([]);
+
+      tick(1);
+      expect(queries.length).toBe(1);
+      expect(queries[0].filter).toEqual({ name: 'an' });
+    }));
+
+    it('should apply the same text again after the host reset the filters', fakeAsync(() => {
+      table.onTextFilter(column('name'), 'ann');
+      tick(300);
+      table.query = { ...table.query, filter: {} };
+
+      table.onTextFilter(column('name'), 'ann');
+      tick(300);
+
+      expect(queries.length).toBe(2);
+      expect(table.query.filter).toEqual({ name: 'ann' });
+    }));
+
+    it('should not emit when the text matches the current filter', fakeAsync(() => {
+      table.query = { ...table.query, filter: { name: 'ann' } };
+      table.onTextFilter(column('name'), ' ann');
+      tick(300);
+
+      expect(queries).toEqual([]);
+    }));
+  });
+
+  describe('selection', () => {
+    const otherPage: Row = { id: '9', name: 'Zoe', email: 'zoe@example.com' };
+    let selections: Row[][];
+
+    beforeEach(() => {
+      selections = [];
+      table.selectionChange.subscribe(selection => selections.push(selection));
+      table.selection = [otherPage];
+      table.ngOnChanges({ selection: new SimpleChange([], table.selection, false) });
+    });
+
+    it('should select every row on the page and keep other pages selected', () => {
+      table.toggleRow(rows[0]);
+      expect(table.someOnPageSelected).toBeTrue();
+
+      table.toggleAllOnPage();
+
+      expect(selections[1]).toEqual([otherPage, rows[0], rows[1]]);
+      expect(table.allOnPageSelected).toBeTrue();
+    });
+
+    it('should deselect only the page when it is all selected', () => {
+      table.toggleAllOnPage();
+      table.toggleAllOnPage();
+
+      expect(selections[1]).toEqual([otherPage]);
+      expect(table.allOnPageSelected).toBeFalse();
+    });
+  });
+
+  describe('columns', () => {
+    let preferences: TablePreferences;
+
+    beforeEach(() => {
+      TestBed.inject(StateService).tablePreferences$('test').subscribe(saved => preferences = saved);
+    });
+
+    const fields = (list: DataTableColumn<Row>[]) => list.map(c => c.field);
+
+    it('should hide columns and save the choice', () => {
+      table.toggleColumn(column('email'));
+
+      expect(fields(table.visibleColumns)).toEqual(['name', 'status']);
+      expect(preferences.hiddenColumns).toEqual(['email']);
+    });
+
+    it('should keep columns that are not hideable', () => {
+      table.toggleColumn(column('name'));
+
+      expect(fields(table.visibleColumns)).toEqual(['name', 'email', 'status']);
+      expect(preferences.hiddenColumns).toBeUndefined();
+    });
+
+    it('should reorder columns and save the order', () => {
+      table.moveColumn(column('status'), -1);
+
+      expect(fields(table.visibleColumns)).toEqual(['name', 'status', 'email']);
+      expect(preferences.columnOrder).toEqual(['name', 'status', 'email']);
+    });
+
+    it('should restore saved columns in another table with the same id', () => {
+      table.toggleColumn(column('email'));
+      table.moveColumn(column('status'), -1);
+
+      const restored = createTable('test').componentInstance;
+
+      expect(fields(restored.orderedColumns)).toEqual(['name', 'status', 'email']);
+      expect(fields(restored.visibleColumns)).toEqual(['name', 'status']);
+    });
+
+    it('should reset to the default columns', () => {
+      table.toggleColumn(column('email'));
+      table.resetColumns();
+
+      expect(fields(table.visibleColumns)).toEqual(['name', 'email', 'status']);
+      expect(preferences).toEqual(jasmine.objectContaining({ hiddenColumns: [], columnOrder: [] }));
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import {
+  Component,
+  ContentChildren,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  QueryList,
+  SimpleChanges,
+  TemplateRef
+} from '@angular/core';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime, filter } from 'rxjs/operators';
+import { PageQuery } from '@core/models/common.model';
+import { TablePreferences } from '@core/store/app.state';
+import { StateService } from '@core/services/state.service';
+import { DateFormatPipe } from '../../pipes/date-format.pipe';
+import { EMPTY_RANGE, VirtualRange } from '../../directives/virtual-scroll-layout';
+import { DataTableCellDirective } from './data-table-cell.directive';
+import {
+  DataTableCellContext,
+  DataTableColumn,
+  DataTableSelectOption,
+  formatDateRange,
+  getScrollContext,
+  parseDateRange,
+  toggleSort
+} from './data-table.model';
+
+const TEXT_FILTER_DEBOUNCE = 300;
+
+/**
+ * DataTableComponent - Generic table for server-side (or local) data
+ *
+ * The host owns the data: it passes one page of `rows` plus the `total` and the
+ * current `query`, and fetches again when `queryChange` emits (page, page size,
+ * sort or filters changed). Column visibility and order are saved per `tableId`.
+ *
+ * For long lists, `virtual` renders only the rows in view, and `infinite`
+ * replaces the pager with `loadMore` events as the end comes into view (the
+ * host appends the next page to `rows`).
+ *
+ * Usage:
+ * <app-data-table tableId="users" [columns]="columns" [rows]="users" [total]="total"
+ *                 [query]="query" (queryChange)="onQueryChange($event)">
+ *   <ng-template appDataTableCell="name" let-user>{{ user.name }}</ng-template>
+ * </app-data-table>
+ */
+@Component({
+  selector: 'app-data-table',
+  templateUrl: './data-table.component.html',
+  styleUrls: ['./data-table.component.scss']
+})
+export class DataTableComponent<T extends object> implements OnInit, OnChanges, OnDestroy {
+  // Preferences (visible columns, order, page size) are persisted under this id
+  @Input() tableId?: string;
+  @Input() columns: DataTableColumn<T>[] = [];
+  @Input() rows: T[] = [];
+  @Input() total = 0;
+  @Input() query: PageQuery = { page: 1, pageSize: 10, sort: [], filter: {} };
+  @Input() pageSizes = [10, 25, 50];
+  @Input() loading = false;
+  @Input() selectable = false;
+  @Input() selection: T[] = [];
+  @Input() activeRow: T | null = null;
+  @Input() rowKey: (row: T) => string = row => String((row as { id?: unknown }).id);
+  @Input() maxHeight = '70vh';
+  @Input() emptyMessage = 'No results found.';
+  @Input() virtual = false;
+  @Input() estimatedRowHeight = 57;
+  @Input() infinite = false;
+  @Input() hasMore = false;
+  // Scroll position is restored under this key, e.g. when navigating back from a detail page
+  @Input() restoreKey?: string;
+  @Output() queryChange = new EventEmitter<PageQuery>();
+  @Output() loadMore = new EventEmitter<void>();
+  @Output() selectionChange = new EventEmitter<T[]>();
+  @Output() rowClick = new EventEmitter<T>();
+
+  @ContentChildren(DataTableCellDirective) cellTemplates?: QueryList<DataTableCellDirective<T>>;
+
+  orderedColumns: DataTableColumn<T>[] = [];
+  visibleColumns: DataTableColumn<T>[] = [];
+  hasFilters = false;
+  showColumnMenu = false;
+  range: VirtualRange = EMPTY_RANGE;
+
+  private hiddenColumns: string[] = [];
+  private columnOrder: string[] = [];
+  private selectedKeys = new Set<string>();
+  private textFilters = new Subject<{ key: string; value: string }>();
+  private subscriptions = new Subscription();
+  private datePipe = new DateFormatPipe();
+
+  constructor(
+    private stateService: StateService,
+    private elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  ngOnInit(): void {
+    if (this.tableId) {
+      this.subscriptions.add(
+        this.stateService.tablePreferences$(this.tableId).subscribe(preferences => {
+          this.hiddenColumns = preferences.hiddenColumns ?? [];
+          this.columnOrder = preferences.columnOrder ?? [];
+          this.updateColumns();
+        })
+      );
+    }
+
+    this.subscriptions.add(
+      this.textFilters.pipe(
+        debounceTime(TEXT_FILTER_DEBOUNCE),
+        // Compared with the current query, not the last text typed: the host may have reset the filters since
+        filter(({ key, value }) => value !== (this.query.filter[key] ?? ''))
+      ).subscribe(({ key, value }) => this.setFilter(key, value))
+    );
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['columns']) {
+      this.updateColumns();
+    }
+    if (changes['selection'] || changes['rowKey']) {
+      this.selectedKeys = new Set(this.selection.map(row => this.rowKey(row)));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.showColumnMenu && !this.elementRef.nativeElement.querySelector('.column-menu-wrapper')?.contains(event.target as Node)) {
+      this.showColumnMenu = false;
+    }
+  }
+
+  @HostListener('keydown.escape')
+  onEscape(): void {
+    this.showColumnMenu = false;
+  }
+
+  get totalPages(): number {
+    return Math.max(Math.ceil(this.total / this.query.pageSize), 1);
+  }
+
+  get rangeStart(): number {
+    return this.total === 0 ? 0 : (this.query.page - 1) * this.query.pageSize + 1;
+  }
+
+  get rangeEnd(): number {
+    return Math.min(this.query.page * this.query.pageSize, this.total);
+  }
+
+  get columnCount(): number {
+    return this.visibleColumns.length + (this.selectable ? 1 : 0);
+  }
+
+  get renderedRows(): T[] {
+    return this.virtual ? this.rows.slice(this.range.start, this.range.end) : this.rows;
+  }
+
+  get scrollContext(): string {
+    return getScrollContext(this.query, this.infinite);
+  }
+
+  get allOnPageSelected(): boolean {
+    return this.rows.length > 0 && this.rows.every(row => this.isSelected(row));
+  }
+
+  get someOnPageSelected(): boolean {
+    return !this.allOnPageSelected && this.rows.some(row => this.isSelected(row));
+  }
+
+  // Cells
+
+  trackByKey = (_index: number, row: T): string => this.rowKey(row);
+
+  getCellTemplate(column: DataTableColumn<T>): TemplateRef<DataTableCellContext<T>> | null {
+    return this.cellTemplates?.find(cell => cell.field === column.field)?.template ?? null;
+  }
+
+  getCellContext(row: T, column: DataTableColumn<T>): DataTableCellContext<T> {
+    return { $implicit: row, value: this.getValue(row, column), column };
+  }
+
+  formatValue(row: T, column: DataTableColumn<T>): string {
+    const value = this.getValue(row, column);
+    if (value instanceof Date) {
+      return this.datePipe.transform(value, 'short');
+    }
+    return value === null || value === undefined ? '' : String(value);
+  }
+
+  isActive(row: T): boolean {
+    return this.activeRow !== null && this.rowKey(this.activeRow) === this.rowKey(row);
+  }
+
+  // Sorting
+
+  onSort(column: DataTableColumn<T>, event: MouseEvent): void {
+    if (column.sortable) {
+      this.emitQuery({ page: 1, sort: toggleSort(this.query.sort, column.field, event.shiftKey) });
+    }
+  }
+
+  getAriaSort(column: DataTableColumn<T>): 'ascending' | 'descending' | 'none' | null {
+    if (!column.sortable) {
+      return null;
+    }
+    const direction = this.query.sort.find(sort => sort.field === column.field)?.direction;
+    return direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none';
+  }
+
+  getSortIndicator(column: DataTableColumn<T>): string {
+    const index = this.query.sort.findIndex(sort => sort.field === column.field);
+    if (index === -1) {
+      return '';
+    }
+    const arrow = this.query.sort[index].direction === 'asc' ? '▲' : '▼';
+    // Number the columns once several are sorted
+    return this.query.sort.length > 1 ? `${arrow}${index + 1}` : arrow;
+  }
+
+  // Filters
+
+  getFilterValue(column: DataTableColumn<T>): string {
+    return this.query.filter[this.getFilterKey(column)] ?? '';
+  }
+
+  getFilterPlaceholder(column: DataTableColumn<T>): string {
+    return column.filter?.type === 'text' ? column.filter.placeholder ?? 'Filter' : '';
+  }
+
+  getFilterOptions(column: DataTableColumn<T>): DataTableSelectOption[] {
+    return column.filter?.type === 'select' ? column.filter.options : [];
+  }
+
+  getDateRange(column: DataTableColumn<T>): { from: string; to: string } {
+    return parseDateRange(this.getFilterValue(column));
+  }
+
+  onTextFilter(column: DataTableColumn<T>, value: string): void {
+    this.textFilters.next({ key: this.getFilterKey(column), value: value.trim() });
+  }
+
+  onSelectFilter(column: DataTableColumn<T>, value: string): void {
+    this.setFilter(this.getFilterKey(column), value);
+  }
+
+  onDateRangeFilter(column: DataTableColumn<T>, side: 'from' | 'to', value: string): void {
+    const range = { ...this.getDateRange(column), [side]: value };
+    this.setFilter(this.getFilterKey(column), formatDateRange(range.from, range.to));
+  }
+
+  // Selection
+
+  isSelected(row: T): boolean {
+    return this.selectedKeys.has(this.rowKey(row));
+  }
+
+  toggleRow(row: T): void {
+    const key = this.rowKey(row);
+    this.emitSelection(this.isSelected(row)
+      ? this.selection.filter(selected => this.rowKey(selected) !== key)
+      : [...this.selection, row]);
+  }
+
+  /**
+   * Select every row on the current page, or deselect them when they all are
+   */
+  toggleAllOnPage(): void {
+    if (this.allOnPageSelected) {
+      const pageKeys = new Set(this.rows.map(row => this.rowKey(row)));
+      this.emitSelection(this.selection.filter(row => !pageKeys.has(this.rowKey(row))));
+    } else {
+      this.emitSelection([...this.selection, ...this.rows.filter(row => !this.isSelected(row))]);
+    }
+  }
+
+  clearSelection(): void {
+    this.emitSelection([]);
+  }
+
+  // Pagination
+
+  onEndReached(): void {
+    if (this.infinite && this.hasMore && !this.loading) {
+      this.loadMore.emit();
+    }
+  }
+
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages && page !== this.query.page) {
+      this.emitQuery({ page });
+    }
+  }
+
+  setPageSize(pageSize: string): void {
+    this.emitQuery({ page: 1, pageSize: Number(pageSize) });
+    this.savePreferences({ pageSize: Number(pageSize) });
+  }
+
+  // Columns
+
+  isHidden(column: DataTableColumn<T>): boolean {
+    return this.hiddenColumns.includes(column.field);
+  }
+
+  toggleColumn(column: DataTableColumn<T>): void {
+    if (column.hideable === false) {
+      return;
+    }
+    this.hiddenColumns = this.isHidden(column)
+      ? this.hiddenColumns.filter(field => field !== column.field)
+      : [...this.hiddenColumns, column.field];
+    this.savePreferences({ hiddenColumns: this.hiddenColumns });
+    this.updateColumns();
+  }
+
+  moveColumn(column: DataTableColumn<T>, offset: -1 | 1): void {
+    const order = this.orderedColumns.map(c => c.field);
+    const from = order.indexOf(column.field);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= order.length) {
+      return;
+    }
+
+    [order[from], order[to]] = [order[to], order[from]];
+    this.columnOrder = order;
+    this.savePreferences({ columnOrder: order });
+    this.updateColumns();
+  }
+
+  resetColumns(): void {
+    this.hiddenColumns = [];
+    this.columnOrder = [];
+    this.savePreferences({ hiddenColumns: [], columnOrder: [] });
+    this.updateColumns();
+  }
+
+  private updateColumns(): void {
+    // Columns missing from the saved order (e.g. added since) keep their place at the end
+    const position = (column: DataTableColumn<T>) => {
+      const index = this.columnOrder.indexOf(column.field);
+      return index === -1 ? this.columnOrder.length + this.columns.indexOf(column) : index;
+    };
+
+    this.orderedColumns = [...this.columns].sort((a, b) => position(a) - position(b));
+    this.visibleColumns = this.orderedColumns.filter(column => !this.isHidden(column) || column.hideable === false);
+    this.hasFilters = this.visibleColumns.some(column => column.filter);
+  }
+
+  private savePreferences(preferences: TablePreferences): void {
+    if (this.tableId) {
+      this.stateService.setTablePreferences(this.tableId, preferences);
+    }
+  }
+
+  private getValue(row: T, column: DataTableColumn<T>): unknown {
+    return column.value ? column.value(row) : (row as Record<string, unknown>)[column.field];
+  }
+
+  private getFilterKey(column: DataTableColumn<T>): string {
+    return column.filter?.key ?? column.field;
+  }
+
+  private setFilter(key: string, value: string): void {
+    const filter = { ...this.query.filter, [key]: value };
+    if (!value) {
+      delete filter[key];
+    }
+    this.emitQuery({ page: 1, filter });
+  }
+
+  private emitQuery(changes: Partial<PageQuery>): void {
+    this.queryChange.emit({ ...this.query, ...changes });
+  }
+
+  private emitSelection(selection: T[]): void {
+    this.selection = selection;
+    this.selectedKeys = new Set(selection.map(row => this.rowKey(row)));
+    this.selectionChange.emit(selection);
+  }
+}
@@ -0,0 +1,82 @@
+import { PageQuery, SortSpec } from '@core/models/common.model';
+
+export interface DataTableSelectOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Per-column filter. Values are written to `PageQuery.filter[key]` (key defaults
+ * to the column field):
+ * - text:       the typed text
+ * - select:     the chosen option value
+ * - date-range: `from..to` as ISO dates (yyyy-mm-dd); either side may be empty
+ */
+export type DataTableFilter =
+  | { type: 'text'; key?: string; placeholder?: string }
+  | { type: 'select'; key?: string; options: DataTableSelectOption[] }
+  | { type: 'date-range'; key?: string };
+
+export interface DataTableColumn<T> {
+  field: string;
+  header: string;
+  sortable?: boolean;
+  filter?: DataTableFilter;
+  // CSS width, e.g. '12rem'
+  width?: string;
+  // Columns can be hidden from the column menu unless this is false
+  hideable?: boolean;
+  // Value shown (and passed to cell templates) when it isn't simply row[field]
+  value?: (row: T) => unknown;
+}
+
+/**
+ * Context of an `appDataTableCell` template: `let-row` and `let-value="value"`
+ */
+export interface DataTableCellContext<T> {
+  $implicit: T;
+  value: unknown;
+  column: DataTableColumn<T>;
+}
+
+export const DATE_RANGE_SEPARATOR = '..';
+
+export function parseDateRange(value: string | undefined): { from: string; to: string } {
+  const [from = '', to = ''] = (value ?? '').split(DATE_RANGE_SEPARATOR);
+  return { from, to };
+}
+
+export function formatDateRange(from: string, to: string): string {
+  return from || to ? `${from}${DATE_RANGE_SEPARATOR}${to}` : '';
+}
+
+/**
+ * Click sorts by the column alone; with `multi` (shift-click) the column is
+ * added to, toggled in or removed from the existing sort.
+ * Each column cycles ascending -> descending -> unsorted.
+ */
+export function toggleSort(sort: SortSpec[], field: string, multi: boolean): SortSpec[] {
+  const current = sort.find(spec => spec.field === field);
+  const next: SortSpec | null = !current
+    ? { field, direction: 'asc' }
+    : current.direction === 'asc' ? { field, direction: 'desc' } : null;
+
+  if (!multi) {
+    return next ? [next] : [];
+  }
+  if (!current) {
+    return [...sort, next!];
+  }
+  return next
+    ? sort.map(spec => spec.field === field ? next : spec)
+    : sort.filter(spec => spec.field !== field);
+}
+
+/**
+ * Identifies the rows a table shows, so a saved scroll position is only
+ * restored over the same rows. With infinite loading the page doesn't matter.
+ */
+export function getScrollContext(query: PageQuery, infinite: boolean): string {
+  const { sort, filter } = query;
+  return JSON.stringify(infinite ? { sort, filter } : query);
+}
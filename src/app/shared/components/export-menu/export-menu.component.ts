@@ -0,0 +1,46 @@
+import { Component, ElementRef, EventEmitter, HostListener, Input, Output } from '@angular/core';
+import { EXPORT_FORMATS, ExportFormat } from '@core/models/export.model';
+import { ButtonSize, ButtonType } from '../button/button.component';
+
+/**
+ * ExportMenuComponent - Button with a menu of export formats
+ *
+ * Usage:
+ *   <app-export-menu [busy]="exporting" (exported)="onExport($event)"></app-export-menu>
+ */
+@Component({
+  selector: 'app-export-menu',
+  templateUrl: './export-menu.component.html',
+  styleUrls: ['./export-menu.component.scss']
+})
+export class ExportMenuComponent {
+  @Input() label = 'Export';
+  @Input() type: ButtonType = 'secondary';
+  @Input() size: ButtonSize = 'medium';
+  @Input() disabled = false;
+  // Shows a spinner while the data is being gathered
+  @Input() busy = false;
+  @Output() exported = new EventEmitter<ExportFormat>();
+
+  formats = EXPORT_FORMATS;
+  open = false;
+
+  constructor(private elementRef: ElementRef<HTMLElement>) {}
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.open && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.open = false;
+    }
+  }
+
+  @HostListener('keydown.escape')
+  onEscape(): void {
+    this.open = false;
+  }
+
+  select(format: ExportFormat): void {
+    this.open = false;
+    this.exported.emit(format);
+  }
+}
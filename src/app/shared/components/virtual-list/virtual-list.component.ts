@@ -0,0 +1,52 @@
+import { Component, ContentChild, EventEmitter, Input, Output, TemplateRef } from '@angular/core';
+import { EMPTY_RANGE, VirtualRange } from '../../directives/virtual-scroll-layout';
+
+export interface VirtualListItemContext<T> {
+  $implicit: T;
+  index: number;
+}
+
+/**
+ * VirtualListComponent - Scrollable list that only renders the visible items
+ *
+ * Items may have any height. Set `hasMore` and handle `loadMore` to load
+ * further pages as the end comes into view.
+ *
+ * Usage:
+ * <app-virtual-list [items]="activities" height="24rem" [hasMore]="hasMore" (loadMore)="loadNextPage()">
+ *   <ng-template let-activity>{{ activity.description }}</ng-template>
+ * </app-virtual-list>
+ */
+@Component({
+  selector: 'app-virtual-list',
+  templateUrl: './virtual-list.component.html',
+  styleUrls: ['./virtual-list.component.scss']
+})
+export class VirtualListComponent<T> {
+  @Input() items: T[] = [];
+  @Input() itemKey: (item: T, index: number) => string = (item, index) =>
+    String((item as { id?: unknown }).id ?? index);
+  @Input() estimatedItemHeight = 48;
+  @Input() height = '24rem';
+  @Input() loading = false;
+  @Input() hasMore = false;
+  @Input() restoreKey?: string;
+  @Input() label = 'List';
+  @Output() loadMore = new EventEmitter<void>();
+
+  @ContentChild(TemplateRef) itemTemplate?: TemplateRef<VirtualListItemContext<T>>;
+
+  range: VirtualRange = EMPTY_RANGE;
+
+  get renderedItems(): T[] {
+    return this.items.slice(this.range.start, this.range.end);
+  }
+
+  trackByKey = (index: number, item: T): string => this.itemKey(item, this.range.start + index);
+
+  onEndReached(): void {
+    if (this.hasMore && !this.loading) {
+      this.loadMore.emit();
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from '@core/services/auth.service';
+import { Permission } from '@core/models/permission.model';
+
+/**
+ * Renders its template only when the current user's role grants the permission
+ *
+ * Usage: <button *appHasPermission="Permission.USERS_DELETE">Delete</button>
+ */
+@Directive({
+  selector: '[appHasPermission]'
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private permission: Permission | null = null;
+  private hasView = false;
+  private subscription?: Subscription;
+
+  @Input()
+  set appHasPermission(permission: Permission) {
+    this.permission = permission;
+    this.updateView();
+  }
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    // Re-evaluate whenever the signed-in user changes
+    this.subscription = this.authService.currentUser$.subscribe(() => this.updateView());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  private updateView(): void {
+    const allowed = !!this.permission && this.authService.hasPermission(this.permission);
+
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from '@core/services/auth.service';
+import { UserRole } from '@core/models/user.model';
+
+/**
+ * Renders its template only for users with one of the given roles
+ *
+ * Usage: <button *appHasRole="[UserRole.ADMIN]">Delete</button>
+ */
+@Directive({
+  selector: '[appHasRole]'
+})
+export class HasRoleDirective implements OnInit, OnDestroy {
+  private roles: UserRole[] = [];
+  private hasView = false;
+  private subscription?: Subscription;
+
+  @Input()
+  set appHasRole(roles: UserRole | UserRole[]) {
+    this.roles = Array.isArray(roles) ? roles : [roles];
+    this.updateView();
+  }
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    // Re-evaluate whenever the signed-in user changes
+    this.subscription = this.authService.currentUser$.subscribe(() => this.updateView());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  private updateView(): void {
+    const allowed = this.authService.hasRole(this.roles);
+
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Directive, ElementRef, Input } from '@angular/core';
+
+/**
+ * Marks a rendered item of an `appVirtualScroll` container so its height can be measured
+ *
+ * Usage: <div *ngFor="let user of rendered" [appVirtualScrollItem]="user.id">...</div>
+ */
+@Directive({
+  selector: '[appVirtualScrollItem]'
+})
+export class VirtualScrollItemDirective {
+  @Input('appVirtualScrollItem') key = '';
+
+  constructor(public elementRef: ElementRef<HTMLElement>) {}
+}
@@ -0,0 +1,76 @@
+import { EMPTY_RANGE, VirtualScrollLayout } from './virtual-scroll-layout';
+
+describe('VirtualScrollLayout', () => {
+  let layout: VirtualScrollLayout;
+
+  // Ten items, "a" to "j", estimated at 50px each
+  beforeEach(() => {
+    layout = new VirtualScrollLayout(50);
+    layout.setKeys([...'abcdefghij']);
+  });
+
+  describe('with no items', () => {
+    beforeEach(() => layout.setKeys([]));
+
+    it('should have no height and render nothing', () => {
+      expect(layout.totalHeight).toBe(0);
+      expect(layout.indexAt(100)).toBe(0);
+      expect(layout.getRange(0, 500, 3)).toEqual(EMPTY_RANGE);
+    });
+  });
+
+  describe('indexAt', () => {
+    it('should find the item covering an offset', () => {
+      expect(layout.indexAt(0)).toBe(0);
+      expect(layout.indexAt(49)).toBe(0);
+      expect(layout.indexAt(50)).toBe(1);
+      expect(layout.indexAt(275)).toBe(5);
+    });
+
+    it('should clamp offsets outside the list', () => {
+      expect(layout.indexAt(-20)).toBe(0);
+      expect(layout.indexAt(10000)).toBe(9);
+    });
+  });
+
+  describe('getRange', () => {
+    it('should add the overscan on both sides', () => {
+      expect(layout.getRange(250, 100, 1)).toEqual({ start: 4, end: 9, offsetTop: 200, offsetBottom: 50 });
+    });
+
+    it('should stop the overscan at the first item', () => {
+      expect(layout.getRange(120, 100, 2)).toEqual({ start: 0, end: 7, offsetTop: 0, offsetBottom: 150 });
+    });
+
+    it('should include the last item at the end of the list', () => {
+      expect(layout.getRange(450, 100, 2)).toEqual({ start: 7, end: 10, offsetTop: 350, offsetBottom: 0 });
+    });
+  });
+
+  describe('measured heights', () => {
+    it('should report whether a height changed', () => {
+      expect(layout.setHeight('b', 100)).toBeTrue();
+      expect(layout.setHeight('b', 100)).toBeFalse();
+    });
+
+    it('should place items after variable heights', () => {
+      layout.setHeight('b', 100);
+      layout.setHeight('c', 20);
+
+      expect(layout.getOffset(2)).toBe(150);
+      expect(layout.getOffset(3)).toBe(170);
+      expect(layout.totalHeight).toBe(520);
+      expect(layout.indexAt(140)).toBe(1);
+      expect(layout.indexAt(160)).toBe(2);
+    });
+
+    it('should keep heights with their items when the list changes', () => {
+      layout.setHeight('b', 100);
+      layout.setKeys(['z', 'b', 'a']);
+
+      expect(layout.getOffset(1)).toBe(50);
+      expect(layout.getOffset(2)).toBe(150);
+      expect(layout.totalHeight).toBe(200);
+    });
+  });
+});
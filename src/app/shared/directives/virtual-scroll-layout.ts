@@ -0,0 +1,114 @@
+export interface VirtualRange {
+  // Items [start, end) are rendered
+  start: number;
+  end: number;
+  // Space (px) taken by the items that are not rendered, above and below
+  offsetTop: number;
+  offsetBottom: number;
+}
+
+export const EMPTY_RANGE: VirtualRange = { start: 0, end: 0, offsetTop: 0, offsetBottom: 0 };
+
+/**
+ * Positions of variable-height items in a virtually scrolled list
+ *
+ * Items that haven't been rendered yet count as `estimatedHeight`. Heights
+ * are kept per item key, so they survive items being added or reordered.
+ */
+export class VirtualScrollLayout {
+  private keys: string[] = [];
+  private heights = new Map<string, number>();
+  // offsets[i] is the top of item i; offsets[keys.length] the total height
+  private offsets: number[] = [0];
+  private dirty = false;
+
+  constructor(public estimatedHeight: number) {}
+
+  get count(): number {
+    return this.keys.length;
+  }
+
+  get totalHeight(): number {
+    return this.getOffset(this.keys.length);
+  }
+
+  setKeys(keys: string[]): void {
+    this.keys = keys;
+    this.dirty = true;
+  }
+
+  keyAt(index: number): string | null {
+    return this.keys[index] ?? null;
+  }
+
+  indexOf(key: string): number {
+    return this.keys.indexOf(key);
+  }
+
+  /**
+   * Record a measured height; returns whether it changed
+   */
+  setHeight(key: string, height: number): boolean {
+    if (this.heights.get(key) === height) {
+      return false;
+    }
+    this.heights.set(key, height);
+    this.dirty = true;
+    return true;
+  }
+
+  getOffset(index: number): number {
+    this.updateOffsets();
+    return this.offsets[Math.min(Math.max(index, 0), this.keys.length)];
+  }
+
+  /**
+   * Index of the item at `offset` px from the top
+   */
+  indexAt(offset: number): number {
+    this.updateOffsets();
+    // Binary search for the last item starting at or before the offset
+    let low = 0;
+    let high = Math.max(this.keys.length - 1, 0);
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.offsets[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Items to render for a viewport, plus `overscan` items on each side
+   */
+  getRange(scrollTop: number, viewportHeight: number, overscan: number): VirtualRange {
+    if (this.keys.length === 0) {
+      return EMPTY_RANGE;
+    }
+
+    const start = Math.max(this.indexAt(scrollTop) - overscan, 0);
+    const end = Math.min(this.indexAt(scrollTop + viewportHeight) + 1 + overscan, this.keys.length);
+    return {
+      start,
+      end,
+      offsetTop: this.getOffset(start),
+      offsetBottom: this.totalHeight - this.getOffset(end)
+    };
+  }
+
+  private updateOffsets(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    this.offsets = new Array(this.keys.length + 1);
+    this.offsets[0] = 0;
+    this.keys.forEach((key, i) => {
+      this.offsets[i + 1] = this.offsets[i] + (this.heights.get(key) ?? this.estimatedHeight);
+    });
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  AfterContentInit,
+  ContentChildren,
+  Directive,
+  ElementRef,
+  EventEmitter,
+  Input,
+  NgZone,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  QueryList,
+  SimpleChanges
+} from '@angular/core';
+import { Subscription, fromEvent } from 'rxjs';
+import { ScrollPosition, ScrollPositionService } from '@core/services/scroll-position.service';
+import { VirtualScrollItemDirective } from './virtual-scroll-item.directive';
+import { EMPTY_RANGE, VirtualRange, VirtualScrollLayout } from './virtual-scroll-layout';
+
+/**
+ * Windowed rendering for long lists inside a scrollable element
+ *
+ * The directive goes on the scroll container and emits which items to render;
+ * the template renders that slice between two spacers, marking each item with
+ * `appVirtualScrollItem` so its real height is measured. Rows may have any height.
+ *
+ * - `endReached` fires when scrolled near the bottom (infinite loading)
+ * - with `restoreKey`, the position is saved on destroy and restored next time
+ *
+ * Usage:
+ * <div class="viewport" [appVirtualScroll]="items" (rangeChange)="range = $event">
+ *   <div [style.height.px]="range.offsetTop"></div>
+ *   <div *ngFor="let item of items.slice(range.start, range.end)" [appVirtualScrollItem]="item.id">...</div>
+ *   <div [style.height.px]="range.offsetBottom"></div>
+ * </div>
+ */
+@Directive({
+  selector: '[appVirtualScroll]',
+  exportAs: 'appVirtualScroll'
+})
+export class VirtualScrollDirective<T> implements OnInit, OnChanges, AfterContentInit, OnDestroy {
+  @Input('appVirtualScroll') items: T[] = [];
+  @Input() virtualItemKey: (item: T, index: number) => string = (item, index) =>
+    String((item as { id?: unknown }).id ?? index);
+  // Height (px) assumed for items until they have been rendered
+  @Input() virtualItemHeight = 48;
+  // Items rendered beyond each edge of the viewport
+  @Input() virtualOverscan = 5;
+  // Disabled: nothing is windowed, but endReached and restoration still work
+  @Input() virtualEnabled = true;
+  // Distance (px) from the bottom at which endReached fires
+  @Input() endThreshold = 200;
+  @Input() restoreKey?: string;
+  @Input() restoreContext?: string;
+  @Output() rangeChange = new EventEmitter<VirtualRange>();
+  @Output() endReached = new EventEmitter<void>();
+
+  @ContentChildren(VirtualScrollItemDirective, { descendants: true })
+  renderedItems?: QueryList<VirtualScrollItemDirective>;
+
+  private layout = new VirtualScrollLayout(this.virtualItemHeight);
+  private range: VirtualRange = EMPTY_RANGE;
+  private pendingRestore: ScrollPosition | null = null;
+  private resizeObserver?: ResizeObserver;
+  private frame: number | null = null;
+  private subscriptions = new Subscription();
+
+  constructor(
+    private elementRef: ElementRef<HTMLElement>,
+    private ngZone: NgZone,
+    private scrollPositions: ScrollPositionService
+  ) {}
+
+  private get viewport(): HTMLElement {
+    return this.elementRef.nativeElement;
+  }
+
+  ngOnInit(): void {
+    if (this.restoreKey) {
+      this.pendingRestore = this.scrollPositions.get(this.restoreKey, this.restoreContext);
+    }
+
+    // Scrolling and resizing only re-enter Angular when the rendered range changes
+    this.ngZone.runOutsideAngular(() => {
+      this.subscriptions.add(
+        fromEvent(this.viewport, 'scroll', { passive: true }).subscribe(() => this.scheduleUpdate())
+      );
+
+      if (typeof ResizeObserver !== 'undefined') {
+        this.resizeObserver = new ResizeObserver(entries => this.onResize(entries));
+        this.resizeObserver.observe(this.viewport);
+      }
+    });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['virtualItemHeight']) {
+      this.layout.estimatedHeight = this.virtualItemHeight;
+    }
+    if (changes['items'] || changes['virtualItemKey'] || changes['virtualItemHeight']) {
+      this.layout.setKeys(this.items.map((item, index) => this.virtualItemKey(item, index)));
+    }
+    if (changes['restoreContext'] && !changes['restoreContext'].firstChange) {
+      // Different content (e.g. new filters) starts at the top
+      this.pendingRestore = null;
+      this.viewport.scrollTop = 0;
+    }
+    this.scheduleUpdate();
+  }
+
+  ngAfterContentInit(): void {
+    this.observeItems();
+    this.subscriptions.add(this.renderedItems?.changes.subscribe(() => this.observeItems()));
+  }
+
+  ngOnDestroy(): void {
+    if (this.restoreKey) {
+      this.scrollPositions.save(this.restoreKey, this.getPosition());
+    }
+
+    this.subscriptions.unsubscribe();
+    this.resizeObserver?.disconnect();
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+    }
+  }
+
+  /**
+   * Scroll so the item at `index` is at the top
+   */
+  scrollToIndex(index: number): void {
+    this.viewport.scrollTop = this.layout.getOffset(index);
+    this.scheduleUpdate();
+  }
+
+  private scheduleUpdate(): void {
+    if (this.frame !== null) {
+      return;
+    }
+    this.ngZone.runOutsideAngular(() => {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = null;
+        this.update();
+      });
+    });
+  }
+
+  private update(): void {
+    const restoreTo = this.pendingRestore ? this.getRestoreTarget(this.pendingRestore) : null;
+    const scrollTop = restoreTo ?? this.viewport.scrollTop;
+    const range = this.virtualEnabled
+      ? this.layout.getRange(scrollTop, this.viewport.clientHeight, this.virtualOverscan)
+      : { start: 0, end: this.items.length, offsetTop: 0, offsetBottom: 0 };
+
+    if (!this.isSameRange(range)) {
+      this.range = range;
+      this.ngZone.run(() => this.rangeChange.emit(range));
+    }
+
+    // Only after the spacers for the new range are rendered, or the browser clamps it
+    if (restoreTo !== null) {
+      this.viewport.scrollTop = restoreTo;
+    }
+
+    // Also true when the items don't fill the viewport yet, so infinite lists keep loading
+    const { scrollHeight, clientHeight } = this.viewport;
+    if (this.items.length > 0 && scrollHeight - this.viewport.scrollTop - clientHeight <= this.endThreshold) {
+      this.ngZone.run(() => this.endReached.emit());
+    }
+  }
+
+  private onResize(entries: ResizeObserverEntry[]): void {
+    const anchor = this.getPosition();
+    let changed = entries.some(entry => entry.target === this.viewport);
+
+    entries.forEach(entry => {
+      const key = (entry.target as HTMLElement).dataset['virtualKey'];
+      if (key !== undefined) {
+        changed = this.layout.setHeight(key, (entry.target as HTMLElement).offsetHeight) || changed;
+      }
+    });
+
+    if (changed) {
+      // Keep the first visible item in place when items above it change height
+      if (this.virtualEnabled && anchor.anchorKey !== null && !this.pendingRestore) {
+        const index = this.layout.indexOf(anchor.anchorKey);
+        this.viewport.scrollTop = this.layout.getOffset(index) + anchor.anchorOffset;
+      }
+      this.scheduleUpdate();
+    }
+  }
+
+  private observeItems(): void {
+    if (!this.resizeObserver) {
+      return;
+    }
+
+    this.resizeObserver.disconnect();
+    this.resizeObserver.observe(this.viewport);
+    this.renderedItems?.forEach(item => {
+      // The key lets the resize callback find the item's height slot
+      item.elementRef.nativeElement.dataset['virtualKey'] = item.key;
+      this.resizeObserver!.observe(item.elementRef.nativeElement);
+    });
+  }
+
+  /**
+   * Scroll offset for a saved position, once its anchor item has been loaded
+   */
+  private getRestoreTarget(position: ScrollPosition): number | null {
+    const index = position.anchorKey === null ? -1 : this.layout.indexOf(position.anchorKey);
+
+    if (index !== -1) {
+      this.pendingRestore = null;
+      return this.layout.getOffset(index) + position.anchorOffset;
+    }
+    if (this.items.length >= position.itemCount) {
+      // The anchor item is gone - stay at the top
+      this.pendingRestore = null;
+    }
+    return null;
+  }
+
+  private getPosition(): ScrollPosition {
+    const scrollTop = this.viewport.scrollTop;
+    const index = this.layout.indexAt(scrollTop);
+    return {
+      anchorKey: this.layout.keyAt(index),
+      anchorOffset: scrollTop - this.layout.getOffset(index),
+      itemCount: this.items.length,
+      context: this.restoreContext
+    };
+  }
+
+  private isSameRange(range: VirtualRange): boolean {
+    return range.start === this.range.start
+      && range.end === this.range.end
+      && range.offsetTop === this.range.offsetTop
+      && range.offsetBottom === this.range.offsetBottom;
+  }
+}
@@ -2,10 +2,23 @@
 export * from './components/button/button.component';
 export * from './components/card/card.component';
 export * from './components/loading-spinner/loading-spinner.component';
+export * from './components/data-table/data-table.component';
+export * from './components/data-table/data-table.model';
+export * from './components/virtual-list/virtual-list.component';
+export * from './components/export-menu/export-menu.component';
+
+// Directives
+export * from './components/data-table/data-table-cell.directive';
+export * from './directives/has-role.directive';
+export * from './directives/has-permission.directive';
+export * from './directives/virtual-scroll.directive';
+export * from './directives/virtual-scroll-item.directive';
+export * from './directives/virtual-scroll-layout';
 
 // Pipes
 export * from './pipes/date-format.pipe';
 export * from './pipes/truncate.pipe';
+export * from './pipes/role-label.pipe';
 
 // Module
 export * from './shared.module';
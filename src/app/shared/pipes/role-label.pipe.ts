@@ -0,0 +1,15 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { UserRole } from '@core/models/user.model';
+import { getRoleLabel } from '@core/models/role.model';
+
+/**
+ * Display name of a role, e.g. UserRole.MANAGER -> "Manager"
+ */
+@Pipe({
+  name: 'roleLabel'
+})
+export class RoleLabelPipe implements PipeTransform {
+  transform(role: UserRole | null | undefined): string {
+    return role ? getRoleLabel(role) : '';
+  }
+}
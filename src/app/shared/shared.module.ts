@@ -5,8 +5,17 @@ import { ButtonComponent } from './components/button/button.component';
 import { CardComponent } from './components/card/card.component';
 import { LoadingSpinnerComponent } from './components/loading-spinner/loading-spinner.component';
 import { ModalComponent } from './components/modal/modal.component';
+import { DataTableComponent } from './components/data-table/data-table.component';
+import { DataTableCellDirective } from './components/data-table/data-table-cell.directive';
+import { VirtualListComponent } from './components/virtual-list/virtual-list.component';
+import { ExportMenuComponent } from './components/export-menu/export-menu.component';
+import { HasRoleDirective } from './directives/has-role.directive';
+import { HasPermissionDirective } from './directives/has-permission.directive';
+import { VirtualScrollDirective } from './directives/virtual-scroll.directive';
+import { VirtualScrollItemDirective } from './directives/virtual-scroll-item.directive';
 import { DateFormatPipe } from './pipes/date-format.pipe';
 import { TruncatePipe } from './pipes/truncate.pipe';
+import { RoleLabelPipe } from './pipes/role-label.pipe';
 
 @NgModule({
   declarations: [
@@ -14,8 +23,17 @@ import { TruncatePipe } from './pipes/truncate.pipe';
     CardComponent,
     LoadingSpinnerComponent,
     ModalComponent,
+    DataTableComponent,
+    DataTableCellDirective,
+    VirtualListComponent,
+    ExportMenuComponent,
+    HasRoleDirective,
+    HasPermissionDirective,
+    VirtualScrollDirective,
+    VirtualScrollItemDirective,
     DateFormatPipe,
-    TruncatePipe
+    TruncatePipe,
+    RoleLabelPipe
   ],
   imports: [
     CommonModule,
@@ -30,9 +48,19 @@ import { TruncatePipe } from './pipes/truncate.pipe';
     CardComponent,
     LoadingSpinnerComponent,
     ModalComponent,
+    DataTableComponent,
+    VirtualListComponent,
+    ExportMenuComponent,
+    // Export directives
+    DataTableCellDirective,
+    HasRoleDirective,
+    HasPermissionDirective,
+    VirtualScrollDirective,
+    VirtualScrollItemDirective,
     // Export pipes
     DateFormatPipe,
-    TruncatePipe
+    TruncatePipe,
+    RoleLabelPipe
   ]
 })
 export class SharedModule { }
@@ -1,5 +1,7 @@
 export const environment = {
   production: true,
   apiUrl: 'https://api.enterprise.com',
-  enableLogging: false
+  enableLogging: false,
+  // Runtime configuration, loaded at bootstrap (overrides the defaults above)
+  configUrl: 'assets/config/app-config.json'
 };
@@ -1,5 +1,7 @@
 export const environment = {
   production: false,
   apiUrl: 'http://localhost:4200/api',
-  enableLogging: true
+  enableLogging: true,
+  // Runtime configuration, loaded at bootstrap (overrides the defaults above)
+  configUrl: 'assets/config/app-config.json'
 };